@@ -0,0 +1,203 @@
+import type { Room } from '../src/types'
+import type { BuildingSnapshot, CombatEvent } from '../src/systems/Networking/protocol'
+import type { CollisionWorld } from '../src/systems/Physics/collisionWorld'
+import type { LevelDefinition } from '../src/systems/Level/levelFormat'
+import type { KaijuState } from '../src/systems/Kaiju/kaijuBrain'
+import { getKaijuDefinition } from '../src/systems/Kaiju/kaijuDefinitions'
+import { sweepBox, type Hurtbox } from '../src/systems/Combat/hitDetection'
+import { buildingBox, buildingStageFor, type BuildingDefinition } from '../src/systems/Buildings/buildingFormat'
+import type { RoomManager } from './RoomManager'
+
+// Kaiju pushing against a building deal this many of their attacks' damage per second
+const TRAMPLE_ATTACKS_PER_SECOND = 1
+// How close a kaiju's body must be to a wall to count as pushing against it
+const TRAMPLE_CONTACT = 0.25
+
+interface BuildingState {
+  id: string
+  definition: BuildingDefinition
+  position: [number, number, number]
+  yaw: number
+  health: number
+  stage: number
+  collapsed: boolean
+}
+
+interface RoomBuildings {
+  buildings: BuildingState[]
+  // The room's collision without any buildings
+  baseWorld: CollisionWorld
+  // Set whenever clients need a fresh buildings_update
+  dirty: boolean
+}
+
+// Destructible buildings per room, placed from the room's level. Pure state like the other
+// managers: the GameServer broadcasts what changed. Standing buildings are added to the
+// room's collision so players, kaiju and projectiles all run into them.
+export class BuildingManager {
+  private rooms = new Map<string, RoomBuildings>()
+
+  constructor(
+    private roomManager: RoomManager,
+    private definitions: ReadonlyMap<string, BuildingDefinition> = new Map(),
+    private levels: ReadonlyMap<string, LevelDefinition> = new Map()
+  ) {}
+
+  // Places the level's buildings the first time a room is seen
+  ensureRoom(room: Room) {
+    if (this.rooms.has(room.id)) return
+    this.roomManager.setRoomWorld(room.id, null)
+    const buildings: BuildingState[] = []
+    for (const [index, placement] of (this.levels.get(room.levelId)?.buildings ?? []).entries()) {
+      const definition = this.definitions.get(placement.building)
+      if (!definition) {
+        console.warn(`⚠️ Level ${room.levelId} places unknown building ${placement.building}, skipping`)
+        continue
+      }
+      buildings.push({
+        id: `b${index}`,
+        definition,
+        position: [...placement.position],
+        yaw: placement.yaw ?? 0,
+        health: definition.maxHealth,
+        stage: 0,
+        collapsed: false
+      })
+    }
+    const state: RoomBuildings = { buildings, baseWorld: this.roomManager.getRoomWorld(room.id), dirty: true }
+    this.rooms.set(room.id, state)
+    this.updateWorld(room.id, state)
+  }
+
+  // Rebuilds a room's buildings from its level on the next ensureRoom
+  resetRoom(roomId: string) {
+    this.rooms.delete(roomId)
+    this.roomManager.setRoomWorld(roomId, null)
+  }
+
+  // Drops buildings for rooms that have closed
+  retainRooms(roomIds: Iterable<string>) {
+    const keep = new Set(roomIds)
+    for (const roomId of this.rooms.keys()) {
+      if (!keep.has(roomId)) this.rooms.delete(roomId)
+    }
+  }
+
+  // Standing buildings as hurtboxes for melee: upright cylinders inside the footprint
+  hurtboxes(roomId: string): Hurtbox[] {
+    return this.standing(roomId).map(building => {
+      const [width, height, depth] = building.definition.size
+      return {
+        id: building.id,
+        owner: 'building',
+        position: building.position,
+        radius: Math.min(width, depth) / 2,
+        height
+      }
+    })
+  }
+
+  // First standing building the segment enters, for projectiles
+  sweep(roomId: string, from: [number, number, number], to: [number, number, number]): { id: string; t: number } | null {
+    let hit: { id: string; t: number } | null = null
+    for (const building of this.standing(roomId)) {
+      const t = sweepBox(from, to, buildingBox(building.position, building.yaw, building.definition.size))
+      if (t !== null && (!hit || t < hit.t)) hit = { id: building.id, t }
+    }
+    return hit
+  }
+
+  // Returns the events to broadcast; nothing for a building that is already down
+  damage(roomId: string, buildingId: string, amount: number, attackerId: string | null): CombatEvent[] {
+    const state = this.rooms.get(roomId)
+    const building = state?.buildings.find(b => b.id === buildingId)
+    if (!state || !building || building.collapsed) return []
+
+    building.health = Math.max(0, building.health - amount)
+    const events: CombatEvent[] = []
+    if (attackerId) {
+      events.push({
+        type: 'hit',
+        attackerId,
+        targetId: building.id,
+        target: 'building',
+        damage: amount,
+        health: building.health,
+        position: [...building.position]
+      })
+    }
+
+    if (building.health === 0) {
+      building.collapsed = true
+      state.dirty = true
+      this.updateWorld(roomId, state)
+      events.push({ type: 'building_collapsed', buildingId: building.id, attackerId })
+      return events
+    }
+    const stage = buildingStageFor(building.definition, building.health)
+    if (stage !== building.stage) {
+      building.stage = stage
+      state.dirty = true
+    }
+    return events
+  }
+
+  // Kaiju wear down whatever they are pushing against, so a chase eventually goes through
+  // the building in the way instead of around it
+  trample(roomId: string, kaiju: KaijuState[], deltaTime: number): CombatEvent[] {
+    const events: CombatEvent[] = []
+    for (const entity of kaiju) {
+      if (entity.behaviour === 'die') continue
+      const definition = getKaijuDefinition(entity.kind)!
+      const reach = definition.shape.radius + TRAMPLE_CONTACT
+      for (const building of this.standing(roomId)) {
+        const box = buildingBox(building.position, building.yaw, building.definition.size)
+        const dx = Math.max(box.min[0] - entity.position[0], 0, entity.position[0] - box.max[0])
+        const dz = Math.max(box.min[2] - entity.position[2], 0, entity.position[2] - box.max[2])
+        if (Math.hypot(dx, dz) > reach) continue
+        const amount = definition.attackDamage * TRAMPLE_ATTACKS_PER_SECOND * deltaTime
+        // Only the collapse is worth broadcasting; a hit every tick would flood the room
+        events.push(...this.damage(roomId, building.id, amount, null).map(event =>
+          event.type === 'building_collapsed' ? { ...event, attackerId: entity.id } : event))
+      }
+    }
+    return events
+  }
+
+  snapshot(roomId: string): BuildingSnapshot[] {
+    return (this.rooms.get(roomId)?.buildings ?? []).map(building => ({
+      id: building.id,
+      buildingId: building.definition.id,
+      position: [...building.position],
+      yaw: building.yaw,
+      size: [...building.definition.size],
+      health: building.health,
+      maxHealth: building.definition.maxHealth,
+      stage: building.stage,
+      collapsed: building.collapsed
+    }))
+  }
+
+  // The room's buildings if any changed since the last call, else null
+  takeUpdate(roomId: string): BuildingSnapshot[] | null {
+    const state = this.rooms.get(roomId)
+    if (!state?.dirty) return null
+    state.dirty = false
+    return this.snapshot(roomId)
+  }
+
+  private standing(roomId: string): BuildingState[] {
+    return (this.rooms.get(roomId)?.buildings ?? []).filter(building => !building.collapsed)
+  }
+
+  private updateWorld(roomId: string, state: RoomBuildings) {
+    const standing = state.buildings.filter(building => !building.collapsed)
+    this.roomManager.setRoomWorld(roomId, standing.length === 0 ? null : {
+      ...state.baseWorld,
+      boxes: [
+        ...state.baseWorld.boxes,
+        ...standing.map(building => buildingBox(building.position, building.yaw, building.definition.size))
+      ]
+    })
+  }
+}
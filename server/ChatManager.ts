@@ -0,0 +1,85 @@
+import type { Player } from '../src/types'
+import {
+  CHAT_BURST,
+  CHAT_REFILL_SECONDS,
+  DEFAULT_CHAT_FILTERS,
+  MAX_CHAT_LENGTH,
+  normalizeChatText,
+  type ChatChannel,
+  type ChatFilter,
+  type ChatMessage
+} from '../src/systems/Chat/chat'
+import { RoomError } from './RoomManager'
+
+interface RateLimit {
+  tokens: number
+  refilledAt: number
+}
+
+// Validates, rate-limits and filters chat, and keeps who blocked whom. Pure state like
+// the other managers; the GameServer decides who a message is delivered to.
+export class ChatManager {
+  private limits = new Map<string, RateLimit>()
+  // playerId -> the players they blocked
+  private blocks = new Map<string, Set<string>>()
+  private nextMessageId = 0
+
+  constructor(private filters: readonly ChatFilter[] = DEFAULT_CHAT_FILTERS) {}
+
+  // Returns the message to deliver, or throws RoomError if it can't be sent
+  send(sender: Player, channel: ChatChannel, text: string, now: number = Date.now()): ChatMessage {
+    if (channel === 'room' && !sender.room) {
+      throw new RoomError('chat_rejected', 'Join a room to use room chat')
+    }
+    let filtered: string | null = normalizeChatText(text)
+    if (!filtered) throw new RoomError('chat_rejected', 'Message is empty')
+    if (filtered.length > MAX_CHAT_LENGTH) {
+      throw new RoomError('chat_rejected', `Messages are limited to ${MAX_CHAT_LENGTH} characters`)
+    }
+
+    // Token bucket: CHAT_BURST messages at once, refilling one per CHAT_REFILL_SECONDS
+    const limit = this.limits.get(sender.id) ?? { tokens: CHAT_BURST, refilledAt: now }
+    limit.tokens = Math.min(CHAT_BURST, limit.tokens + (now - limit.refilledAt) / 1000 / CHAT_REFILL_SECONDS)
+    limit.refilledAt = now
+    this.limits.set(sender.id, limit)
+    if (limit.tokens < 1) {
+      throw new RoomError('chat_rate_limited', 'You are sending messages too quickly')
+    }
+    limit.tokens -= 1
+
+    for (const filter of this.filters) {
+      filtered = filter(filtered, sender.id)
+      if (filtered === null) throw new RoomError('chat_rejected', 'Message was blocked by the chat filter')
+    }
+
+    return {
+      id: `m${++this.nextMessageId}`,
+      channel,
+      senderId: sender.id,
+      senderName: sender.name,
+      text: filtered,
+      sentAt: now
+    }
+  }
+
+  setBlocked(playerId: string, targetId: string, blocked: boolean) {
+    if (playerId === targetId) return
+    const blocks = this.blocks.get(playerId) ?? new Set<string>()
+    if (blocked) {
+      blocks.add(targetId)
+    } else {
+      blocks.delete(targetId)
+    }
+    this.blocks.set(playerId, blocks)
+  }
+
+  hasBlocked(playerId: string, senderId: string): boolean {
+    return this.blocks.get(playerId)?.has(senderId) ?? false
+  }
+
+  // Blocks belong to the connection; a player rejoining re-sends theirs
+  removePlayer(playerId: string) {
+    this.limits.delete(playerId)
+    this.blocks.delete(playerId)
+  }
+}
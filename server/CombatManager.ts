@@ -0,0 +1,289 @@
+import type { Player } from '../src/types'
+import type { AttackRequest, CombatEvent, ProjectileSnapshot } from '../src/systems/Networking/protocol'
+import type { CollisionWorld } from '../src/systems/Physics/collisionWorld'
+import type { KaijuEvent } from '../src/systems/Kaiju/kaijuBrain'
+import { getKaijuDefinition } from '../src/systems/Kaiju/kaijuDefinitions'
+import { weakPointPosition } from '../src/systems/Kaiju/encounterFormat'
+import { DEFAULT_CHARACTER_SHAPE } from '../src/systems/Physics/characterPhysics'
+import { DEFAULT_LOADOUT, getWeaponDefinition, type ProjectileWeapon } from '../src/systems/Combat/weapons'
+import { RESPAWN_DELAY, applyDamage, isAlive } from '../src/systems/Combat/health'
+import {
+  ATTACK_ORIGIN_HEIGHT,
+  MAX_AIM_PITCH,
+  aimDirection,
+  meleeHits,
+  sweepHurtbox,
+  sweepWorld,
+  type Hurtbox
+} from '../src/systems/Combat/hitDetection'
+import { RoomError, type RoomManager } from './RoomManager'
+import type { KaijuManager } from './KaijuManager'
+import type { BuildingManager } from './BuildingManager'
+
+// Accept attacks slightly early so network jitter doesn't eat legitimate clicks
+const COOLDOWN_TOLERANCE = 0.9
+
+interface Projectile {
+  id: string
+  ownerId: string
+  weapon: ProjectileWeapon
+  position: [number, number, number]
+  velocity: [number, number, number]
+  travelled: number
+}
+
+// One hurtbox per kaiju: the weak point with the biggest multiplier it was hit in, else its body
+function preferWeakPoints(hits: Hurtbox[]): Hurtbox[] {
+  const best = new Map<string, Hurtbox>()
+  for (const box of hits) {
+    const current = best.get(box.id)
+    if (!current || (box.weakPoint?.damageMultiplier ?? 1) > (current.weakPoint?.damageMultiplier ?? 1)) {
+      best.set(box.id, box)
+    }
+  }
+  return [...best.values()]
+}
+
+// Server-side hit resolution. Clients only say which weapon they used and where they
+// aimed; position, cooldown, range and damage all come from the server's own state.
+export class CombatManager {
+  // playerId -> server time (ms) of their last accepted attack
+  private lastAttack = new Map<string, number>()
+  private projectiles = new Map<string, Projectile[]>()
+  // playerId -> server time (ms) they come back
+  private respawns = new Map<string, number>()
+  private nextProjectileId = 0
+
+  constructor(private rooms: RoomManager, private kaiju: KaijuManager, private buildings: BuildingManager) {}
+
+  // Returns the events to broadcast to the attacker's room. Attacks on cooldown, from the
+  // dead or from outside a room are dropped silently.
+  attack(playerId: string, { weaponId, yaw, pitch = 0 }: AttackRequest, now: number = Date.now()): CombatEvent[] {
+    const weapon = getWeaponDefinition(weaponId)
+    if (!weapon || !DEFAULT_LOADOUT.includes(weaponId)) {
+      throw new RoomError('invalid_weapon', `Unknown weapon ${String(weaponId)}`)
+    }
+    if (!Number.isFinite(yaw) || !Number.isFinite(pitch)) {
+      throw new RoomError('invalid_message', 'Aim must be finite')
+    }
+
+    const player = this.rooms.getPlayer(playerId)
+    if (!player?.room || !isAlive(player.health)) return []
+    const last = this.lastAttack.get(playerId)
+    if (last !== undefined && now - last < weapon.cooldown * 1000 * COOLDOWN_TOLERANCE) return []
+    this.lastAttack.set(playerId, now)
+
+    const roomId = player.room
+    if (weapon.type === 'melee') {
+      const targets = this.hurtboxes(roomId).filter(box => box.id !== playerId)
+      return preferWeakPoints(meleeHits(player.position, yaw, weapon, targets))
+        .flatMap(box => this.damage(roomId, box, weapon.damage, playerId))
+    }
+
+    const direction = aimDirection(yaw, Math.max(-MAX_AIM_PITCH, Math.min(MAX_AIM_PITCH, pitch)))
+    const projectiles = this.projectiles.get(roomId) ?? []
+    projectiles.push({
+      id: `p${++this.nextProjectileId}`,
+      ownerId: playerId,
+      weapon,
+      position: [player.position[0], player.position[1] + ATTACK_ORIGIN_HEIGHT, player.position[2]],
+      velocity: [direction[0] * weapon.speed, direction[1] * weapon.speed, direction[2] * weapon.speed],
+      travelled: 0
+    })
+    this.projectiles.set(roomId, projectiles)
+    return []
+  }
+
+  // Moves a room's projectiles one tick, resolving whatever they hit first
+  step(roomId: string, world: CollisionWorld, deltaTime: number): CombatEvent[] {
+    const projectiles = this.projectiles.get(roomId)
+    if (!projectiles?.length) return []
+
+    const events: CombatEvent[] = []
+    // Buildings are boxes in the room's collision, so shots test them as boxes too
+    const targets = this.hurtboxes(roomId).filter(box => box.owner !== 'building')
+    const remaining: Projectile[] = []
+
+    for (const projectile of projectiles) {
+      const from = projectile.position
+      const to: [number, number, number] = [
+        from[0] + projectile.velocity[0] * deltaTime,
+        from[1] + projectile.velocity[1] * deltaTime,
+        from[2] + projectile.velocity[2] * deltaTime
+      ]
+
+      let nearest: Hurtbox | null = null
+      let nearestT = sweepWorld(world, from, to) ?? Infinity
+      const swept: Hurtbox[] = []
+      for (const box of targets) {
+        if (box.id === projectile.ownerId) continue
+        const t = sweepHurtbox(from, to, projectile.weapon.radius, box)
+        if (t === null) continue
+        swept.push(box)
+        if (t < nearestT) {
+          nearest = box
+          nearestT = t
+        }
+      }
+      // Weak points sit inside the body, so a shot through the body that also crosses one counts for it
+      if (nearest) nearest = preferWeakPoints(swept.filter(box => box.id === nearest!.id))[0] ?? nearest
+
+      if (nearest) {
+        events.push(...this.damage(roomId, nearest, projectile.weapon.damage, projectile.ownerId))
+        continue
+      }
+      const building = nearestT !== Infinity ? this.buildings.sweep(roomId, from, to) : null
+      if (building && building.t <= nearestT) {
+        events.push(...this.buildings.damage(roomId, building.id, projectile.weapon.damage, projectile.ownerId))
+        continue
+      }
+      projectile.travelled += projectile.weapon.speed * deltaTime
+      if (nearestT !== Infinity || projectile.travelled >= projectile.weapon.range) continue
+      projectile.position = to
+      remaining.push(projectile)
+    }
+
+    this.projectiles.set(roomId, remaining)
+    return events
+  }
+
+  // Kaiju attacks land on players through the same damage path as player attacks
+  applyKaijuEvents(roomId: string, kaijuEvents: KaijuEvent[]): CombatEvent[] {
+    const events: CombatEvent[] = []
+    for (const event of kaijuEvents) {
+      if (event.type !== 'attack_hit') continue
+      const player = this.rooms.getPlayer(event.targetId)
+      if (!player || player.room !== roomId) continue
+      events.push(...this.damage(roomId, this.playerHurtbox(player), event.damage, event.kaijuId))
+    }
+    return events
+  }
+
+  // Respawns everyone whose timer is up; events are grouped by the room they respawned in
+  respawnDue(now: number = Date.now()): Map<string | null, CombatEvent[]> {
+    const events = new Map<string | null, CombatEvent[]>()
+    for (const [playerId, respawnAt] of this.respawns) {
+      if (respawnAt > now) continue
+      this.respawns.delete(playerId)
+      const existing = this.rooms.getPlayer(playerId)
+      // Left the room (which heals) or disconnected while dead
+      if (!existing || isAlive(existing.health)) continue
+
+      const player = this.rooms.respawnPlayer(playerId)
+      const roomId = player.room ?? null
+      events.set(roomId, [
+        ...(events.get(roomId) ?? []),
+        { type: 'player_respawned', playerId, position: [...player.position] }
+      ])
+    }
+    return events
+  }
+
+  snapshot(roomId: string): ProjectileSnapshot[] {
+    return (this.projectiles.get(roomId) ?? []).map(({ id, weapon, ownerId, position, velocity }) => ({
+      id,
+      weaponId: weapon.id,
+      ownerId,
+      position: [...position],
+      velocity: [...velocity]
+    }))
+  }
+
+  removePlayer(playerId: string) {
+    this.lastAttack.delete(playerId)
+    this.respawns.delete(playerId)
+  }
+
+  // Drops projectiles for rooms that have closed
+  retainRooms(roomIds: Iterable<string>) {
+    const keep = new Set(roomIds)
+    for (const roomId of this.projectiles.keys()) {
+      if (!keep.has(roomId)) this.projectiles.delete(roomId)
+    }
+  }
+
+  // Living players and kaiju, and standing buildings, in the room
+  private hurtboxes(roomId: string): Hurtbox[] {
+    const players = (this.rooms.getRoom(roomId)?.players ?? [])
+      .filter(player => isAlive(player.health))
+      .map(player => this.playerHurtbox(player))
+    const kaiju = this.kaiju.getKaiju(roomId)
+      .filter(entity => entity.behaviour !== 'die')
+      .flatMap((entity): Hurtbox[] => {
+        const { shape } = getKaijuDefinition(entity.kind)!
+        const body: Hurtbox = { id: entity.id, owner: 'kaiju', position: entity.position, radius: shape.radius, height: shape.height }
+        const weakPoints = (this.kaiju.getEncounter(entity)?.weakPoints ?? []).map((point): Hurtbox => {
+          const [x, y, z] = weakPointPosition(point, entity.position, entity.yaw)
+          return {
+            id: entity.id,
+            owner: 'kaiju',
+            // Spheres, approximated by a cylinder as tall as it is wide
+            position: [x, y - point.radius, z],
+            radius: point.radius,
+            height: point.radius * 2,
+            weakPoint: { id: point.id, damageMultiplier: point.damageMultiplier }
+          }
+        })
+        return [body, ...weakPoints]
+      })
+    return [...players, ...kaiju, ...this.buildings.hurtboxes(roomId)]
+  }
+
+  private playerHurtbox(player: Player): Hurtbox {
+    return {
+      id: player.id,
+      owner: 'player',
+      position: player.position,
+      radius: DEFAULT_CHARACTER_SHAPE.radius,
+      height: DEFAULT_CHARACTER_SHAPE.height
+    }
+  }
+
+  private damage(roomId: string, target: Hurtbox, amount: number, attackerId: string): CombatEvent[] {
+    if (target.owner === 'building') {
+      return this.buildings.damage(roomId, target.id, amount, attackerId)
+    }
+    if (target.owner === 'kaiju') {
+      const dealt = amount * (target.weakPoint?.damageMultiplier ?? 1)
+      const kaijuEvents = this.kaiju.damage(roomId, target.id, dealt)
+      const entity = this.kaiju.getKaiju(roomId).find(k => k.id === target.id)
+      const hit: CombatEvent = {
+        type: 'hit',
+        attackerId,
+        targetId: target.id,
+        target: 'kaiju',
+        damage: dealt,
+        health: entity?.health ?? 0,
+        position: [...target.position]
+      }
+      if (target.weakPoint) hit.weakPoint = target.weakPoint.id
+      const events: CombatEvent[] = [hit]
+      for (const event of kaijuEvents) {
+        if (event.type === 'died') {
+          events.push({ type: 'kaiju_died', kaijuId: target.id, killerId: attackerId })
+        } else if (event.type === 'phase_changed') {
+          events.push({ type: 'kaiju_phase', kaijuId: target.id, phase: event.phase })
+        }
+      }
+      return events
+    }
+
+    const player = this.rooms.getPlayer(target.id)
+    if (!player?.health || !isAlive(player.health)) return []
+    const killed = applyDamage(player.health, amount)
+    const events: CombatEvent[] = [{
+      type: 'hit',
+      attackerId,
+      targetId: player.id,
+      target: 'player',
+      damage: amount,
+      health: player.health.current,
+      position: [...player.position]
+    }]
+    if (killed) {
+      this.respawns.set(player.id, Date.now() + RESPAWN_DELAY * 1000)
+      events.push({ type: 'player_died', playerId: player.id, killerId: attackerId })
+    }
+    return events
+  }
+}
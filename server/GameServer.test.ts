@@ -0,0 +1,104 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer, type Server as HttpServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { Player } from '../src/types'
+import { NetworkManager, type NetworkEvent, type NetworkEventMap } from '../src/systems/Networking/NetworkManager'
+import { GameServer } from './GameServer'
+
+// The real client against an in-process server on an ephemeral port: connecting, the
+// session handshake, lobby presence and resuming a dropped connection.
+
+const TIMEOUT_MS = 5000
+
+function nextEvent<K extends NetworkEvent>(
+  manager: NetworkManager,
+  event: K,
+  matches: (data: NetworkEventMap[K]) => boolean = () => true
+): Promise<NetworkEventMap[K]> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      off()
+      reject(new Error(`Timed out waiting for ${event}`))
+    }, TIMEOUT_MS)
+    const off = manager.on(event, (data) => {
+      if (!matches(data)) return
+      clearTimeout(timer)
+      off()
+      resolve(data)
+    })
+  })
+}
+
+const testPlayer = (name: string): Player => ({
+  id: 'client-chosen-id',
+  name,
+  avatar: { id: 'dr', name: 'Dr', model: null },
+  position: [0, 0, 0],
+  rotation: [0, 0, 0]
+})
+
+describe('GameServer with NetworkManager', () => {
+  let httpServer: HttpServer
+  let server: GameServer
+  let url: string
+  const clients: NetworkManager[] = []
+
+  // Adopts the server's identity on every session, as useNetworking does
+  async function joinedClient(name: string) {
+    const client = new NetworkManager({ url, reconnectionDelay: 50, reconnectionDelayMax: 100 })
+    clients.push(client)
+    client.on('session', identity => client.setIdentity(identity))
+    assert.equal(await client.connect(), true)
+    const session = nextEvent(client, 'session')
+    const lobby = nextEvent(client, 'lobby_update')
+    client.joinLobby(testPlayer(name))
+    return { client, session: await session, lobby: await lobby }
+  }
+
+  before(async () => {
+    httpServer = createServer()
+    server = new GameServer({ sessionSecret: 'test-secret', reconnectGraceMs: 2000 })
+    server.attach(httpServer)
+    await new Promise<void>(resolve => httpServer.listen(0, resolve))
+    url = `http://localhost:${(httpServer.address() as AddressInfo).port}`
+  })
+
+  after(async () => {
+    clients.forEach(client => client.disconnect())
+    await server.close()
+  })
+
+  it('issues a session and lists the player in the lobby', async () => {
+    const { session, lobby } = await joinedClient('Alice')
+    assert.notEqual(session.playerId, 'client-chosen-id')
+    assert.ok(session.identityToken)
+    assert.equal(session.roomId, null)
+    assert.deepEqual(lobby.map(player => player.id), [session.playerId])
+    assert.equal(lobby[0].name, 'Alice')
+  })
+
+  it('announces new players to everyone in the lobby', async () => {
+    const watcher = clients[0]
+    const joined = nextEvent(watcher, 'player_joined', player => player.name === 'Bob')
+    const { session, lobby } = await joinedClient('Bob')
+    assert.equal((await joined).id, session.playerId)
+    assert.deepEqual(lobby.map(player => player.name).sort(), ['Alice', 'Bob'])
+  })
+
+  it('gives a dropped connection its session back when it reconnects', async () => {
+    const { client, session } = await joinedClient('Carol')
+    const disconnected = nextEvent(client, 'connected', connected => !connected)
+    const resumed = nextEvent(client, 'session')
+    // A transport failure rather than a kick, so the client retries on its own
+    const socket = [...server.io.sockets.sockets.values()].find(s => s.id === client.getSocketId())
+    assert.ok(socket)
+    socket.conn.close()
+
+    await disconnected
+    const again = await resumed
+    assert.equal(again.playerId, session.playerId)
+    assert.equal(client.getConnectionStatus(), true)
+    assert.equal(server.rooms.getLobby().filter(player => player.name === 'Carol').length, 1)
+  })
+})
@@ -0,0 +1,547 @@
+import type { Server as HttpServer } from 'node:http'
+import { Server, type Socket } from 'socket.io'
+import type { Player, Room } from '../src/types'
+import {
+  DEFAULT_TICK_RATE,
+  MESSAGE_EVENT,
+  createMessage,
+  toWirePlayer,
+  type ClientMessage,
+  type CombatEvent,
+  type ClientToServerEvents,
+  type ServerMessage,
+  type ServerMessageMap,
+  type ServerToClientEvents,
+  type StateSnapshot
+} from '../src/systems/Networking/protocol'
+import type { LevelDefinition } from '../src/systems/Level/levelFormat'
+import type { EncounterDefinition } from '../src/systems/Kaiju/encounterFormat'
+import type { BuildingDefinition } from '../src/systems/Buildings/buildingFormat'
+import { isChatChannel, type ChatFilter, type ChatMessage } from '../src/systems/Chat/chat'
+import { normalizeDisplayName, validateDisplayName, type PlayerIdentity } from '../src/systems/Profile/profile'
+import { RoomError, RoomManager } from './RoomManager'
+import { KaijuManager } from './KaijuManager'
+import { CombatManager } from './CombatManager'
+import { MatchManager } from './MatchManager'
+import { BuildingManager } from './BuildingManager'
+import { ChatManager } from './ChatManager'
+import { SessionManager } from './SessionManager'
+import { isAlive } from '../src/systems/Combat/health'
+
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents>
+
+export interface GameServerOptions {
+  tickRate?: number
+  corsOrigin?: string | string[]
+  // Level definitions by id; rooms fall back to open ground without them
+  levels?: ReadonlyMap<string, LevelDefinition>
+  // Boss encounter definitions by id; boss spawns are skipped without them
+  encounters?: ReadonlyMap<string, EncounterDefinition>
+  // Destructible building definitions by id; levels' building placements need them
+  buildings?: ReadonlyMap<string, BuildingDefinition>
+  // Moderation: every chat message runs through these in order (defaults to a word filter)
+  chatFilters?: readonly ChatFilter[]
+  // Signs session tokens; without one they only last as long as the process
+  sessionSecret?: string
+  // How long a disconnected player stays in the lobby and their room, ms; 0 removes at once
+  reconnectGraceMs?: number
+}
+
+export const DEFAULT_RECONNECT_GRACE_MS = 30_000
+
+// Presence goes to everyone online; lobby-space transforms only to players outside a room
+const LOBBY_CHANNEL = 'lobby'
+const LOBBY_SPACE_CHANNEL = 'lobby-space'
+const roomChannel = (roomId: string) => `room:${roomId}`
+
+const isVector3 = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && Number.isFinite(n))
+
+function requireDisplayName(value: unknown): string {
+  if (typeof value !== 'string') throw new RoomError('invalid_name', 'A display name is required')
+  const name = normalizeDisplayName(value)
+  const problem = validateDisplayName(name)
+  if (problem) throw new RoomError('invalid_name', problem)
+  return name
+}
+
+export class GameServer {
+  readonly io: Server<ClientToServerEvents, ServerToClientEvents>
+  readonly rooms: RoomManager
+  readonly kaiju: KaijuManager
+  readonly combat: CombatManager
+  readonly matches: MatchManager
+  readonly buildings: BuildingManager
+  readonly chat: ChatManager
+  readonly sessions: SessionManager
+  private tickRate: number
+  private reconnectGraceMs: number
+  private tick = 0
+  private tickTimer: NodeJS.Timeout | null = null
+  // socket.id -> player id, set once the socket joins the lobby
+  private socketPlayers = new Map<string, string>()
+  // player id -> removal scheduled when their socket dropped, cancelled if they come back
+  private pendingRemovals = new Map<string, NodeJS.Timeout>()
+
+  constructor({
+    tickRate = DEFAULT_TICK_RATE,
+    corsOrigin = '*',
+    levels,
+    encounters,
+    buildings,
+    chatFilters,
+    sessionSecret,
+    reconnectGraceMs = DEFAULT_RECONNECT_GRACE_MS
+  }: GameServerOptions = {}) {
+    this.tickRate = tickRate
+    this.reconnectGraceMs = reconnectGraceMs
+    this.rooms = new RoomManager(levels)
+    this.kaiju = new KaijuManager(encounters)
+    this.buildings = new BuildingManager(this.rooms, buildings, levels)
+    this.combat = new CombatManager(this.rooms, this.kaiju, this.buildings)
+    this.matches = new MatchManager(this.kaiju, this.buildings, levels)
+    this.chat = new ChatManager(chatFilters)
+    this.sessions = new SessionManager(sessionSecret)
+    this.io = new Server<ClientToServerEvents, ServerToClientEvents>({
+      cors: { origin: corsOrigin }
+    })
+    this.io.on('connection', socket => this.handleConnection(socket))
+  }
+
+  attach(httpServer: HttpServer) {
+    this.io.attach(httpServer)
+    this.startTicking()
+  }
+
+  listen(port: number) {
+    this.io.listen(port)
+    this.startTicking()
+  }
+
+  async close() {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer)
+      this.tickTimer = null
+    }
+    for (const timer of this.pendingRemovals.values()) clearTimeout(timer)
+    this.pendingRemovals.clear()
+    await this.io.close()
+  }
+
+  private startTicking() {
+    if (this.tickTimer) return
+    this.tickTimer = setInterval(() => {
+      this.stepWorld()
+      this.broadcastSnapshots()
+    }, 1000 / this.tickRate)
+  }
+
+  private handleConnection(socket: GameSocket) {
+    console.log('🛰️ Client connected:', socket.id)
+
+    socket.on(MESSAGE_EVENT, (message: ClientMessage) => {
+      try {
+        this.handleMessage(socket, message)
+      } catch (error) {
+        if (error instanceof RoomError) {
+          this.sendTo(socket, 'error', { code: error.code, message: error.message })
+        } else {
+          console.error('🛰️ Failed to handle message:', message?.type, error)
+          this.sendTo(socket, 'error', { code: 'invalid_message', message: 'Malformed message' })
+        }
+      }
+    })
+
+    socket.on('disconnect', (reason) => {
+      console.log('🛰️ Client disconnected:', socket.id, reason)
+      this.handleDisconnect(socket)
+    })
+  }
+
+  private handleMessage(socket: GameSocket, message: ClientMessage) {
+    if (!message || typeof message.type !== 'string' || typeof message.data !== 'object' || message.data === null) {
+      throw new RoomError('invalid_message', 'Malformed message')
+    }
+
+    if (message.type === 'join_lobby') {
+      this.handleJoinLobby(socket, message.data.player, message.data.identityToken)
+      return
+    }
+
+    const playerId = this.socketPlayers.get(socket.id)
+    if (!playerId) {
+      throw new RoomError('not_in_lobby', 'Join the lobby first')
+    }
+
+    switch (message.type) {
+      case 'create_room': {
+        const { name, isPrivate, maxPlayers, levelId, modeId } = message.data
+        if (typeof name !== 'string') throw new RoomError('invalid_message', 'Room name is required')
+        const watched = this.rooms.getSpectatedRoom(playerId)
+        const room = this.rooms.createRoom(playerId, {
+          name,
+          isPrivate: Boolean(isPrivate),
+          maxPlayers: typeof maxPlayers === 'number' ? maxPlayers : undefined,
+          levelId: typeof levelId === 'string' ? levelId : undefined,
+          modeId: typeof modeId === 'string' ? modeId : undefined
+        })
+        if (watched) socket.leave(roomChannel(watched.id))
+        this.enterRoomChannel(socket, room)
+        this.sendTo(socket, 'room_created', this.serializeRoom(room))
+        this.sendTo(socket, 'buildings_update', this.buildings.snapshot(room.id))
+        break
+      }
+      case 'join_room': {
+        // A spectator taking a slot (in the room they watch or another) stops watching
+        const watched = this.rooms.getSpectatedRoom(playerId)
+        const room = 'inviteCode' in message.data
+          ? this.rooms.joinRoomByInvite(playerId, String(message.data.inviteCode))
+          : this.rooms.joinRoom(playerId, String(message.data.roomId))
+        if (watched && watched.id !== room.id) socket.leave(roomChannel(watched.id))
+        this.enterRoomChannel(socket, room)
+        this.sendTo(socket, 'room_joined', this.serializeRoom(room))
+        this.sendTo(socket, 'buildings_update', this.buildings.snapshot(room.id))
+        this.broadcastRoomUpdate(room)
+        break
+      }
+      case 'leave_room': {
+        this.handleLeaveRoom(socket, playerId)
+        break
+      }
+      case 'spectate_room': {
+        const watched = this.rooms.getSpectatedRoom(playerId)
+        const room = 'inviteCode' in message.data
+          ? this.rooms.spectateRoomByInvite(playerId, String(message.data.inviteCode))
+          : this.rooms.spectateRoom(playerId, String(message.data.roomId))
+        if (watched && watched.id !== room.id) socket.leave(roomChannel(watched.id))
+        this.enterSpectatorChannel(socket, room)
+        break
+      }
+      case 'stop_spectating': {
+        const roomId = this.rooms.stopSpectating(playerId)
+        if (roomId) this.leaveSpectatorChannel(socket, roomId)
+        break
+      }
+      case 'list_rooms': {
+        this.sendTo(socket, 'room_list', this.publicRoomList())
+        break
+      }
+      case 'attack': {
+        const { weaponId, yaw, pitch } = message.data
+        const events = this.combat.attack(playerId, {
+          weaponId: String(weaponId),
+          yaw: Number(yaw),
+          pitch: pitch === undefined ? undefined : Number(pitch)
+        })
+        const roomId = this.rooms.getPlayer(playerId)?.room
+        if (roomId) this.broadcastCombatEvents(roomId, events)
+        break
+      }
+      case 'chat_send': {
+        const { channel, text } = message.data
+        if (!isChatChannel(channel) || typeof text !== 'string') {
+          throw new RoomError('invalid_message', 'Chat needs a channel and text')
+        }
+        const sender = this.rooms.getPlayer(playerId)!
+        this.deliverChat(this.chat.send(sender, channel, text), sender.room)
+        break
+      }
+      case 'chat_block': {
+        const { playerId: targetId, blocked } = message.data
+        if (typeof targetId !== 'string') throw new RoomError('invalid_message', 'Player id is required')
+        this.chat.setBlocked(playerId, targetId, blocked === true)
+        break
+      }
+      case 'update_profile': {
+        const player = this.rooms.renamePlayer(playerId, requireDisplayName(message.data.name))
+        this.broadcastPresence(playerId)
+        const room = player.room ? this.rooms.getRoom(player.room) : undefined
+        if (room) {
+          this.broadcastRoomUpdate(room)
+          this.broadcastRoomList()
+        }
+        break
+      }
+      case 'player_input': {
+        const { inputs } = message.data
+        if (!Array.isArray(inputs)) {
+          throw new RoomError('invalid_message', 'Inputs must be an array')
+        }
+        this.rooms.applyInputs(playerId, inputs.filter(input => input && typeof input === 'object'))
+        break
+      }
+      default:
+        throw new RoomError('invalid_message', `Unknown message type: ${(message as ClientMessage).type}`)
+    }
+  }
+
+  private handleJoinLobby(socket: GameSocket, player: Player, identityToken: unknown) {
+    if (this.socketPlayers.has(socket.id)) return
+    if (!player || typeof player.id !== 'string' || !player.avatar) {
+      throw new RoomError('invalid_message', 'Player payload is incomplete')
+    }
+    const name = requireDisplayName(player.name)
+
+    // The client's own id is ignored: ids only come from session tokens
+    const identity = this.sessions.resolve(identityToken)
+    this.replaceSession(identity.playerId)
+    if (this.rooms.getPlayer(identity.playerId)) {
+      this.resumePlayer(socket, identity)
+      return
+    }
+
+    const tracked = this.rooms.addPlayer({
+      ...toWirePlayer(player),
+      id: identity.playerId,
+      name,
+      position: isVector3(player.position) ? player.position : [0, 0, 0],
+      rotation: isVector3(player.rotation) ? player.rotation : [0, 0, 0]
+    })
+    this.socketPlayers.set(socket.id, tracked.id)
+    socket.join([LOBBY_CHANNEL, LOBBY_SPACE_CHANNEL])
+    this.sendTo(socket, 'session', { ...identity, roomId: null, spectatingRoomId: null })
+
+    console.log('🛰️ Player joined lobby:', tracked.name, `(${this.rooms.getLobby().length} online)`)
+    this.sendTo(socket, 'lobby_update', this.rooms.getLobby().map(toWirePlayer))
+    this.sendTo(socket, 'room_list', this.publicRoomList())
+    socket.to(LOBBY_CHANNEL).emit(MESSAGE_EVENT, this.message('player_joined', toWirePlayer(tracked)))
+  }
+
+  private handleLeaveRoom(socket: GameSocket, playerId: string) {
+    const room = this.rooms.leaveRoom(playerId)
+    if (!room) return
+    socket.leave(roomChannel(room.id))
+    socket.join(LOBBY_SPACE_CHANNEL)
+    this.sendTo(socket, 'room_left', { roomId: room.id })
+    this.broadcastRoomUpdate(room)
+    this.broadcastPresence(playerId)
+    this.broadcastRoomList()
+    this.releaseSpectators(room)
+  }
+
+  // Back into the lobby, and their room if they were still in one, where they left off
+  private resumePlayer(socket: GameSocket, identity: PlayerIdentity) {
+    const player = this.rooms.getPlayer(identity.playerId)!
+    clearTimeout(this.pendingRemovals.get(player.id))
+    this.pendingRemovals.delete(player.id)
+    this.rooms.resetInputs(player.id)
+    this.socketPlayers.set(socket.id, player.id)
+    socket.join(LOBBY_CHANNEL)
+
+    const room = player.room ? this.rooms.getRoom(player.room) : undefined
+    const watched = this.rooms.getSpectatedRoom(player.id)
+    this.sendTo(socket, 'session', { ...identity, roomId: room?.id ?? null, spectatingRoomId: watched?.id ?? null })
+    console.log('🛰️ Player reconnected:', player.name, room ? `(back in ${room.name})` : '')
+    this.sendTo(socket, 'lobby_update', this.rooms.getLobby().map(toWirePlayer))
+    this.sendTo(socket, 'room_list', this.publicRoomList())
+    if (room) {
+      this.sendTo(socket, 'room_joined', this.serializeRoom(room))
+      this.enterRoomChannel(socket, room)
+      this.sendTo(socket, 'buildings_update', this.buildings.snapshot(room.id))
+    } else if (watched) {
+      this.enterSpectatorChannel(socket, watched)
+    } else {
+      socket.join(LOBBY_SPACE_CHANNEL)
+    }
+  }
+
+  // One connection per player: a newer one (another tab, or a reconnect the server
+  // hasn't noticed the old socket drop for) takes over
+  private replaceSession(playerId: string) {
+    for (const [socketId, existingId] of this.socketPlayers) {
+      if (existingId !== playerId) continue
+      this.socketPlayers.delete(socketId)
+      const previous = this.io.sockets.sockets.get(socketId)
+      if (previous) {
+        this.sendTo(previous, 'error', { code: 'session_replaced', message: 'Signed in from somewhere else' })
+        previous.disconnect(true)
+      }
+    }
+  }
+
+  // The player is held (in their room, where they stood) for the grace period so a
+  // reload or dropped connection can pick up where it left off
+  private handleDisconnect(socket: GameSocket) {
+    const playerId = this.socketPlayers.get(socket.id)
+    if (!playerId) return
+    this.socketPlayers.delete(socket.id)
+
+    if (this.reconnectGraceMs <= 0) {
+      this.removePlayer(playerId)
+      return
+    }
+    this.pendingRemovals.set(playerId, setTimeout(() => {
+      this.pendingRemovals.delete(playerId)
+      this.removePlayer(playerId)
+    }, this.reconnectGraceMs))
+  }
+
+  private removePlayer(playerId: string) {
+    this.combat.removePlayer(playerId)
+    this.chat.removePlayer(playerId)
+    const room = this.rooms.removePlayer(playerId)
+    this.io.to(LOBBY_CHANNEL).emit(MESSAGE_EVENT, this.message('player_left', playerId))
+    if (room) {
+      this.broadcastRoomUpdate(room)
+      this.broadcastRoomList()
+      this.releaseSpectators(room)
+    }
+  }
+
+  // Spectators get everything sent to the room but are not in it: no slot, no snapshot
+  // entry and no presence change. Their own avatar waits in the lobby space.
+  private enterSpectatorChannel(socket: GameSocket, room: Room) {
+    socket.leave(LOBBY_SPACE_CHANNEL)
+    socket.join(roomChannel(room.id))
+    this.matches.ensureRoom(room)
+    this.buildings.ensureRoom(room)
+    this.sendTo(socket, 'spectate_started', this.serializeRoom(room))
+    const match = this.matches.getState(room.id)
+    if (match) this.sendTo(socket, 'match_update', match)
+    this.sendTo(socket, 'buildings_update', this.buildings.snapshot(room.id))
+  }
+
+  private leaveSpectatorChannel(socket: GameSocket, roomId: string) {
+    socket.leave(roomChannel(roomId))
+    socket.join(LOBBY_SPACE_CHANNEL)
+    this.sendTo(socket, 'spectate_stopped', { roomId })
+  }
+
+  // A room closing with its last player sends its spectators back to the lobby space
+  private releaseSpectators(room: Room) {
+    if (this.rooms.getRoom(room.id)) return
+    for (const playerId of this.rooms.dropSpectators(room.id)) {
+      const socketId = [...this.socketPlayers].find(([, id]) => id === playerId)?.[0]
+      const socket = socketId ? this.io.sockets.sockets.get(socketId) : undefined
+      if (socket) this.leaveSpectatorChannel(socket, room.id)
+    }
+  }
+
+  private enterRoomChannel(socket: GameSocket, room: Room) {
+    socket.leave(LOBBY_SPACE_CHANNEL)
+    socket.join(roomChannel(room.id))
+    this.matches.ensureRoom(room)
+    this.buildings.ensureRoom(room)
+    const match = this.matches.getState(room.id)
+    if (match) this.sendTo(socket, 'match_update', match)
+    const playerId = this.socketPlayers.get(socket.id)
+    if (playerId) this.broadcastPresence(playerId)
+    this.broadcastRoomList()
+  }
+
+  // player_joined doubles as a presence upsert so lobby lists show room membership
+  private broadcastPresence(playerId: string) {
+    const player = this.rooms.getPlayer(playerId)
+    if (!player) return
+    this.io.to(LOBBY_CHANNEL).emit(MESSAGE_EVENT, this.message('player_joined', toWirePlayer(player)))
+  }
+
+  // Capacity changes on every join/leave, so the whole public list is re-sent
+  private broadcastRoomList() {
+    this.io.to(LOBBY_CHANNEL).emit(MESSAGE_EVENT, this.message('room_list', this.publicRoomList()))
+  }
+
+  private publicRoomList(): Room[] {
+    return this.rooms.getPublicRooms().map(room => this.serializeRoom(room))
+  }
+
+  private broadcastRoomUpdate(room: Room) {
+    if (room.players.length === 0) return
+    this.io.to(roomChannel(room.id)).emit(MESSAGE_EVENT, this.message('room_update', this.serializeRoom(room)))
+  }
+
+  // Each room's match decides what spawns; kaiju, projectiles and buildings vanish with the room.
+  // Kaiju attacks and in-flight projectiles resolve here; player attacks as they arrive.
+  private stepWorld() {
+    const deltaTime = 1 / this.tickRate
+    const rooms = this.rooms.getRooms()
+    const roomIds = rooms.map(room => room.id)
+    this.kaiju.retainRooms(roomIds)
+    this.combat.retainRooms(roomIds)
+    this.matches.retainRooms(roomIds)
+    this.buildings.retainRooms(roomIds)
+
+    for (const room of rooms) {
+      this.matches.ensureRoom(room)
+      this.buildings.ensureRoom(room)
+      const world = this.rooms.getRoomWorld(room.id)
+      const targets = room.players
+        .filter(player => isAlive(player.health))
+        .map(({ id, position }) => ({ id, position }))
+      const kaijuEvents = this.kaiju.step(room.id, targets, world, deltaTime)
+      this.broadcastCombatEvents(room.id, [
+        ...this.combat.applyKaijuEvents(room.id, kaijuEvents),
+        ...this.combat.step(room.id, world, deltaTime),
+        ...this.buildings.trample(room.id, this.kaiju.getKaiju(room.id), deltaTime)
+      ])
+      const match = this.matches.step(room, deltaTime)
+      if (match) this.io.to(roomChannel(room.id)).emit(MESSAGE_EVENT, this.message('match_update', match))
+      const buildings = this.buildings.takeUpdate(room.id)
+      if (buildings) this.io.to(roomChannel(room.id)).emit(MESSAGE_EVENT, this.message('buildings_update', buildings))
+    }
+
+    for (const [roomId, events] of this.combat.respawnDue()) {
+      if (roomId) this.broadcastCombatEvents(roomId, events)
+    }
+  }
+
+  // To the whole lobby or the sender's room, skipping anyone who blocked the sender
+  private deliverChat(message: ChatMessage, roomId: string | undefined) {
+    const blockers = [...this.socketPlayers]
+      .filter(([, recipientId]) => this.chat.hasBlocked(recipientId, message.senderId))
+      .map(([socketId]) => socketId)
+    const channel = message.channel === 'room' && roomId ? roomChannel(roomId) : LOBBY_CHANNEL
+    this.io.to(channel).except(blockers).emit(MESSAGE_EVENT, this.message('chat_message', message))
+  }
+
+  private broadcastCombatEvents(roomId: string, events: CombatEvent[]) {
+    if (events.length === 0) return
+    this.matches.recordCombatEvents(roomId, events, id => this.rooms.getPlayer(id))
+    this.io.to(roomChannel(roomId)).emit(MESSAGE_EVENT, this.message('combat_events', events))
+  }
+
+  // Fixed-rate transform broadcast to every populated space. Sent even when nobody
+  // moved so clients always have a fresh pair of snapshots to interpolate between.
+  private broadcastSnapshots() {
+    this.tick++
+    const serverTime = Date.now()
+
+    this.sendSnapshot(LOBBY_SPACE_CHANNEL, null, this.rooms.getLobbySpacePlayers(), serverTime)
+    for (const room of this.rooms.getRooms()) {
+      this.sendSnapshot(roomChannel(room.id), room.id, room.players, serverTime)
+    }
+  }
+
+  private sendSnapshot(channel: string, roomId: string | null, players: Player[], serverTime: number) {
+    if (players.length === 0) return
+    const snapshot: StateSnapshot = {
+      tick: this.tick,
+      serverTime,
+      roomId,
+      players: players.map(({ id, position, rotation }) => ({
+        id,
+        position,
+        rotation,
+        ...this.rooms.getMotion(id),
+        ack: this.rooms.getInputAck(id),
+        health: this.rooms.getPlayer(id)?.health?.current ?? 0
+      })),
+      kaiju: roomId ? this.kaiju.snapshot(roomId) : [],
+      projectiles: roomId ? this.combat.snapshot(roomId) : []
+    }
+    // Volatile: a stale snapshot is worthless, so never buffer for slow clients
+    this.io.to(channel).volatile.emit(MESSAGE_EVENT, this.message('state_snapshot', snapshot))
+  }
+
+  private serializeRoom(room: Room): Room {
+    return { ...room, players: room.players.map(toWirePlayer) }
+  }
+
+  private message<K extends keyof ServerMessageMap>(type: K, data: ServerMessageMap[K]): ServerMessage {
+    return createMessage<ServerMessageMap, K>(type, data) as ServerMessage
+  }
+
+  private sendTo<K extends keyof ServerMessageMap>(socket: GameSocket, type: K, data: ServerMessageMap[K]) {
+    socket.emit(MESSAGE_EVENT, this.message(type, data))
+  }
+}
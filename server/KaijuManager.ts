@@ -0,0 +1,126 @@
+import type { Vector3Tuple } from 'three'
+import type { KaijuSnapshot } from '../src/systems/Networking/protocol'
+import type { CollisionWorld } from '../src/systems/Physics/collisionWorld'
+import { getKaijuDefinition } from '../src/systems/Kaiju/kaijuDefinitions'
+import { attackAreaOf, type EncounterDefinition } from '../src/systems/Kaiju/encounterFormat'
+import {
+  createKaiju,
+  damageKaiju,
+  isKaijuExpired,
+  startEncounter,
+  stepKaiju,
+  type KaijuEvent,
+  type KaijuState,
+  type KaijuTarget
+} from '../src/systems/Kaiju/kaijuBrain'
+
+// Stable per-room seed so a room's kaiju don't all make the same choices
+function hashSeed(text: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619)
+  }
+  return hash | 0
+}
+
+// Authoritative kaiju per room. Like RoomManager this is pure state - the GameServer
+// decides when to step it and what to send, and the room's game mode decides what spawns.
+export class KaijuManager {
+  private rooms = new Map<string, KaijuState[]>()
+  private spawned = 0
+
+  constructor(private encounters: ReadonlyMap<string, EncounterDefinition> = new Map()) {}
+
+  spawn(roomId: string, kind: string, position: Vector3Tuple, yaw = 0, home?: Vector3Tuple): KaijuState | null {
+    const definition = getKaijuDefinition(kind)
+    if (!definition) return null
+    const id = `${roomId}:${kind}:${++this.spawned}`
+    const kaiju = createKaiju(id, definition, position, yaw, hashSeed(id), home)
+    this.rooms.set(roomId, [...this.getKaiju(roomId), kaiju])
+    return kaiju
+  }
+
+  // Spawns the encounter's boss; null for an unknown encounter id
+  spawnEncounter(roomId: string, encounterId: string, position: Vector3Tuple, yaw = 0, home?: Vector3Tuple): KaijuState | null {
+    const encounter = this.encounters.get(encounterId)
+    if (!encounter) return null
+    const kaiju = this.spawn(roomId, encounter.kind, position, yaw, home)
+    if (kaiju) startEncounter(kaiju, encounter)
+    return kaiju
+  }
+
+  getEncounter(kaiju: KaijuState): EncounterDefinition | undefined {
+    return kaiju.encounter ? this.encounters.get(kaiju.encounter.id) : undefined
+  }
+
+  clearRoom(roomId: string) {
+    this.rooms.delete(roomId)
+  }
+
+  // Drops kaiju for rooms that have closed
+  retainRooms(roomIds: Iterable<string>) {
+    const keep = new Set(roomIds)
+    for (const roomId of this.rooms.keys()) {
+      if (!keep.has(roomId)) this.rooms.delete(roomId)
+    }
+  }
+
+  getKaiju(roomId: string): KaijuState[] {
+    return this.rooms.get(roomId) ?? []
+  }
+
+  step(roomId: string, targets: KaijuTarget[], world: CollisionWorld, deltaTime: number): KaijuEvent[] {
+    const kaiju = this.rooms.get(roomId)
+    if (!kaiju) return []
+
+    const events: KaijuEvent[] = []
+    for (const entity of kaiju) {
+      events.push(...stepKaiju(entity, getKaijuDefinition(entity.kind)!, targets, world, deltaTime, this.getEncounter(entity)))
+    }
+    this.rooms.set(roomId, kaiju.filter(entity => !isKaijuExpired(entity, getKaijuDefinition(entity.kind)!)))
+    return events
+  }
+
+  damage(roomId: string, kaijuId: string, amount: number): KaijuEvent[] {
+    const entity = this.rooms.get(roomId)?.find(k => k.id === kaijuId)
+    if (!entity) return []
+    return damageKaiju(entity, getKaijuDefinition(entity.kind)!, amount, this.getEncounter(entity))
+  }
+
+  snapshot(roomId: string): KaijuSnapshot[] {
+    return this.getKaiju(roomId).map(entity => {
+      const { id, kind, position, yaw, health, maxHealth, behaviour, targetId } = entity
+      const snapshot: KaijuSnapshot = {
+        id,
+        kind,
+        position: [position[0], position[1], position[2]],
+        yaw,
+        health,
+        maxHealth,
+        behaviour,
+        targetId
+      }
+      const encounter = this.getEncounter(entity)
+      if (!encounter || !entity.encounter) return snapshot
+
+      snapshot.encounterId = encounter.id
+      snapshot.phase = entity.encounter.phase
+      const active = entity.encounter.attack
+      if (active && behaviour === 'attack') {
+        const attack = encounter.attacks[active.id]
+        snapshot.clip = attack.clip
+        if (entity.behaviourTime < attack.windUp) {
+          snapshot.telegraph = {
+            attackId: active.id,
+            area: attackAreaOf(attack),
+            origin: [...active.origin],
+            yaw: active.yaw,
+            windUp: attack.windUp,
+            elapsed: entity.behaviourTime
+          }
+        }
+      }
+      return snapshot
+    })
+  }
+}
@@ -0,0 +1,245 @@
+import type { Player, Room } from '../src/types'
+import type { CombatEvent } from '../src/systems/Networking/protocol'
+import type { LevelDefinition } from '../src/systems/Level/levelFormat'
+import {
+  DEFAULT_GAME_MODE_ID,
+  SCORE_PER_DAMAGE,
+  SCORE_PER_KAIJU_KILL,
+  getGameMode,
+  type GameMode,
+  type MatchContext,
+  type MatchPhase,
+  type MatchState,
+  type PlayerScore
+} from '../src/systems/GameMode/gameModes'
+import type { KaijuManager } from './KaijuManager'
+import type { BuildingManager } from './BuildingManager'
+
+// Seconds
+const COUNTDOWN_DURATION = 5
+const INTERMISSION_DURATION = 8
+// How long the post-match summary shows before the next match counts down
+const SUMMARY_DURATION = 20
+
+interface Match {
+  mode: GameMode
+  state: MatchState
+  // Server time (ms) the current phase ends, when it has a deadline
+  phaseEndsAt: number | null
+  roundStartedAt: number
+  scores: Map<string, PlayerScore>
+  // Objective health as last sent, in whole points
+  shownObjectiveHealth: number | null
+  // Set whenever clients need a fresh match_update
+  dirty: boolean
+}
+
+// Runs each room's match: phases, rounds and the scoreboard. Pure state like RoomManager;
+// the room's GameMode supplies what spawns and when a round is won or lost.
+export class MatchManager {
+  private matches = new Map<string, Match>()
+
+  constructor(
+    private kaiju: KaijuManager,
+    private buildings: BuildingManager,
+    private levels: ReadonlyMap<string, LevelDefinition> = new Map()
+  ) {}
+
+  ensureRoom(room: Room) {
+    if (this.matches.has(room.id)) return
+    const mode = getGameMode(room.modeId) ?? getGameMode(DEFAULT_GAME_MODE_ID)!
+    this.matches.set(room.id, {
+      mode,
+      state: {
+        modeId: mode.id,
+        phase: 'waiting',
+        round: 0,
+        rounds: mode.rounds,
+        phaseEndsIn: null,
+        objective: 'Waiting for players',
+        scores: [],
+        result: null
+      },
+      phaseEndsAt: null,
+      roundStartedAt: 0,
+      scores: new Map(),
+      shownObjectiveHealth: null,
+      dirty: true
+    })
+  }
+
+  // Drops matches for rooms that have closed
+  retainRooms(roomIds: Iterable<string>) {
+    const keep = new Set(roomIds)
+    for (const roomId of this.matches.keys()) {
+      if (!keep.has(roomId)) this.matches.delete(roomId)
+    }
+  }
+
+  // Advances the room's match; returns the new state when clients should be told
+  step(room: Room, deltaTime: number, now: number = Date.now()): MatchState | null {
+    const match = this.matches.get(room.id)
+    if (!match) return null
+    const { state, mode } = match
+    const deadlinePassed = match.phaseEndsAt !== null && now >= match.phaseEndsAt
+
+    // Late joiners go on the scoreboard as soon as they arrive
+    if (state.round > 0 && state.phase !== 'ended') {
+      for (const player of room.players) {
+        if (!match.scores.has(player.id)) {
+          this.scoreFor(match, player)
+          match.dirty = true
+        }
+      }
+    }
+
+    switch (state.phase) {
+      case 'waiting':
+        if (room.players.length === 0) break
+        if (mode.skipCountdown) {
+          this.startRound(room, match, now)
+        } else {
+          this.enterPhase(match, 'countdown', now, COUNTDOWN_DURATION)
+          state.objective = 'Get ready'
+        }
+        break
+
+      case 'countdown':
+      case 'intermission':
+        if (deadlinePassed) this.startRound(room, match, now)
+        break
+
+      case 'active': {
+        const outcome = mode.update(this.context(room, match, deltaTime, now), state)
+        if (outcome === 'defeat' || (outcome === null && deadlinePassed)) {
+          this.endMatch(match, 'defeat', now)
+        } else if (outcome === 'round_won') {
+          if (mode.rounds !== null && state.round >= mode.rounds) {
+            this.endMatch(match, 'victory', now)
+          } else {
+            this.enterPhase(match, 'intermission', now, INTERMISSION_DURATION)
+            state.objective = `Round ${state.round} cleared - next round soon`
+          }
+        } else if (state.objectiveHealth) {
+          // Objective health changes continuously; resend it in whole points only
+          const shown = Math.ceil(state.objectiveHealth.current)
+          if (shown !== match.shownObjectiveHealth) {
+            match.shownObjectiveHealth = shown
+            match.dirty = true
+          }
+        }
+        break
+      }
+
+      case 'ended':
+        if (deadlinePassed) {
+          this.resetMatch(room)
+          return this.getState(room.id, now)
+        }
+        break
+    }
+
+    if (!match.dirty) return null
+    match.dirty = false
+    return this.getState(room.id)
+  }
+
+  // Credits damage, kills and deaths to the players involved
+  recordCombatEvents(roomId: string, events: CombatEvent[], lookup: (id: string) => Player | undefined) {
+    const match = this.matches.get(roomId)
+    if (!match || match.state.phase === 'ended' || events.length === 0) return
+
+    const scoreFor = (id: string | null) => {
+      const player = id ? lookup(id) : undefined
+      return player ? this.scoreFor(match, player) : null
+    }
+
+    for (const event of events) {
+      if (event.type === 'hit' && event.target === 'kaiju') {
+        const score = scoreFor(event.attackerId)
+        if (score) score.damage += event.damage
+      } else if (event.type === 'kaiju_died') {
+        const score = scoreFor(event.killerId)
+        if (score) score.kaijuKills++
+      } else if (event.type === 'player_died') {
+        const victim = scoreFor(event.playerId)
+        if (victim) victim.deaths++
+        const killer = event.killerId !== event.playerId ? scoreFor(event.killerId) : null
+        if (killer) killer.playerKills++
+      }
+    }
+    for (const score of match.scores.values()) {
+      score.score = Math.round(score.damage * SCORE_PER_DAMAGE + score.kaijuKills * SCORE_PER_KAIJU_KILL)
+    }
+    match.dirty = true
+  }
+
+  getState(roomId: string, now: number = Date.now()): MatchState | null {
+    const match = this.matches.get(roomId)
+    if (!match) return null
+    return {
+      ...match.state,
+      objectiveHealth: match.state.objectiveHealth && {
+        current: Math.ceil(match.state.objectiveHealth.current),
+        max: match.state.objectiveHealth.max
+      },
+      phaseEndsIn: match.phaseEndsAt === null ? null : Math.max(0, match.phaseEndsAt - now),
+      scores: Array.from(match.scores.values()).sort((a, b) => b.score - a.score)
+    }
+  }
+
+  private scoreFor(match: Match, player: Player): PlayerScore {
+    let score = match.scores.get(player.id)
+    if (!score) {
+      score = { playerId: player.id, name: player.name, damage: 0, kaijuKills: 0, playerKills: 0, deaths: 0, score: 0 }
+      match.scores.set(player.id, score)
+    }
+    return score
+  }
+
+  private enterPhase(match: Match, phase: MatchPhase, now: number, duration: number | null) {
+    match.state.phase = phase
+    match.phaseEndsAt = duration === null ? null : now + duration * 1000
+    match.dirty = true
+  }
+
+  private startRound(room: Room, match: Match, now: number) {
+    const { state, mode } = match
+    state.round++
+    this.enterPhase(match, 'active', now, mode.roundTime)
+    match.roundStartedAt = now
+    // Everyone present is on the scoreboard, even before they've done anything
+    for (const player of room.players) this.scoreFor(match, player)
+    mode.startRound(this.context(room, match, 0, now), state)
+    state.objective = mode.describeObjective(state)
+  }
+
+  private endMatch(match: Match, result: MatchState['result'], now: number) {
+    match.state.result = result
+    match.state.objective = result === 'victory' ? 'Victory!' : 'Defeat'
+    this.enterPhase(match, 'ended', now, SUMMARY_DURATION)
+  }
+
+  // Fresh match in the same room: no kaiju, no scores, buildings rebuilt, back to the countdown
+  private resetMatch(room: Room) {
+    this.kaiju.clearRoom(room.id)
+    this.buildings.resetRoom(room.id)
+    this.matches.delete(room.id)
+    this.ensureRoom(room)
+  }
+
+  private context(room: Room, match: Match, deltaTime: number, now: number): MatchContext {
+    return {
+      level: this.levels.get(room.levelId),
+      players: room.players,
+      kaiju: this.kaiju.getKaiju(room.id),
+      elapsed: (now - match.roundStartedAt) / 1000,
+      deltaTime,
+      spawnKaiju: (kind, position, yaw, home) => {
+        this.kaiju.spawn(room.id, kind, position, yaw, home)
+      },
+      spawnEncounter: (encounterId, position, yaw, home) =>
+        this.kaiju.spawnEncounter(room.id, encounterId, position, yaw, home) !== null
+    }
+  }
+}
@@ -0,0 +1,406 @@
+import { randomBytes } from 'node:crypto'
+import type { Player, Room } from '../src/types'
+import {
+  DEFAULT_MAX_PLAYERS,
+  INVITE_CODE_LENGTH,
+  MAX_ROOM_PLAYERS,
+  normalizeInviteCode,
+  type ErrorCode
+} from '../src/systems/Networking/protocol'
+import { MAX_INPUT_DT, type MovementInput } from '../src/systems/Networking/inputPrediction'
+import { createMovementState, stepMovement } from '../src/systems/Movement/movementSimulation'
+import type { PlayerMotion } from '../src/systems/Networking/protocol'
+import {
+  DEFAULT_LEVEL_ID,
+  buildCollisionWorld,
+  getSpawnPoint,
+  type LevelDefinition
+} from '../src/systems/Level/levelFormat'
+import { DEFAULT_COLLISION_WORLD, type CollisionWorld } from '../src/systems/Physics/collisionWorld'
+import { createHealth, isAlive } from '../src/systems/Combat/health'
+import { DEFAULT_GAME_MODE_ID, getGameMode } from '../src/systems/GameMode/gameModes'
+
+export const MIN_ROOM_PLAYERS = 1
+
+// No 0/O or 1/I - codes get read aloud and typed by hand
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+export class RoomError extends Error {
+  constructor(public code: ErrorCode, message: string) {
+    super(message)
+    this.name = 'RoomError'
+  }
+}
+
+// Simulated time a player may bank ahead of real time; stops speed hacks via inflated dt
+const MAX_INPUT_BUDGET = 0.5
+
+interface InputState extends PlayerMotion {
+  ack: number
+  budget: number
+  refilledAt: number
+}
+
+interface CreateRoomOptions {
+  name: string
+  isPrivate: boolean
+  maxPlayers?: number
+  levelId?: string
+  modeId?: string
+}
+
+// Authoritative lobby and room membership. Pure state - no sockets - so the
+// GameServer owns transport and this class owns the rules.
+export class RoomManager {
+  private players = new Map<string, Player>()
+  private rooms = new Map<string, Room>()
+  private roomOwners = new Map<string, string>()
+  private inviteCodes = new Map<string, string>()
+  // playerId -> the room they are watching without taking a slot in it
+  private spectators = new Map<string, string>()
+  private inputStates = new Map<string, InputState>()
+  private worlds = new Map<string, CollisionWorld>()
+  // roomId -> collision that differs from the level's (e.g. buildings standing in it)
+  private roomWorlds = new Map<string, CollisionWorld>()
+  // Spreads respawns across a level's spawn points
+  private respawnCount = 0
+
+  // Without levels every room is open flat ground
+  constructor(private levels: ReadonlyMap<string, LevelDefinition> = new Map()) {
+    for (const [id, level] of levels) {
+      this.worlds.set(id, buildCollisionWorld(level))
+    }
+  }
+
+  addPlayer(player: Player): Player {
+    if (this.players.has(player.id)) {
+      throw new RoomError('duplicate_player', `Player ${player.id} is already connected`)
+    }
+    const { room: _ignored, ...rest } = player
+    const tracked: Player = { ...rest, health: createHealth() }
+    this.players.set(tracked.id, tracked)
+    this.inputStates.set(tracked.id, {
+      ack: 0,
+      budget: MAX_INPUT_BUDGET,
+      refilledAt: Date.now(),
+      verticalVelocity: 0,
+      isGrounded: true
+    })
+    this.spawn(tracked, DEFAULT_LEVEL_ID, this.getLobbySpacePlayers().length - 1)
+    return tracked
+  }
+
+  // Removes the player everywhere; returns the room they were in, if any
+  removePlayer(playerId: string): Room | null {
+    const room = this.leaveRoom(playerId)
+    this.spectators.delete(playerId)
+    this.players.delete(playerId)
+    this.inputStates.delete(playerId)
+    return room
+  }
+
+  // Room rosters hold the same player objects, so they pick the new name up too
+  renamePlayer(playerId: string, name: string): Player {
+    const player = this.requirePlayer(playerId)
+    player.name = name
+    return player
+  }
+
+  getPlayer(playerId: string): Player | undefined {
+    return this.players.get(playerId)
+  }
+
+  getLobby(): Player[] {
+    return Array.from(this.players.values())
+  }
+
+  getRoom(roomId: string): Room | undefined {
+    return this.rooms.get(roomId)
+  }
+
+  getRooms(): Room[] {
+    return Array.from(this.rooms.values())
+  }
+
+  // Private rooms are only reachable through their invite code
+  getPublicRooms(): Room[] {
+    return this.getRooms().filter(room => !room.isPrivate)
+  }
+
+  // Players who have not joined a room share the lobby space
+  getLobbySpacePlayers(): Player[] {
+    return this.getLobby().filter(p => !p.room)
+  }
+
+  createRoom(
+    ownerId: string,
+    {
+      name,
+      isPrivate,
+      maxPlayers = DEFAULT_MAX_PLAYERS,
+      levelId = DEFAULT_LEVEL_ID,
+      modeId = DEFAULT_GAME_MODE_ID
+    }: CreateRoomOptions
+  ): Room {
+    const owner = this.requirePlayer(ownerId)
+    if (owner.room) {
+      throw new RoomError('already_in_room', 'Leave your current room before creating another')
+    }
+    if (this.levels.size > 0 && !this.levels.has(levelId)) {
+      throw new RoomError('level_not_found', `Level ${levelId} does not exist`)
+    }
+    if (!getGameMode(modeId)) {
+      throw new RoomError('mode_not_found', `Game mode ${modeId} does not exist`)
+    }
+
+    const room: Room = {
+      id: randomBytes(4).toString('hex'),
+      name: name.trim().slice(0, 48) || 'Untitled Room',
+      players: [],
+      maxPlayers: Math.min(MAX_ROOM_PLAYERS, Math.max(MIN_ROOM_PLAYERS, Math.floor(maxPlayers))),
+      isPrivate,
+      levelId,
+      modeId
+    }
+    if (isPrivate) {
+      room.inviteCode = this.generateInviteCode()
+      this.inviteCodes.set(room.inviteCode, room.id)
+    }
+    this.rooms.set(room.id, room)
+    this.roomOwners.set(room.id, ownerId)
+    this.addToRoom(owner, room)
+    return room
+  }
+
+  joinRoom(playerId: string, roomId: string): Room {
+    return this.enterRoom(playerId, roomId, false)
+  }
+
+  joinRoomByInvite(playerId: string, inviteCode: string): Room {
+    return this.enterRoom(playerId, this.findInvitedRoom(inviteCode), true)
+  }
+
+  // Watching takes no slot, so full rooms can be spectated; private ones still need the invite
+  spectateRoom(playerId: string, roomId: string): Room {
+    return this.watchRoom(playerId, roomId, false)
+  }
+
+  spectateRoomByInvite(playerId: string, inviteCode: string): Room {
+    return this.watchRoom(playerId, this.findInvitedRoom(inviteCode), true)
+  }
+
+  // Returns the id of the room that was being watched, if any
+  stopSpectating(playerId: string): string | null {
+    const roomId = this.spectators.get(playerId) ?? null
+    this.spectators.delete(playerId)
+    return roomId
+  }
+
+  getSpectatedRoom(playerId: string): Room | undefined {
+    const roomId = this.spectators.get(playerId)
+    return roomId ? this.rooms.get(roomId) : undefined
+  }
+
+  // Stops everyone watching the room (it closed); returns who was
+  dropSpectators(roomId: string): string[] {
+    const watching = [...this.spectators].filter(([, watched]) => watched === roomId).map(([playerId]) => playerId)
+    for (const playerId of watching) this.spectators.delete(playerId)
+    return watching
+  }
+
+  private findInvitedRoom(inviteCode: string): string {
+    const roomId = this.inviteCodes.get(normalizeInviteCode(inviteCode))
+    if (!roomId) {
+      throw new RoomError('invalid_invite', 'That invite code does not match any open room')
+    }
+    return roomId
+  }
+
+  private enterRoom(playerId: string, roomId: string, invited: boolean): Room {
+    const player = this.requirePlayer(playerId)
+    const room = this.requireRoom(roomId)
+    if (player.room === room.id) return room
+    if (player.room) {
+      throw new RoomError('already_in_room', 'Leave your current room before joining another')
+    }
+    this.requireAccess(playerId, room, invited)
+    if (room.players.length >= room.maxPlayers) {
+      throw new RoomError('room_full', `Room ${room.name} is full (${room.maxPlayers} players)`)
+    }
+
+    this.addToRoom(player, room)
+    return room
+  }
+
+  private watchRoom(playerId: string, roomId: string, invited: boolean): Room {
+    const player = this.requirePlayer(playerId)
+    const room = this.requireRoom(roomId)
+    if (player.room) {
+      throw new RoomError('already_in_room', 'Leave your current room before spectating another')
+    }
+    this.requireAccess(playerId, room, invited)
+    this.spectators.set(playerId, room.id)
+    return room
+  }
+
+  private requireRoom(roomId: string): Room {
+    const room = this.rooms.get(roomId)
+    if (!room) {
+      throw new RoomError('room_not_found', `Room ${roomId} does not exist`)
+    }
+    return room
+  }
+
+  private requireAccess(playerId: string, room: Room, invited: boolean) {
+    if (room.isPrivate && !invited && this.roomOwners.get(room.id) !== playerId) {
+      throw new RoomError('room_private', `Room ${room.name} is private`)
+    }
+  }
+
+  // Returns the room that was left; empty rooms are closed
+  leaveRoom(playerId: string): Room | null {
+    const player = this.players.get(playerId)
+    if (!player?.room) return null
+
+    const room = this.rooms.get(player.room)
+    delete player.room
+    this.spawn(player, DEFAULT_LEVEL_ID, this.getLobbySpacePlayers().length - 1)
+    if (!room) return null
+
+    room.players = room.players.filter(p => p.id !== playerId)
+    if (room.players.length === 0) {
+      this.rooms.delete(room.id)
+      this.roomOwners.delete(room.id)
+      this.roomWorlds.delete(room.id)
+      if (room.inviteCode) this.inviteCodes.delete(room.inviteCode)
+    }
+    return room
+  }
+
+  // Authoritative movement: replays client inputs in order and acknowledges the last one.
+  // Stale or duplicate sequence ids are ignored; dt is clamped per input and against real time.
+  applyInputs(playerId: string, inputs: MovementInput[], now: number = Date.now()) {
+    const player = this.requirePlayer(playerId)
+    const state = this.inputStates.get(playerId)!
+    const world = this.getWorld(player)
+
+    state.budget = Math.min(MAX_INPUT_BUDGET, state.budget + (now - state.refilledAt) / 1000)
+    state.refilledAt = now
+
+    for (const input of inputs) {
+      if (!Number.isInteger(input.seq) || input.seq <= state.ack) continue
+      const dt = Math.min(Math.max(0, Number(input.dt) || 0), MAX_INPUT_DT, state.budget)
+      state.budget -= dt
+      state.ack = input.seq
+      // The dead don't move, but their inputs are still acknowledged
+      if (!isAlive(player.health)) continue
+
+      const current = {
+        ...createMovementState(player.position, player.rotation),
+        verticalVelocity: state.verticalVelocity,
+        isGrounded: state.isGrounded
+      }
+      const step = stepMovement(current, {
+        forward: input.forward === true,
+        backward: input.backward === true,
+        left: input.left === true,
+        right: input.right === true,
+        run: input.run === true,
+        jump: input.jump === true,
+        magnitude: typeof input.magnitude === 'number' ? input.magnitude : undefined,
+        heading: typeof input.heading === 'number' ? input.heading : undefined
+      }, dt, undefined, world)
+      player.position = step.position
+      player.rotation = step.rotation
+      state.verticalVelocity = step.verticalVelocity
+      state.isGrounded = step.isGrounded
+    }
+  }
+
+  // A client that reconnects after a reload numbers its inputs from scratch
+  resetInputs(playerId: string) {
+    const state = this.inputStates.get(playerId)
+    if (state) state.ack = 0
+  }
+
+  // Back at a spawn point of the player's current space with full health
+  respawnPlayer(playerId: string): Player {
+    const player = this.requirePlayer(playerId)
+    const levelId = player.room ? this.rooms.get(player.room)?.levelId ?? DEFAULT_LEVEL_ID : DEFAULT_LEVEL_ID
+    this.spawn(player, levelId, this.respawnCount++)
+    return player
+  }
+
+  getInputAck(playerId: string): number {
+    return this.inputStates.get(playerId)?.ack ?? 0
+  }
+
+  getMotion(playerId: string): PlayerMotion {
+    const state = this.inputStates.get(playerId)
+    return { verticalVelocity: state?.verticalVelocity ?? 0, isGrounded: state?.isGrounded ?? true }
+  }
+
+  // Taking a slot ends any spectating
+  private addToRoom(player: Player, room: Room) {
+    this.spectators.delete(player.id)
+    player.room = room.id
+    this.spawn(player, room.levelId, room.players.length)
+    room.players.push(player)
+  }
+
+  // Collision for a room: its override if set, else its level's; open ground if the level isn't loaded
+  getRoomWorld(roomId: string): CollisionWorld {
+    return this.roomWorlds.get(roomId) ?? this.getLevelWorld(this.rooms.get(roomId)?.levelId)
+  }
+
+  // Replaces a room's collision until cleared with null. Ignored for rooms that don't exist.
+  setRoomWorld(roomId: string, world: CollisionWorld | null) {
+    if (world && this.rooms.has(roomId)) {
+      this.roomWorlds.set(roomId, world)
+    } else {
+      this.roomWorlds.delete(roomId)
+    }
+  }
+
+  // Collision for the space the player is in: their room's level, or the lobby's
+  private getWorld(player: Player): CollisionWorld {
+    return player.room ? this.getRoomWorld(player.room) : this.getLevelWorld(DEFAULT_LEVEL_ID)
+  }
+
+  private getLevelWorld(levelId: string | undefined): CollisionWorld {
+    return (levelId && this.worlds.get(levelId)) || DEFAULT_COLLISION_WORLD
+  }
+
+  // Moves the player to one of the level's spawn points, restores their health and
+  // clears any fall in progress
+  private spawn(player: Player, levelId: string, index: number) {
+    player.health = createHealth(player.health?.max)
+    const level = this.levels.get(levelId)
+    if (!level) return
+    const { position, yaw = 0 } = getSpawnPoint(level, Math.max(0, index))
+    player.position = [...position]
+    player.rotation = [0, yaw, 0]
+    const state = this.inputStates.get(player.id)
+    if (state) {
+      state.verticalVelocity = 0
+      state.isGrounded = true
+    }
+  }
+
+  private generateInviteCode(): string {
+    let code: string
+    do {
+      const bytes = randomBytes(INVITE_CODE_LENGTH)
+      code = Array.from(bytes, b => INVITE_ALPHABET[b % INVITE_ALPHABET.length]).join('')
+    } while (this.inviteCodes.has(code))
+    return code
+  }
+
+  private requirePlayer(playerId: string): Player {
+    const player = this.players.get(playerId)
+    if (!player) {
+      throw new RoomError('not_in_lobby', 'Join the lobby first')
+    }
+    return player
+  }
+}
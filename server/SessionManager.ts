@@ -0,0 +1,59 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto'
+import type { PlayerIdentity } from '../src/systems/Profile/profile'
+
+// How long a session token stays valid after it was last issued
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+interface SessionPayload {
+  playerId: string
+  issuedAt: number
+}
+
+// Issues player ids and the signed session tokens that reclaim them. A token is
+// `<payload>.<HMAC-SHA256 of payload>`, so the server keeps no session state and tokens
+// survive restarts as long as the secret does. Every join re-issues the token, so a
+// player who keeps coming back never expires.
+export class SessionManager {
+  private secret: string
+
+  // Without a secret one is generated, and tokens die with the process
+  constructor(secret?: string, private ttlMs: number = SESSION_TTL_MS) {
+    this.secret = secret || randomBytes(32).toString('hex')
+  }
+
+  // The identity a valid token belongs to (with a fresh token), or a new identity
+  resolve(identityToken: unknown, now: number = Date.now()): PlayerIdentity {
+    const playerId = this.verify(identityToken, now) ?? randomUUID()
+    return { playerId, identityToken: this.sign({ playerId, issuedAt: now }) }
+  }
+
+  // The player id a token was issued for, or null if it is forged, malformed or expired
+  verify(identityToken: unknown, now: number = Date.now()): string | null {
+    if (typeof identityToken !== 'string') return null
+    const [payload, signature, ...rest] = identityToken.split('.')
+    if (!payload || !signature || rest.length > 0) return null
+
+    const expected = Buffer.from(this.signature(payload))
+    const given = Buffer.from(signature)
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null
+
+    let session: Partial<SessionPayload>
+    try {
+      session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    } catch {
+      return null
+    }
+    if (typeof session?.playerId !== 'string' || typeof session.issuedAt !== 'number') return null
+    if (now - session.issuedAt > this.ttlMs) return null
+    return session.playerId
+  }
+
+  private sign(session: SessionPayload): string {
+    const payload = Buffer.from(JSON.stringify(session)).toString('base64url')
+    return `${payload}.${this.signature(payload)}`
+  }
+
+  private signature(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url')
+  }
+}
@@ -0,0 +1,28 @@
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseBuilding, type BuildingDefinition } from '../src/systems/Buildings/buildingFormat'
+
+// The same files the client fetches from /buildings
+export const BUILDINGS_DIRECTORY = fileURLToPath(new URL('../public/buildings/', import.meta.url))
+
+// Reads every building file in the directory. Invalid files are logged and skipped, like levels.
+export function loadBuildings(directory: string = BUILDINGS_DIRECTORY): Map<string, BuildingDefinition> {
+  const buildings = new Map<string, BuildingDefinition>()
+  let files: string[] = []
+  try {
+    files = readdirSync(directory).filter(file => file.endsWith('.json'))
+  } catch (error) {
+    console.warn(`⚠️ No building directory at ${directory}, levels will have no buildings:`, error)
+  }
+
+  for (const file of files) {
+    try {
+      const building = parseBuilding(JSON.parse(readFileSync(join(directory, file), 'utf8')))
+      buildings.set(building.id, building)
+    } catch (error) {
+      console.error(`❌ Skipping building ${file}:`, error instanceof Error ? error.message : error)
+    }
+  }
+  return buildings
+}
@@ -0,0 +1,28 @@
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseEncounter, type EncounterDefinition } from '../src/systems/Kaiju/encounterFormat'
+
+// The same files the client fetches from /encounters
+export const ENCOUNTERS_DIRECTORY = fileURLToPath(new URL('../public/encounters/', import.meta.url))
+
+// Reads every encounter file in the directory. Invalid files are logged and skipped, like levels.
+export function loadEncounters(directory: string = ENCOUNTERS_DIRECTORY): Map<string, EncounterDefinition> {
+  const encounters = new Map<string, EncounterDefinition>()
+  let files: string[] = []
+  try {
+    files = readdirSync(directory).filter(file => file.endsWith('.json'))
+  } catch (error) {
+    console.warn(`⚠️ No encounter directory at ${directory}, bosses are disabled:`, error)
+  }
+
+  for (const file of files) {
+    try {
+      const encounter = parseEncounter(JSON.parse(readFileSync(join(directory, file), 'utf8')))
+      encounters.set(encounter.id, encounter)
+    } catch (error) {
+      console.error(`❌ Skipping encounter ${file}:`, error instanceof Error ? error.message : error)
+    }
+  }
+  return encounters
+}
@@ -0,0 +1,40 @@
+import { DEFAULT_RECONNECT_GRACE_MS, GameServer } from './GameServer'
+import { loadLevels } from './levels'
+import { loadEncounters } from './encounters'
+import { loadBuildings } from './buildings'
+import { DEFAULT_TICK_RATE } from '../src/systems/Networking/protocol'
+
+const port = Number(process.env.PORT ?? 3001)
+const tickRate = Number(process.env.TICK_RATE ?? DEFAULT_TICK_RATE)
+const sessionSecret = process.env.SESSION_SECRET
+const reconnectGraceMs = Number(process.env.RECONNECT_GRACE_MS ?? DEFAULT_RECONNECT_GRACE_MS)
+if (!sessionSecret) {
+  console.warn('⚠️ SESSION_SECRET is not set; players get new ids whenever the server restarts')
+}
+
+const levels = loadLevels()
+console.log(`🗺️ Loaded ${levels.size} level(s): ${[...levels.keys()].join(', ') || 'none'}`)
+const encounters = loadEncounters()
+console.log(`👹 Loaded ${encounters.size} encounter(s): ${[...encounters.keys()].join(', ') || 'none'}`)
+const buildings = loadBuildings()
+console.log(`🏢 Loaded ${buildings.size} building(s): ${[...buildings.keys()].join(', ') || 'none'}`)
+
+const server = new GameServer({
+  tickRate,
+  corsOrigin: process.env.CORS_ORIGIN?.split(',') ?? '*',
+  levels,
+  encounters,
+  buildings,
+  sessionSecret,
+  reconnectGraceMs
+})
+server.listen(port)
+console.log(`🛰️ Game server listening on :${port} (${tickRate} Hz)`)
+
+const shutdown = async () => {
+  console.log('🛰️ Shutting down game server')
+  await server.close()
+  process.exit(0)
+}
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
@@ -0,0 +1,29 @@
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseLevel, type LevelDefinition } from '../src/systems/Level/levelFormat'
+
+// The same files the client fetches from /levels
+export const LEVELS_DIRECTORY = fileURLToPath(new URL('../public/levels/', import.meta.url))
+
+// Reads every level file in the directory. Invalid files are logged and skipped so one
+// broken level doesn't take the server down.
+export function loadLevels(directory: string = LEVELS_DIRECTORY): Map<string, LevelDefinition> {
+  const levels = new Map<string, LevelDefinition>()
+  let files: string[] = []
+  try {
+    files = readdirSync(directory).filter(file => file.endsWith('.json'))
+  } catch (error) {
+    console.warn(`⚠️ No level directory at ${directory}, rooms will use open ground:`, error)
+  }
+
+  for (const file of files) {
+    try {
+      const level = parseLevel(JSON.parse(readFileSync(join(directory, file), 'utf8')))
+      levels.set(level.id, level)
+    } catch (error) {
+      console.error(`❌ Skipping level ${file}:`, error instanceof Error ? error.message : error)
+    }
+  }
+  return levels
+}
@@ -1,81 +1,203 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { HomePage } from '@/components/HomePage/HomePage'
 import { AvatarSelection } from '@/components/AvatarSelection/AvatarSelection'
 import { Lobby } from '@/components/Lobby/Lobby'
 import { GameRoom } from '@/components/GameRoom/GameRoom'
+import { ProfileSettings } from '@/components/ProfileSettings/ProfileSettings'
 import { useGameStore } from '@/stores/gameStore'
-import { useNetworking } from '@/hooks/useNetworking'
-import { Avatar, Player } from '@/types'
+import { useProfileStore } from '@/stores/profileStore'
+import { getNetworkManager, useNetworking } from '@/hooks/useNetworking'
+import { navigate, useRoute } from '@/hooks/useRoute'
+import { avatarManifestLoader } from '@/utils/loaders/avatarManifestLoader'
+import { gltfAvatarLoader } from '@/utils/loaders/gltfAvatarLoader'
+import { findAvatarEntry } from '@/systems/Avatar/avatarManifest'
+import { validateDisplayName } from '@/systems/Profile/profile'
+import { parseRoute, requiresPlayer, routeUrl, type AppRoute } from '@/systems/Routing/routes'
+import type { ErrorCode } from '@/systems/Networking/protocol'
+import { Avatar, Player, Room } from '@/types'
 
-type AppState = 'home' | 'avatar-selection' | 'lobby' | 'game'
+// Errors that mean a room link can't be followed; the lobby shows why
+const ROOM_LINK_ERRORS: ErrorCode[] = ['room_not_found', 'room_full', 'room_private', 'invalid_invite', 'already_in_room']
+
+// Named from the saved profile. The id is a placeholder until the server issues
+// one (or confirms the saved one) on joining the lobby
+function createPlayer(avatar: Avatar): Player {
+  const { profile } = useProfileStore.getState()
+  return {
+    id: profile.identity?.playerId ?? crypto.randomUUID(),
+    name: profile.displayName,
+    avatar,
+    position: [0, 0, 0],
+    rotation: [0, 0, 0]
+  }
+}
+
+const roomRoute = (room: Room): AppRoute => ({ name: 'room', roomId: room.id, inviteCode: room.inviteCode })
 
 export function App() {
-  const [currentState, setCurrentState] = useState<AppState>('home')
-  const { currentPlayer, setPlayer } = useGameStore()
+  const route = useRoute()
+  const { currentPlayer, currentRoom, isConnected, setPlayer } = useGameStore()
   const { isInitialized, joinLobby } = useNetworking()
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [linkError, setLinkError] = useState<string | null>(null)
+  // The room link already acted on, so a failed join isn't retried every render
+  const attemptedRoomId = useRef<string | null>(null)
+  const previousRoomId = useRef<string | null>(null)
+  const playerRoute = requiresPlayer(route)
+  const needsPlayer = playerRoute && !currentPlayer
+  const linkedRoomId = route.name === 'room' ? route.roomId : null
+  const linkedInvite = route.name === 'room' ? route.inviteCode : undefined
+
+  // Guard: screens that need a player build one from the saved profile when it is
+  // complete (a reload or a shared link), otherwise pick a name and avatar first
+  useEffect(() => {
+    if (!needsPlayer) return
+    const next = routeUrl(route)
+    const { profile } = useProfileStore.getState()
+    if (!profile.avatarId || validateDisplayName(profile.displayName)) {
+      navigate({ name: 'avatar', next }, { replace: true })
+      return
+    }
 
+    let cancelled = false
+    setIsRestoring(true)
+    avatarManifestLoader.loadManifest()
+      .then(manifest => {
+        // Avatars dropped from the manifest since they were picked have to be picked again
+        const entry = findAvatarEntry(manifest, profile.avatarId)
+        if (!entry || entry.selectable === false) throw new Error(`Avatar ${profile.avatarId} is no longer available`)
+        return gltfAvatarLoader.loadAvatar(entry.id)
+      })
+      .then(avatar => {
+        if (!cancelled) setPlayer(createPlayer(avatar))
+      })
+      .catch(error => {
+        console.warn('⚠️ Could not restore the saved avatar:', error)
+        if (!cancelled) navigate({ name: 'avatar', next }, { replace: true })
+      })
+      .finally(() => setIsRestoring(false))
+    return () => {
+      cancelled = true
+    }
+  }, [needsPlayer, route])
+
+  // Joins once on entering the player screens, not again on each move between them
   useEffect(() => {
-    if (isInitialized && currentPlayer && currentState === 'lobby') {
+    if (isInitialized && currentPlayer && playerRoute) {
       joinLobby(currentPlayer)
     }
-  }, [isInitialized, currentPlayer, currentState])
+  }, [isInitialized, currentPlayer, playerRoute])
+
+  // A room link joins that room, leaving any other first. The server puts a reconnecting
+  // player back into their room itself; joining the room you are in is harmless.
+  useEffect(() => {
+    if (!isConnected || !linkedRoomId) attemptedRoomId.current = null
+    if (!linkedRoomId || !currentPlayer || !isConnected) return
+    if (currentRoom?.id === linkedRoomId || attemptedRoomId.current === linkedRoomId) return
+    attemptedRoomId.current = linkedRoomId
+    setLinkError(null)
+
+    const networkManager = getNetworkManager()
+    if (currentRoom) networkManager?.leaveRoom()
+    if (linkedInvite) {
+      networkManager?.joinRoomByInvite(linkedInvite)
+    } else {
+      networkManager?.joinRoom(linkedRoomId)
+    }
+  }, [linkedRoomId, linkedInvite, currentPlayer, isConnected, currentRoom])
+
+  useEffect(() => {
+    if (!linkedRoomId || !isInitialized) return
+    return getNetworkManager()?.on('error', ({ code, message }) => {
+      if (!ROOM_LINK_ERRORS.includes(code)) return
+      // A full room can still be watched until a slot opens
+      if (code === 'room_full' && attemptedRoomId.current === linkedRoomId) {
+        const networkManager = getNetworkManager()
+        if (linkedInvite) {
+          networkManager?.spectateRoomByInvite(linkedInvite)
+        } else {
+          networkManager?.spectateRoom(linkedRoomId)
+        }
+        return
+      }
+      setLinkError(message)
+      navigate({ name: 'lobby' }, { replace: true })
+    })
+  }, [linkedRoomId, linkedInvite, isInitialized])
+
+  // The address bar follows room membership without adding history entries: being put
+  // into a room from the game view shows its link, and a room going away drops it
+  useEffect(() => {
+    const previous = previousRoomId.current
+    previousRoomId.current = currentRoom?.id ?? null
+    if (route.name === 'game' && currentRoom) {
+      navigate(roomRoute(currentRoom), { replace: true })
+    } else if (route.name === 'room' && previous === route.roomId && currentRoom?.id !== route.roomId) {
+      navigate(currentRoom ? roomRoute(currentRoom) : { name: 'game' }, { replace: true })
+    }
+  }, [currentRoom?.id])
 
   const handleStartGame = () => {
-    setCurrentState('avatar-selection')
+    navigate({ name: 'avatar' })
   }
 
+  // On to wherever the guard interrupted, else the lobby
   const handleAvatarSelected = (avatar: Avatar) => {
-    const player: Player = {
-      id: Math.random().toString(36).substring(2, 15),
-      name: `Player_${Math.random().toString(36).substring(2, 7)}`,
-      avatar,
-      position: [0, 0, 0],
-      rotation: [0, 0, 0]
-    }
-    
-    setPlayer(player)
-    setCurrentState('lobby')
+    setPlayer(createPlayer(avatar))
+    const next = route.name === 'avatar' && route.next ? new URL(route.next, window.location.origin) : null
+    navigate((next && parseRoute(next.pathname, next.search)) || { name: 'lobby' })
   }
 
   const handleEnterGame = () => {
-    setCurrentState('game')
+    navigate(currentRoom ? roomRoute(currentRoom) : { name: 'game' })
   }
 
   const handleLeaveGame = () => {
-    setCurrentState('lobby')
+    navigate({ name: 'lobby' })
   }
 
   const handleBackToHome = () => {
-    setCurrentState('home')
+    navigate({ name: 'home' })
+  }
+
+  const handleOpenSettings = () => {
+    setLinkError(null)
+    navigate({ name: 'settings' })
   }
 
-  if (!isInitialized) {
+  // Back to the lobby if we are in it, else to the start
+  const handleCloseSettings = () => {
+    navigate(currentPlayer ? { name: 'lobby' } : { name: 'home' })
+  }
+
+  if (!isInitialized || needsPlayer) {
     return (
       <div className="min-h-screen bg-slate-900 flex items-center justify-center">
-        <div className="text-white text-xl">Initializing platform...</div>
+        <div className="text-white text-xl">{isRestoring ? 'Restoring session...' : 'Initializing platform...'}</div>
       </div>
     )
   }
 
-  switch (currentState) {
+  switch (route.name) {
     case 'home':
-      return <HomePage onStartGame={handleStartGame} />
-    
-    case 'avatar-selection':
+      return <HomePage onStartGame={handleStartGame} onOpenSettings={handleOpenSettings} />
+
+    case 'avatar':
       return (
-        <AvatarSelection 
+        <AvatarSelection
           onAvatarSelected={handleAvatarSelected}
           onBack={handleBackToHome}
         />
       )
-    
+
     case 'lobby':
-      return <Lobby onEnterGame={handleEnterGame} />
-    
+      return <Lobby onEnterGame={handleEnterGame} onOpenSettings={handleOpenSettings} notice={linkError} />
+
     case 'game':
+    case 'room':
       return <GameRoom onLeaveGame={handleLeaveGame} />
-    
-    default:
-      return <HomePage onStartGame={handleStartGame} />
+
+    case 'settings':
+      return <ProfileSettings onBack={handleCloseSettings} />
   }
 }
@@ -1,47 +1,43 @@
-import { useState, useEffect, memo } from 'react'
+import { useState, useEffect, useRef, memo } from 'react'
 import { Avatar } from '@/types'
-import { avatarLoader } from '@/utils/loaders/avatarLoader'
 import { gltfAvatarLoader } from '@/utils/loaders/gltfAvatarLoader'
+import {
+  AVATAR_QUALITY_TIERS,
+  findAvatarEntry,
+  selectableAvatars,
+  type AvatarManifestEntry
+} from '@/systems/Avatar/avatarManifest'
+import { useAvatarManifest } from '@/hooks/useAvatarManifest'
 import { SimpleAvatarTest } from '@/components/SimpleAvatarTest/SimpleAvatarTest'
-import { Group } from 'three'
+import { useProfileStore } from '@/stores/profileStore'
+import { MAX_DISPLAY_NAME_LENGTH, normalizeDisplayName, validateDisplayName } from '@/systems/Profile/profile'
 
 interface AvatarSelectionProps {
   onAvatarSelected: (avatar: Avatar) => void
   onBack: () => void
 }
 
-interface AvatarOption {
-  id: string
-  name: string
-  description: string
-  path: string
-  type: 'json' | 'gltf' | 'glb' | 'primitive'
-}
-
-const AVAILABLE_AVATARS: AvatarOption[] = [
-  {
-    id: 'dr',
-    name: 'Dr',
-    description: 'Animated GLTF avatar with working textures',
-    path: 'dr',
-    type: 'gltf'
-  },
-  {
-    id: 'crash_bandicoot',
-    name: 'Crash Bandicoot',
-    description: 'Animated GLTF avatar with working textures',
-    path: 'crash_bandicoot',
-    type: 'gltf'
-  }
-]
-
 export const AvatarSelection = memo(function AvatarSelection({ onAvatarSelected, onBack }: AvatarSelectionProps) {
   const [selectedAvatar, setSelectedAvatar] = useState<Avatar | null>(null)
   const [selectedOption, setSelectedOption] = useState<string | null>(null)
   const [loading, setLoading] = useState<string | null>(null)
   const [loadedAvatars, setLoadedAvatars] = useState<Record<string, Avatar>>({})
+  const { profile, setDisplayName, setAvatarId } = useProfileStore()
+  const [displayName, setDisplayNameDraft] = useState(profile.displayName)
+  const nameProblem = validateDisplayName(normalizeDisplayName(displayName))
+  const { manifest, error: manifestError } = useAvatarManifest()
+  const options = manifest ? selectableAvatars(manifest) : []
+  const preselected = useRef(false)
 
-  const loadAvatar = async (option: AvatarOption) => {
+  // Preselect the avatar picked last time, once the manifest says it still exists
+  useEffect(() => {
+    if (!manifest || preselected.current) return
+    preselected.current = true
+    const remembered = findAvatarEntry(manifest, profile.avatarId)
+    if (remembered && remembered.selectable !== false) loadAvatar(remembered)
+  }, [manifest])
+
+  const loadAvatar = async (option: AvatarManifestEntry) => {
     if (loadedAvatars[option.id]) {
       setSelectedAvatar(loadedAvatars[option.id])
       setSelectedOption(option.id)
@@ -51,38 +47,22 @@ export const AvatarSelection = memo(function AvatarSelection({ onAvatarSelected,
     // REMOVED try-catch - let errors crash!
     setLoading(option.id)
     console.log(`Loading ${option.name}...`)
-      
-      // Use the appropriate loader based on format
-      let avatar: Avatar
-      
-      if (option.type === 'primitive') {
-        // Create a simple primitive avatar - no loading needed
-        const primitiveGroup = new Group()
-        primitiveGroup.name = 'PrimitiveAvatar'
-        
-        avatar = {
-          id: option.id,
-          name: option.name,
-          model: primitiveGroup
-        }
-        console.log('Created primitive avatar:', avatar)
-      } else if (option.type === 'gltf') {
-        avatar = await gltfAvatarLoader.loadAvatar(option.path)
-      } else {
-        avatar = await avatarLoader.loadAvatar(option.path)
-      }
 
-      setLoadedAvatars(prev => ({ ...prev, [option.id]: avatar }))
-      setSelectedAvatar(avatar)
-      setSelectedOption(option.id)
-      console.log(`${option.name} loaded successfully:`, avatar)
+    const avatar = await gltfAvatarLoader.loadAvatar(option.id)
+
+    setLoadedAvatars(prev => ({ ...prev, [option.id]: avatar }))
+    setSelectedAvatar(avatar)
+    setSelectedOption(option.id)
+    console.log(`${option.name} loaded successfully:`, avatar)
     // REMOVED catch and finally - let errors crash!
     setLoading(null)
   }
 
   const handleConfirm = () => {
-    if (selectedAvatar) {
+    if (selectedAvatar && selectedOption && !nameProblem) {
       console.log('Confirming avatar selection:', selectedAvatar)
+      setDisplayName(normalizeDisplayName(displayName))
+      setAvatarId(selectedOption)
       onAvatarSelected(selectedAvatar)
     }
   }
@@ -91,9 +71,32 @@ export const AvatarSelection = memo(function AvatarSelection({ onAvatarSelected,
     <div className="min-h-screen bg-slate-900 flex">
       <div className="w-1/2 p-8">
         <h2 className="text-3xl font-bold text-white mb-6">Select Avatar</h2>
+
+        <div className="mb-6">
+          <label className="block text-sm text-slate-300 mb-2" htmlFor="display-name">Display name</label>
+          <input
+            id="display-name"
+            type="text"
+            placeholder="What should other players call you?"
+            maxLength={MAX_DISPLAY_NAME_LENGTH}
+            value={displayName}
+            onChange={(e) => setDisplayNameDraft(e.target.value)}
+            className="w-full bg-slate-800 text-white px-3 py-2 rounded border-none outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {displayName && nameProblem && (
+            <p className="text-sm text-red-400 mt-1">{nameProblem}</p>
+          )}
+        </div>
         
+        {manifestError && (
+          <p className="text-sm text-red-400 mb-4">Avatars could not be loaded: {manifestError}</p>
+        )}
+        {!manifest && !manifestError && (
+          <p className="text-slate-400 mb-4">⏳ Loading avatars...</p>
+        )}
+
         <div className="grid grid-cols-1 gap-4 mb-6">
-          {AVAILABLE_AVATARS.map((option) => (
+          {options.map((option) => (
             <div 
               key={option.id}
               className={`bg-slate-800 p-4 rounded-lg cursor-pointer transition-colors border-2 ${
@@ -104,12 +107,40 @@ export const AvatarSelection = memo(function AvatarSelection({ onAvatarSelected,
               onClick={() => loadAvatar(option)}
             >
               <div className="flex justify-between items-start">
-                <div>
+                {option.thumbnail ? (
+                  <img
+                    src={`/avatar/${option.thumbnail}`}
+                    alt=""
+                    className="w-16 h-16 mr-4 rounded object-cover bg-slate-900"
+                  />
+                ) : (
+                  <div className="w-16 h-16 mr-4 rounded bg-slate-900 flex items-center justify-center text-2xl font-bold text-slate-500">
+                    {option.name.charAt(0)}
+                  </div>
+                )}
+                <div className="flex-1">
                   <h3 className="text-lg font-semibold text-white mb-1">{option.name}</h3>
                   <p className="text-slate-300 text-sm mb-2">{option.description}</p>
                   <div className="text-xs text-slate-400">
-                    {option.type.toUpperCase()} • Avatar ID: {option.path}
+                    Avatar ID: {option.id} • {AVATAR_QUALITY_TIERS.filter(tier => option.files[tier]).join('/')} quality
                   </div>
+                  {option.attribution ? (
+                    <div className="text-xs text-slate-500 mt-1">
+                      By {option.attribution.url ? (
+                        <a
+                          href={option.attribution.url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="underline hover:text-slate-300"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          {option.attribution.author}
+                        </a>
+                      ) : option.attribution.author} • {option.attribution.license}
+                    </div>
+                  ) : (
+                    <div className="text-xs text-slate-500 mt-1">Author and license unknown</div>
+                  )}
                 </div>
                 <div className="ml-4">
                   {loading === option.id && (
@@ -136,7 +167,7 @@ export const AvatarSelection = memo(function AvatarSelection({ onAvatarSelected,
           </button>
           <button
             onClick={handleConfirm}
-            disabled={!selectedAvatar}
+            disabled={!selectedAvatar || !!nameProblem}
             className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white py-3 rounded-lg transition-colors font-semibold"
           >
             Enter Game →
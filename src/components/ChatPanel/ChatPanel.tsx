@@ -0,0 +1,142 @@
+import { memo, useEffect, useRef, useState } from 'react'
+import { useChatStore } from '@/stores/chatStore'
+import { useGameStore } from '@/stores/gameStore'
+import { useInputStore } from '@/stores/inputStore'
+import { getNetworkManager } from '@/hooks/useNetworking'
+import { inputController } from '@/systems/Input/InputController'
+import { formatKeyCode } from '@/systems/Input/inputMap'
+import { MAX_CHAT_LENGTH, type ChatChannel } from '@/systems/Chat/chat'
+
+const CHANNEL_LABELS: Record<ChatChannel, string> = {
+  lobby: 'Lobby',
+  room: 'Room'
+}
+
+interface ChatPanelProps {
+  // Tabs in display order; the first is selected when the current one goes away
+  channels: ChatChannel[]
+  className?: string
+}
+
+// Lobby and room chat. Clicking a sender's name offers mute (hide locally) and block
+// (the server stops delivering their messages to us).
+export const ChatPanel = memo(function ChatPanel({ channels, className = '' }: ChatPanelProps) {
+  const { lines, muted, blocked, activeChannel, setActiveChannel, setMuted, setBlocked } = useChatStore()
+  const { currentPlayer, isConnected } = useGameStore()
+  const chatKey = useInputStore(state => state.bindings.chat[0])
+  const [draft, setDraft] = useState('')
+  const [selectedSender, setSelectedSender] = useState<{ id: string; name: string } | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  const channel = channels.includes(activeChannel) ? activeChannel : channels[0]
+  const visibleLines = lines[channel].filter(line => !line.senderId || !muted.includes(line.senderId))
+
+  useEffect(() => {
+    if (channel !== activeChannel) setActiveChannel(channel)
+  }, [channel, activeChannel, setActiveChannel])
+
+  useEffect(() => inputController.onAction('chat', () => inputRef.current?.focus()), [])
+
+  useEffect(() => {
+    const scroller = scrollRef.current
+    if (scroller) scroller.scrollTop = scroller.scrollHeight
+  }, [visibleLines.length, channel])
+
+  const handleSend = () => {
+    if (!draft.trim()) return
+    getNetworkManager()?.sendChat(channel, draft)
+    setDraft('')
+  }
+
+  const handleBlock = (playerId: string, block: boolean) => {
+    setBlocked(playerId, block)
+    // Blocking also hides anything they already said
+    setMuted(playerId, block)
+    getNetworkManager()?.setChatBlocked(playerId, block)
+    setSelectedSender(null)
+  }
+
+  return (
+    <div className={`bg-slate-800 bg-opacity-90 rounded-lg p-3 flex flex-col ${className}`}>
+      {channels.length > 1 && (
+        <div className="flex bg-slate-700 rounded-lg p-1 mb-2">
+          {channels.map(option => (
+            <button
+              key={option}
+              onClick={() => setActiveChannel(option)}
+              className={`flex-1 px-3 py-1 text-sm rounded transition-colors ${
+                option === channel ? 'bg-blue-600 text-white' : 'text-slate-300'
+              }`}
+            >
+              {CHANNEL_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div ref={scrollRef} className="flex-1 min-h-0 overflow-y-auto space-y-1 text-sm mb-2">
+        {visibleLines.map(line => (
+          <div key={line.id} className="break-words">
+            {line.senderId === null ? (
+              <span className="text-yellow-300 italic">{line.text}</span>
+            ) : (
+              <>
+                <button
+                  onClick={() => line.senderId !== currentPlayer?.id && setSelectedSender({ id: line.senderId!, name: line.senderName })}
+                  className={`font-semibold ${line.senderId === currentPlayer?.id ? 'text-blue-300' : 'text-slate-200 hover:text-white'}`}
+                >
+                  {line.senderName}:
+                </button>{' '}
+                <span className="text-slate-300">{line.text}</span>
+              </>
+            )}
+          </div>
+        ))}
+
+        {visibleLines.length === 0 && (
+          <div className="text-slate-500">No messages yet</div>
+        )}
+      </div>
+
+      {selectedSender && (
+        <div className="flex items-center gap-2 bg-slate-700 rounded p-2 mb-2 text-sm text-white">
+          <span className="flex-1 truncate">{selectedSender.name}</span>
+          <button
+            onClick={() => {
+              setMuted(selectedSender.id, !muted.includes(selectedSender.id))
+              setSelectedSender(null)
+            }}
+            className="bg-slate-600 hover:bg-slate-500 px-2 py-1 rounded transition-colors"
+          >
+            {muted.includes(selectedSender.id) ? 'Unmute' : 'Mute'}
+          </button>
+          <button
+            onClick={() => handleBlock(selectedSender.id, !blocked.includes(selectedSender.id))}
+            className="bg-red-600 hover:bg-red-700 px-2 py-1 rounded transition-colors"
+          >
+            {blocked.includes(selectedSender.id) ? 'Unblock' : 'Block'}
+          </button>
+          <button onClick={() => setSelectedSender(null)} className="text-slate-400 hover:text-white">
+            ✕
+          </button>
+        </div>
+      )}
+
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder={isConnected ? `Message ${CHANNEL_LABELS[channel].toLowerCase()}${chatKey ? ` (${formatKeyCode(chatKey)})` : ''}` : 'Chat is offline'}
+        maxLength={MAX_CHAT_LENGTH}
+        value={draft}
+        disabled={!isConnected}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleSend()
+          if (e.key === 'Escape') e.currentTarget.blur()
+        }}
+        className="w-full bg-slate-700 text-white text-sm px-3 py-2 rounded border-none outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      />
+    </div>
+  )
+})
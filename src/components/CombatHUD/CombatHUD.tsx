@@ -0,0 +1,85 @@
+import { memo, useEffect, useState } from 'react'
+import { useCombatStore } from '@/stores/combatStore'
+import { useGameStore } from '@/stores/gameStore'
+import { effectPool } from '@/systems/Effects/effectPool'
+import { useInputStore } from '@/stores/inputStore'
+import { useCountdown } from '@/hooks/useCountdown'
+import { getWeaponDefinition } from '@/systems/Combat/weapons'
+import { formatKeyCode } from '@/systems/Input/inputMap'
+
+// How long the screen edge flashes when an effect visibly connects with the local player, ms
+const HIT_FLASH_MS = 150
+
+// Flashes when a projectile, shockwave or breath is seen hitting the local player, ahead
+// of the server's damage arriving
+function useEffectHitFlash(): boolean {
+  const [flashing, setFlashing] = useState(false)
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const off = effectPool.onHit((_effect, targetId) => {
+      if (targetId !== useGameStore.getState().currentPlayer?.id) return
+      setFlashing(true)
+      clearTimeout(timer)
+      timer = setTimeout(() => setFlashing(false), HIT_FLASH_MS)
+    })
+    return () => {
+      off()
+      clearTimeout(timer)
+    }
+  }, [])
+  return flashing
+}
+
+// Health, current weapon, crosshair, kill feed, hit flash and the death screen
+export const CombatHUD = memo(function CombatHUD() {
+  const { health, maxHealth, weaponId, respawnAt, feed } = useCombatStore()
+  const switchKey = useInputStore(state => state.bindings.switchWeapon[0])
+  const countdown = useCountdown(respawnAt)
+  const weapon = getWeaponDefinition(weaponId)
+  const fraction = maxHealth > 0 ? Math.max(0, Math.min(1, health / maxHealth)) : 0
+  const hitFlash = useEffectHitFlash()
+
+  return (
+    <>
+      <div
+        className={`absolute inset-0 z-10 pointer-events-none transition-opacity duration-150 ${hitFlash ? 'opacity-100' : 'opacity-0'}`}
+        style={{ boxShadow: 'inset 0 0 120px rgba(220, 38, 38, 0.8)' }}
+      />
+      {respawnAt === null ? (
+        <div className="absolute top-1/2 left-1/2 z-10 -translate-x-1/2 -translate-y-1/2 pointer-events-none text-white text-xl opacity-70">
+          +
+        </div>
+      ) : (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-red-900 bg-opacity-40 pointer-events-none">
+          <div className="text-center text-white">
+            <div className="text-3xl font-bold mb-2">You were taken down</div>
+            <div>Respawning in {countdown}…</div>
+          </div>
+        </div>
+      )}
+
+      <div className="absolute bottom-4 left-1/2 z-10 -translate-x-1/2 bg-black bg-opacity-50 text-white px-4 py-2 rounded-lg w-72 pointer-events-none">
+        <div className="flex justify-between text-sm mb-1">
+          <span>{weapon?.name ?? weaponId}{switchKey && <span className="text-slate-400"> ({formatKeyCode(switchKey)} to switch)</span>}</span>
+          <span>{Math.ceil(health)} / {maxHealth}</span>
+        </div>
+        <div className="bg-gray-700 rounded h-2 overflow-hidden">
+          <div
+            className={`h-full transition-all ${fraction > 0.3 ? 'bg-green-500' : 'bg-red-500'}`}
+            style={{ width: `${fraction * 100}%` }}
+          />
+        </div>
+      </div>
+
+      {feed.length > 0 && (
+        <div className="absolute top-20 left-4 z-10 space-y-1 pointer-events-none">
+          {feed.map(entry => (
+            <div key={entry.id} className="bg-black bg-opacity-50 text-white text-sm px-3 py-1 rounded">
+              {entry.text}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  )
+})
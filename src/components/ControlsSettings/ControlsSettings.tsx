@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react'
+import { useInputStore } from '@/stores/inputStore'
+import { inputController } from '@/systems/Input/InputController'
+import { INPUT_ACTIONS, KEY_SLOTS, formatKeyCode, type InputAction } from '@/systems/Input/inputMap'
+import { MAX_LOOK_SENSITIVITY, MIN_LOOK_SENSITIVITY } from '@/systems/Input/lookSettings'
+
+interface ControlsSettingsProps {
+  onClose: () => void
+}
+
+// Key rebinding panel. Click a slot, press a key (Escape cancels, right-click clears).
+// Mouse-look sensitivity and inversion apply wherever the pointer is locked.
+export function ControlsSettings({ onClose }: ControlsSettingsProps) {
+  const { bindings, look, gamepadConnected, rebind, unbind, resetBindings, setLookSettings, resetLookSettings } = useInputStore()
+  const [listening, setListening] = useState<{ action: InputAction; slot: number } | null>(null)
+
+  useEffect(() => {
+    if (!listening) return
+    let cancelled = false
+    inputController.captureNextKey().then(code => {
+      if (cancelled) return
+      if (code) rebind(listening.action, listening.slot, code)
+      setListening(null)
+    })
+    return () => {
+      cancelled = true
+      inputController.cancelCapture()
+    }
+  }, [listening, rebind])
+
+  return (
+    <div className="bg-slate-800 bg-opacity-95 text-white rounded-lg p-6 w-96 shadow-xl">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold">Controls</h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+          ✕
+        </button>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {INPUT_ACTIONS.map(({ action, label }) => (
+          <div key={action} className="flex items-center justify-between text-sm">
+            <span className="text-slate-300">{label}</span>
+            <div className="flex gap-2">
+              {Array.from({ length: KEY_SLOTS }, (_, slot) => {
+                const code = bindings[action][slot]
+                const isListening = listening?.action === action && listening.slot === slot
+                return (
+                  <button
+                    key={slot}
+                    onClick={() => setListening({ action, slot })}
+                    onContextMenu={(e) => {
+                      e.preventDefault()
+                      if (code) unbind(action, slot)
+                    }}
+                    className={`w-24 px-2 py-1 rounded transition-colors ${
+                      isListening ? 'bg-blue-600 animate-pulse' : 'bg-slate-700 hover:bg-slate-600'
+                    }`}
+                  >
+                    {isListening ? 'Press a key' : code ? formatKeyCode(code) : '—'}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2 mb-4 text-sm">
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-slate-300">Mouse sensitivity</span>
+          <input
+            type="range"
+            min={MIN_LOOK_SENSITIVITY}
+            max={MAX_LOOK_SENSITIVITY}
+            step={0.1}
+            value={look.sensitivity}
+            onChange={(e) => setLookSettings({ sensitivity: Number(e.target.value) })}
+            className="flex-1"
+          />
+          <span className="w-8 text-right text-slate-400">{look.sensitivity.toFixed(1)}</span>
+        </label>
+        <label className="flex items-center justify-between">
+          <span className="text-slate-300">Invert mouse Y</span>
+          <input
+            type="checkbox"
+            checked={look.invertY}
+            onChange={(e) => setLookSettings({ invertY: e.target.checked })}
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className={gamepadConnected ? 'text-green-400' : 'text-slate-500'}>
+          {gamepadConnected ? 'Gamepad connected' : 'No gamepad detected'}
+        </span>
+        <button
+          onClick={() => {
+            resetBindings()
+            resetLookSettings()
+          }}
+          className="bg-slate-600 hover:bg-slate-500 px-3 py-1 rounded transition-colors"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,12 +1,22 @@
-import { useState, memo, useMemo } from 'react'
+import { useState, memo, useMemo, useEffect } from 'react'
 import { useGameStore } from '@/stores/gameStore'
 import { useWebGLFallbackDetection } from '@/hooks/useWebGLFallbackDetection'
 import { ModernFirstPersonView } from '@/views/FirstPerson/ModernFirstPersonView'
 import { ThirdPersonView } from '@/views/ThirdPerson/ThirdPersonView'
 import { NonWebGLGameView } from '@/views/NonWebGL/NonWebGLGameView'
+import { SpectatorView } from '@/views/Spectator/SpectatorView'
 import { DebugInfo } from '@/components/DebugInfo/DebugInfo'
 import { DebugUI } from '@/components/DebugUI/DebugUI'
 import { WebGLMonitor } from '@/components/WebGLMonitor/WebGLMonitor'
+import { ControlsSettings } from '@/components/ControlsSettings/ControlsSettings'
+import { CombatHUD } from '@/components/CombatHUD/CombatHUD'
+import { MatchHUD } from '@/components/MatchHUD/MatchHUD'
+import { MatchSummary } from '@/components/MatchSummary/MatchSummary'
+import { ChatPanel } from '@/components/ChatPanel/ChatPanel'
+import { useInputStore } from '@/stores/inputStore'
+import { inputController } from '@/systems/Input/InputController'
+import { formatKeyCode } from '@/systems/Input/inputMap'
+import { isMobile } from '@/utils/mobile/deviceDetection'
 import { restoreContext } from '@/utils/webglDebugger'
 
 interface GameRoomProps {
@@ -14,9 +24,18 @@ interface GameRoomProps {
 }
 
 export const GameRoom = memo(function GameRoom({ onLeaveGame }: GameRoomProps) {
-  const { view, setView, currentPlayer } = useGameStore()
+  const { view: chosenView, setView, currentPlayer, currentRoom, spectatingRoom } = useGameStore()
   const { isWebGLSupported, forceNonWebGL, capabilities, isDetecting, setForceNonWebGL } = useWebGLFallbackDetection()
   const [manualOverride, setManualOverride] = useState<'webgl' | 'nonwebgl' | null>(null)
+  const [showControls, setShowControls] = useState(false)
+  const bindings = useInputStore(state => state.bindings)
+  // Watching a room without a slot leaves no avatar of ours in it to play
+  const view = spectatingRoom ? 'spectator' : chosenView
+
+  useEffect(() => inputController.onAction('toggleView', () => {
+    const { view, setView, spectatingRoom } = useGameStore.getState()
+    if (!spectatingRoom) setView(view === 'first' ? 'third' : 'first')
+  }), [])
 
   const effectiveRenderMode = useMemo(() => 
     manualOverride || (forceNonWebGL ? 'nonwebgl' : 'webgl'),
@@ -28,6 +47,8 @@ export const GameRoom = memo(function GameRoom({ onLeaveGame }: GameRoomProps) {
       <div className="absolute top-4 left-4 z-10 flex items-center gap-4">
         <div className="bg-black bg-opacity-50 text-white px-4 py-2 rounded-lg">
           Player: {currentPlayer?.name || 'Unknown'}
+          {currentRoom && <span className="text-slate-300"> • {currentRoom.name}</span>}
+          {spectatingRoom && <span className="text-slate-300"> • Spectating {spectatingRoom.name}</span>}
         </div>
         
         <div className="flex bg-black bg-opacity-50 rounded-lg p-1">
@@ -50,7 +71,7 @@ export const GameRoom = memo(function GameRoom({ onLeaveGame }: GameRoomProps) {
           </button>
         </div>
         
-        {effectiveRenderMode === 'webgl' && (
+        {effectiveRenderMode === 'webgl' && !spectatingRoom && (
           <div className="flex bg-black bg-opacity-50 rounded-lg p-1 ml-2">
             <button
               onClick={() => setView('third')}
@@ -68,6 +89,14 @@ export const GameRoom = memo(function GameRoom({ onLeaveGame }: GameRoomProps) {
             >
               1st
             </button>
+            <button
+              onClick={() => setView('spectator')}
+              className={`px-3 py-1 text-sm rounded transition-colors ${
+                view === 'spectator' ? 'bg-blue-600 text-white' : 'text-white hover:bg-gray-700'
+              }`}
+            >
+              Spectate
+            </button>
           </div>
         )}
       </div>
@@ -111,6 +140,13 @@ export const GameRoom = memo(function GameRoom({ onLeaveGame }: GameRoomProps) {
           </button>
         )}
         
+        <button
+          onClick={() => setShowControls(!showControls)}
+          className="bg-slate-600 hover:bg-slate-500 text-white px-3 py-2 rounded-lg transition-colors text-sm"
+        >
+          Controls
+        </button>
+        
         <button
           onClick={onLeaveGame}
           className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg transition-colors"
@@ -119,28 +155,62 @@ export const GameRoom = memo(function GameRoom({ onLeaveGame }: GameRoomProps) {
         </button>
       </div>
 
-      <div className="absolute bottom-4 left-4 z-10 bg-black bg-opacity-50 text-white p-4 rounded-lg max-w-sm">
-        <h3 className="font-semibold mb-2">Controls</h3>
-        {effectiveRenderMode === 'nonwebgl' ? (
-          <div className="text-sm space-y-1">
-            <div>WASD/Arrow Keys: Move camera</div>
-            <div>+/-: Zoom in/out</div>
-            <div>No WebGL required!</div>
-          </div>
-        ) : view === 'first' ? (
-          <div className="text-sm space-y-1">
-            <div>Click to lock mouse cursor</div>
-            <div>WASD: Move around</div>
-            <div>Mouse: Look around</div>
-          </div>
-        ) : (
-          <div className="text-sm space-y-1">
-            <div>Left click + drag: Rotate view</div>
-            <div>Right click + drag: Pan</div>
-            <div>Scroll wheel: Zoom</div>
-          </div>
-        )}
-      </div>
+      {showControls && (
+        <div className="absolute top-20 right-4 z-20">
+          <ControlsSettings onClose={() => setShowControls(false)} />
+        </div>
+      )}
+
+      {/* Keyboard help would sit on top of the virtual joystick on touch devices */}
+      {!(isMobile() && effectiveRenderMode === 'webgl' && view === 'third') && (
+        <div className="absolute bottom-4 left-4 z-10 bg-black bg-opacity-50 text-white p-4 rounded-lg max-w-sm">
+          <h3 className="font-semibold mb-2">Controls</h3>
+          {effectiveRenderMode === 'nonwebgl' ? (
+            <div className="text-sm space-y-1">
+              <div>WASD/Arrow Keys: Move camera</div>
+              <div>+/-: Zoom in/out</div>
+              <div>No WebGL required!</div>
+            </div>
+          ) : view === 'spectator' ? (
+            <div className="text-sm space-y-1">
+              {bindings.spectateNext[0] && <div>{formatKeyCode(bindings.spectateNext[0])}: Follow next player</div>}
+              {bindings.spectatePrevious[0] && <div>{formatKeyCode(bindings.spectatePrevious[0])}: Follow previous player</div>}
+              {bindings.freeCamera[0] && <div>{formatKeyCode(bindings.freeCamera[0])}: Free camera</div>}
+              <div>Free camera: click to lock mouse, WASD to fly, Space to rise</div>
+              {!spectatingRoom && bindings.toggleView[0] && <div>{formatKeyCode(bindings.toggleView[0])}: Back to playing</div>}
+              {bindings.chat[0] && <div>{formatKeyCode(bindings.chat[0])}: Chat</div>}
+            </div>
+          ) : view === 'first' ? (
+            <div className="text-sm space-y-1">
+              <div>Click to lock mouse cursor</div>
+              <div>WASD: Move around</div>
+              <div>Mouse: Look around</div>
+              {bindings.attack[0] && <div>{formatKeyCode(bindings.attack[0])}: Attack</div>}
+              {bindings.toggleView[0] && <div>{formatKeyCode(bindings.toggleView[0])}: Toggle view</div>}
+              {bindings.chat[0] && <div>{formatKeyCode(bindings.chat[0])}: Chat</div>}
+            </div>
+          ) : (
+            <div className="text-sm space-y-1">
+              <div>Click to lock mouse cursor</div>
+              <div>Mouse: Orbit the camera</div>
+              <div>Scroll wheel: Zoom</div>
+              {bindings.attack[0] && <div>{formatKeyCode(bindings.attack[0])}: Attack</div>}
+              {bindings.toggleView[0] && <div>{formatKeyCode(bindings.toggleView[0])}: Toggle view</div>}
+              {bindings.chat[0] && <div>{formatKeyCode(bindings.chat[0])}: Chat</div>}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Combat and matches only happen in rooms */}
+      {currentRoom && !isDetecting && effectiveRenderMode === 'webgl' && <CombatHUD />}
+      {(currentRoom || spectatingRoom) && <MatchHUD />}
+      {currentRoom && <MatchSummary onLeaveGame={onLeaveGame} />}
+
+      <ChatPanel
+        channels={currentRoom || spectatingRoom ? ['room', 'lobby'] : ['lobby']}
+        className="absolute bottom-20 right-4 z-10 w-80 h-64 bg-opacity-70"
+      />
 
       <div className="w-full h-full">
         {isDetecting && (
@@ -154,6 +224,7 @@ export const GameRoom = memo(function GameRoom({ onLeaveGame }: GameRoomProps) {
         {!isDetecting && effectiveRenderMode === 'nonwebgl' && <NonWebGLGameView />}
         {!isDetecting && effectiveRenderMode === 'webgl' && view === 'first' && <ModernFirstPersonView />}
         {!isDetecting && effectiveRenderMode === 'webgl' && view === 'third' && <ThirdPersonView />}
+        {!isDetecting && effectiveRenderMode === 'webgl' && view === 'spectator' && <SpectatorView />}
       </div>
 
       <DebugUI />
@@ -1,8 +1,9 @@
 interface HomePageProps {
   onStartGame: () => void
+  onOpenSettings: () => void
 }
 
-export function HomePage({ onStartGame }: HomePageProps) {
+export function HomePage({ onStartGame, onOpenSettings }: HomePageProps) {
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-700 flex items-center justify-center p-4">
       <div className="text-center max-w-4xl mx-auto">
@@ -38,6 +39,15 @@ export function HomePage({ onStartGame }: HomePageProps) {
         >
           Select Avatar & Enter
         </button>
+
+        <div className="mt-6">
+          <button
+            onClick={onOpenSettings}
+            className="text-slate-300 hover:text-white transition-colors"
+          >
+            Settings
+          </button>
+        </div>
       </div>
     </div>
   )
@@ -1,23 +1,77 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useGameStore } from '@/stores/gameStore'
+import { getNetworkManager } from '@/hooks/useNetworking'
+import { DEFAULT_MAX_PLAYERS, INVITE_CODE_LENGTH, MAX_ROOM_PLAYERS } from '@/systems/Networking/protocol'
+import { DEFAULT_GAME_MODE_ID, GAME_MODES, getGameMode } from '@/systems/GameMode/gameModes'
+import { ChatPanel } from '@/components/ChatPanel/ChatPanel'
+import { roomLink } from '@/systems/Routing/routes'
 
 interface LobbyProps {
   onEnterGame: () => void
+  onOpenSettings: () => void
+  // Why a room link couldn't be followed, shown until a room error replaces it
+  notice?: string | null
 }
 
-export function Lobby({ onEnterGame }: LobbyProps) {
-  const { lobby, currentPlayer, view, setView } = useGameStore()
+export function Lobby({ onEnterGame, onOpenSettings, notice }: LobbyProps) {
+  const { lobby, currentPlayer, currentRoom, spectatingRoom, availableRooms, view, setView, isConnected } = useGameStore()
   const [showCreateRoom, setShowCreateRoom] = useState(false)
   const [roomName, setRoomName] = useState('')
+  const [isPrivate, setIsPrivate] = useState(false)
+  const [maxPlayers, setMaxPlayers] = useState(DEFAULT_MAX_PLAYERS)
+  const [modeId, setModeId] = useState(DEFAULT_GAME_MODE_ID)
+  const [inviteCode, setInviteCode] = useState('')
+  const [roomError, setRoomError] = useState<string | null>(null)
+  const [copied, setCopied] = useState<'code' | 'link' | null>(null)
+
+  // Surface room errors (full, private, bad invite) next to the controls that caused them;
+  // chat errors show up in the chat panel instead
+  useEffect(() => {
+    const networkManager = getNetworkManager()
+    if (!networkManager) return
+    networkManager.requestRoomList()
+    return networkManager.on('error', ({ code, message }) => {
+      if (code !== 'chat_rate_limited' && code !== 'chat_rejected') setRoomError(message)
+    })
+  }, [isConnected])
+
+  useEffect(() => {
+    setRoomError(null)
+    setCopied(null)
+  }, [currentRoom?.id])
 
   const handleCreateRoom = () => {
     if (roomName.trim()) {
-      console.log('Creating room:', roomName)
+      getNetworkManager()?.createRoom(roomName.trim(), isPrivate, maxPlayers, modeId)
       setShowCreateRoom(false)
       setRoomName('')
+      setIsPrivate(false)
+    }
+  }
+
+  const handleJoinByCode = () => {
+    if (inviteCode.trim()) {
+      getNetworkManager()?.joinRoomByInvite(inviteCode)
+      setInviteCode('')
     }
   }
 
+  const handleCopyInvite = async () => {
+    if (!currentRoom?.inviteCode) return
+    await navigator.clipboard?.writeText(currentRoom.inviteCode)
+    setCopied('code')
+  }
+
+  const handleCopyLink = async () => {
+    if (!currentRoom) return
+    await navigator.clipboard?.writeText(roomLink(currentRoom))
+    setCopied('link')
+  }
+
+  const shownError = roomError ?? notice
+
+  const visibleRooms = availableRooms.filter(room => room.id !== currentRoom?.id)
+
   return (
     <div className="min-h-screen bg-slate-900 p-6">
       <div className="max-w-6xl mx-auto">
@@ -26,7 +80,7 @@ export function Lobby({ onEnterGame }: LobbyProps) {
             <h1 className="text-3xl font-bold text-white">Game Lobby</h1>
             <p className="text-slate-300">Welcome, {currentPlayer?.name || 'Player'}</p>
           </div>
-          
+
           <div className="flex items-center gap-4">
             <div className="flex bg-slate-700 rounded-lg p-1">
               <button
@@ -46,12 +100,19 @@ export function Lobby({ onEnterGame }: LobbyProps) {
                 1st Person
               </button>
             </div>
-            
+
+            <button
+              onClick={onOpenSettings}
+              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              Settings
+            </button>
+
             <button
               onClick={onEnterGame}
               className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg transition-colors"
             >
-              Enter Game
+              {currentRoom ? `Enter ${currentRoom.name}` : spectatingRoom ? `Watch ${spectatingRoom.name}` : 'Enter Game'}
             </button>
           </div>
         </div>
@@ -62,7 +123,7 @@ export function Lobby({ onEnterGame }: LobbyProps) {
               <h2 className="text-xl font-semibold text-white mb-4">
                 Players in Lobby ({lobby.length})
               </h2>
-              
+
               <div className="grid md:grid-cols-2 gap-4">
                 {lobby.map(player => (
                   <div key={player.id} className="bg-slate-700 p-4 rounded-lg">
@@ -71,11 +132,11 @@ export function Lobby({ onEnterGame }: LobbyProps) {
                         <div className="font-semibold text-white">{player.name}</div>
                         <div className="text-sm text-slate-400">{player.avatar.name}</div>
                       </div>
-                      <div className="w-3 h-3 bg-green-400 rounded-full"></div>
+                      <div className={`w-3 h-3 rounded-full ${player.room ? 'bg-blue-400' : 'bg-green-400'}`}></div>
                     </div>
                   </div>
                 ))}
-                
+
                 {lobby.length === 0 && (
                   <div className="col-span-2 text-center text-slate-400 py-8">
                     No other players in lobby
@@ -83,45 +144,243 @@ export function Lobby({ onEnterGame }: LobbyProps) {
                 )}
               </div>
             </div>
+
+            <div className="bg-slate-800 rounded-lg p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold text-white">
+                  Open Rooms ({visibleRooms.length})
+                </h2>
+                <button
+                  onClick={() => getNetworkManager()?.requestRoomList()}
+                  disabled={!isConnected}
+                  className="text-sm text-slate-300 hover:text-white disabled:text-slate-600 transition-colors"
+                >
+                  Refresh
+                </button>
+              </div>
+
+              <div className="space-y-3">
+                {visibleRooms.map(room => {
+                  const isFull = room.players.length >= room.maxPlayers
+                  return (
+                    <div key={room.id} className="bg-slate-700 p-4 rounded-lg flex items-center justify-between">
+                      <div>
+                        <div className="font-semibold text-white">
+                          {room.name}
+                          <span className="ml-2 text-xs font-normal text-slate-400">{getGameMode(room.modeId)?.name}</span>
+                        </div>
+                        <div className="text-sm text-slate-400">
+                          {room.players.map(p => p.name).join(', ') || 'Empty'}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <span className={`text-sm ${isFull ? 'text-red-400' : 'text-slate-300'}`}>
+                          {room.players.length}/{room.maxPlayers}
+                        </span>
+                        {isFull ? (
+                          <button
+                            onClick={() => getNetworkManager()?.spectateRoom(room.id)}
+                            disabled={!!currentRoom || spectatingRoom?.id === room.id || !isConnected}
+                            className="bg-slate-600 hover:bg-slate-500 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded transition-colors"
+                          >
+                            {spectatingRoom?.id === room.id ? 'Watching' : 'Spectate'}
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => getNetworkManager()?.joinRoom(room.id)}
+                            disabled={!!currentRoom || !isConnected}
+                            className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded transition-colors"
+                          >
+                            Join
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+
+                {visibleRooms.length === 0 && (
+                  <div className="text-center text-slate-400 py-8">
+                    {isConnected ? 'No public rooms - create one!' : 'Connect to the server to browse rooms'}
+                  </div>
+                )}
+              </div>
+            </div>
           </div>
 
           <div>
-            <div className="bg-slate-800 rounded-lg p-6 mb-6">
-              <h3 className="text-lg font-semibold text-white mb-4">Create Room</h3>
-              
-              {!showCreateRoom ? (
+            {shownError && (
+              <div className="bg-red-900 bg-opacity-50 text-red-200 text-sm rounded-lg p-3 mb-6">
+                {shownError}
+              </div>
+            )}
+
+            {currentRoom ? (
+              <div className="bg-slate-800 rounded-lg p-6 mb-6">
+                <h3 className="text-lg font-semibold text-white mb-1">{currentRoom.name}</h3>
+                <p className="text-sm text-slate-400 mb-4">
+                  {getGameMode(currentRoom.modeId)?.name} • {currentRoom.isPrivate ? 'Private' : 'Public'} • {currentRoom.players.length}/{currentRoom.maxPlayers} players
+                </p>
+
+                <ul className="space-y-1 mb-4 text-sm text-slate-300">
+                  {currentRoom.players.map(player => (
+                    <li key={player.id}>
+                      {player.name}{player.id === currentPlayer?.id && ' (you)'}
+                    </li>
+                  ))}
+                </ul>
+
+                {currentRoom.inviteCode && (
+                  <div className="flex items-center gap-2 mb-4">
+                    <code className="flex-1 bg-slate-700 text-white px-3 py-2 rounded tracking-widest text-center">
+                      {currentRoom.inviteCode}
+                    </code>
+                    <button
+                      onClick={handleCopyInvite}
+                      className="bg-slate-600 hover:bg-slate-500 text-white px-3 py-2 rounded transition-colors text-sm"
+                    >
+                      {copied === 'code' ? 'Copied' : 'Copy'}
+                    </button>
+                  </div>
+                )}
+
                 <button
-                  onClick={() => setShowCreateRoom(true)}
-                  className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-lg transition-colors"
+                  onClick={handleCopyLink}
+                  className="w-full bg-slate-600 hover:bg-slate-500 text-white py-2 rounded-lg transition-colors text-sm mb-2"
                 >
-                  Create Private Room
+                  {copied === 'link' ? 'Link copied' : 'Copy room link'}
                 </button>
-              ) : (
-                <div className="space-y-3">
-                  <input
-                    type="text"
-                    placeholder="Room name"
-                    value={roomName}
-                    onChange={(e) => setRoomName(e.target.value)}
-                    className="w-full bg-slate-700 text-white px-3 py-2 rounded border-none outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                  <div className="flex gap-2">
+
+                <button
+                  onClick={() => getNetworkManager()?.leaveRoom()}
+                  className="w-full bg-red-600 hover:bg-red-700 text-white py-2 rounded-lg transition-colors"
+                >
+                  Leave Room
+                </button>
+              </div>
+            ) : (
+              <>
+                {spectatingRoom && (
+                  <div className="bg-slate-800 rounded-lg p-6 mb-6">
+                    <h3 className="text-lg font-semibold text-white mb-1">Spectating {spectatingRoom.name}</h3>
+                    <p className="text-sm text-slate-400 mb-4">
+                      {spectatingRoom.players.length}/{spectatingRoom.maxPlayers} players • join when a slot opens
+                    </p>
+
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => spectatingRoom.inviteCode
+                          ? getNetworkManager()?.joinRoomByInvite(spectatingRoom.inviteCode)
+                          : getNetworkManager()?.joinRoom(spectatingRoom.id)}
+                        disabled={spectatingRoom.players.length >= spectatingRoom.maxPlayers || !isConnected}
+                        className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white py-2 rounded-lg transition-colors"
+                      >
+                        Join
+                      </button>
+                      <button
+                        onClick={() => getNetworkManager()?.stopSpectating()}
+                        className="flex-1 bg-red-600 hover:bg-red-700 text-white py-2 rounded-lg transition-colors"
+                      >
+                        Stop Watching
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="bg-slate-800 rounded-lg p-6 mb-6">
+                  <h3 className="text-lg font-semibold text-white mb-4">Create Room</h3>
+
+                  {!showCreateRoom ? (
                     <button
-                      onClick={handleCreateRoom}
-                      className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-2 rounded transition-colors"
+                      onClick={() => setShowCreateRoom(true)}
+                      disabled={!isConnected}
+                      className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white py-3 rounded-lg transition-colors"
                     >
-                      Create
+                      Create Room
                     </button>
+                  ) : (
+                    <div className="space-y-3">
+                      <input
+                        type="text"
+                        placeholder="Room name"
+                        value={roomName}
+                        onChange={(e) => setRoomName(e.target.value)}
+                        className="w-full bg-slate-700 text-white px-3 py-2 rounded border-none outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <select
+                        value={modeId}
+                        onChange={(e) => setModeId(e.target.value)}
+                        className="w-full bg-slate-700 text-white px-3 py-2 rounded border-none outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {Object.values(GAME_MODES).map(mode => (
+                          <option key={mode.id} value={mode.id}>{mode.name}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-slate-400">{getGameMode(modeId)?.description}</p>
+                      <div className="flex items-center justify-between text-sm text-slate-300">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={isPrivate}
+                            onChange={(e) => setIsPrivate(e.target.checked)}
+                          />
+                          Private (invite only)
+                        </label>
+                        <label className="flex items-center gap-2">
+                          Max
+                          <input
+                            type="number"
+                            min={1}
+                            max={MAX_ROOM_PLAYERS}
+                            value={maxPlayers}
+                            onChange={(e) => setMaxPlayers(Number(e.target.value) || DEFAULT_MAX_PLAYERS)}
+                            className="w-16 bg-slate-700 text-white px-2 py-1 rounded border-none outline-none"
+                          />
+                        </label>
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={handleCreateRoom}
+                          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-2 rounded transition-colors"
+                        >
+                          Create
+                        </button>
+                        <button
+                          onClick={() => setShowCreateRoom(false)}
+                          className="flex-1 bg-slate-600 hover:bg-slate-500 text-white py-2 rounded transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="bg-slate-800 rounded-lg p-6 mb-6">
+                  <h3 className="text-lg font-semibold text-white mb-4">Join with Invite Code</h3>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      placeholder="ABC123"
+                      maxLength={INVITE_CODE_LENGTH}
+                      value={inviteCode}
+                      onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                      onKeyDown={(e) => e.key === 'Enter' && handleJoinByCode()}
+                      className="flex-1 min-w-0 bg-slate-700 text-white px-3 py-2 rounded border-none outline-none focus:ring-2 focus:ring-blue-500 tracking-widest"
+                    />
                     <button
-                      onClick={() => setShowCreateRoom(false)}
-                      className="flex-1 bg-slate-600 hover:bg-slate-500 text-white py-2 rounded transition-colors"
+                      onClick={handleJoinByCode}
+                      disabled={!isConnected}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white px-4 py-2 rounded transition-colors"
                     >
-                      Cancel
+                      Join
                     </button>
                   </div>
                 </div>
-              )}
-            </div>
+              </>
+            )}
+
+            <ChatPanel channels={currentRoom ? ['room', 'lobby'] : ['lobby']} className="h-80 mb-6" />
 
             <div className="bg-slate-800 rounded-lg p-6">
               <h3 className="text-lg font-semibold text-white mb-4">Quick Stats</h3>
@@ -132,7 +391,9 @@ export function Lobby({ onEnterGame }: LobbyProps) {
                 </div>
                 <div className="flex justify-between text-slate-300">
                   <span>Connection:</span>
-                  <span className="text-green-400">Connected</span>
+                  <span className={isConnected ? 'text-green-400' : 'text-yellow-400'}>
+                    {isConnected ? 'Connected' : 'Offline'}
+                  </span>
                 </div>
               </div>
             </div>
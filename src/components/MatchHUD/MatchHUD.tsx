@@ -0,0 +1,58 @@
+import { memo, useEffect, useState } from 'react'
+import { useMatchStore } from '@/stores/matchStore'
+import { useGameStore } from '@/stores/gameStore'
+import { useCountdown } from '@/hooks/useCountdown'
+import { inputController } from '@/systems/Input/InputController'
+import { getGameMode } from '@/systems/GameMode/gameModes'
+import { Scoreboard } from '@/components/Scoreboard/Scoreboard'
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+
+// Objective banner (mode, round, timer, objective health) plus the toggleable scoreboard
+export const MatchHUD = memo(function MatchHUD() {
+  const { match, phaseEndsAt } = useMatchStore()
+  const localPlayerId = useGameStore(state => state.currentPlayer?.id)
+  const remaining = useCountdown(phaseEndsAt)
+  const [showScoreboard, setShowScoreboard] = useState(false)
+
+  useEffect(() => inputController.onAction('scoreboard', () => setShowScoreboard(shown => !shown)), [])
+
+  // The post-match summary takes over once the match ends
+  if (!match || match.phase === 'ended') return null
+
+  const mode = getGameMode(match.modeId)
+  const objectiveFraction = match.objectiveHealth
+    ? Math.max(0, Math.min(1, match.objectiveHealth.current / match.objectiveHealth.max))
+    : null
+
+  return (
+    <>
+      <div className="absolute top-20 left-1/2 z-10 -translate-x-1/2 bg-black bg-opacity-50 text-white px-4 py-2 rounded-lg text-center min-w-64 pointer-events-none">
+        <div className="text-xs uppercase tracking-wide text-slate-300">
+          {mode?.name ?? match.modeId}
+          {match.rounds !== null && match.round > 0 && ` • Round ${match.round}/${match.rounds}`}
+        </div>
+        <div className="font-semibold">{match.objective}</div>
+        {phaseEndsAt !== null && (
+          <div className={`text-lg ${match.phase === 'active' && remaining <= 30 ? 'text-red-400' : ''}`}>
+            {match.phase === 'active' ? formatTime(remaining) : `Starting in ${remaining}`}
+          </div>
+        )}
+        {objectiveFraction !== null && (
+          <div className="mt-1">
+            <div className="text-xs text-slate-300 mb-0.5">City {match.objectiveHealth!.current} / {match.objectiveHealth!.max}</div>
+            <div className="bg-gray-700 rounded h-1.5 overflow-hidden">
+              <div className="bg-sky-400 h-full" style={{ width: `${objectiveFraction * 100}%` }} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {showScoreboard && (
+        <div className="absolute top-48 left-1/2 z-20 -translate-x-1/2 bg-slate-900 bg-opacity-90 p-4 rounded-lg w-96 pointer-events-none">
+          <Scoreboard scores={match.scores} localPlayerId={localPlayerId} />
+        </div>
+      )}
+    </>
+  )
+})
@@ -0,0 +1,48 @@
+import { memo } from 'react'
+import { useMatchStore } from '@/stores/matchStore'
+import { useGameStore } from '@/stores/gameStore'
+import { useCountdown } from '@/hooks/useCountdown'
+import { getGameMode } from '@/systems/GameMode/gameModes'
+import { Scoreboard } from '@/components/Scoreboard/Scoreboard'
+
+interface MatchSummaryProps {
+  onLeaveGame: () => void
+}
+
+// Post-match screen: result, final standings and the wait until the next match
+export const MatchSummary = memo(function MatchSummary({ onLeaveGame }: MatchSummaryProps) {
+  const { match, phaseEndsAt } = useMatchStore()
+  const localPlayerId = useGameStore(state => state.currentPlayer?.id)
+  const nextMatchIn = useCountdown(phaseEndsAt)
+
+  if (match?.phase !== 'ended') return null
+
+  const mode = getGameMode(match.modeId)
+  const victory = match.result === 'victory'
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black bg-opacity-60">
+      <div className="bg-slate-800 text-white rounded-lg p-6 w-[28rem] shadow-xl">
+        <div className={`text-3xl font-bold text-center mb-1 ${victory ? 'text-green-400' : 'text-red-400'}`}>
+          {victory ? 'Victory' : 'Defeat'}
+        </div>
+        <div className="text-center text-slate-400 text-sm mb-4">
+          {mode?.name ?? match.modeId}
+          {match.rounds !== null && ` • ${match.round}/${match.rounds} rounds`}
+        </div>
+
+        <Scoreboard scores={match.scores} localPlayerId={localPlayerId} />
+
+        <div className="flex items-center justify-between mt-6">
+          <span className="text-sm text-slate-400">Next match in {nextMatchIn}s</span>
+          <button
+            onClick={onLeaveGame}
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            Leave Game
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import { useProfileStore } from '@/stores/profileStore'
+import { useGameStore } from '@/stores/gameStore'
+import { getNetworkManager } from '@/hooks/useNetworking'
+import { MAX_DISPLAY_NAME_LENGTH, normalizeDisplayName, validateDisplayName } from '@/systems/Profile/profile'
+
+interface ProfileSettingsProps {
+  onBack: () => void
+}
+
+// The saved profile: display name (renamed live if already in the lobby), remembered
+// avatar and the server-issued player id
+export function ProfileSettings({ onBack }: ProfileSettingsProps) {
+  const { profile, setDisplayName, resetProfile } = useProfileStore()
+  const { currentPlayer, setPlayer } = useGameStore()
+  const [displayName, setDisplayNameDraft] = useState(profile.displayName)
+  const [saved, setSaved] = useState(false)
+  const normalized = normalizeDisplayName(displayName)
+  const nameProblem = validateDisplayName(normalized)
+
+  const handleSave = () => {
+    if (nameProblem) return
+    setDisplayName(normalized)
+    if (currentPlayer && currentPlayer.name !== normalized) {
+      setPlayer({ ...currentPlayer, name: normalized })
+      getNetworkManager()?.updateProfile(normalized)
+    }
+    setSaved(true)
+  }
+
+  const handleReset = () => {
+    resetProfile()
+    setDisplayNameDraft('')
+    setSaved(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-6">
+      <div className="max-w-xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-white">Settings</h1>
+          <button
+            onClick={onBack}
+            className="bg-slate-700 hover:bg-slate-600 text-white px-6 py-2 rounded-lg transition-colors"
+          >
+            Back
+          </button>
+        </div>
+
+        <div className="bg-slate-800 rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-white mb-4">Profile</h2>
+
+          <label className="block text-sm text-slate-300 mb-2" htmlFor="settings-display-name">Display name</label>
+          <div className="flex gap-2">
+            <input
+              id="settings-display-name"
+              type="text"
+              maxLength={MAX_DISPLAY_NAME_LENGTH}
+              value={displayName}
+              onChange={(e) => {
+                setDisplayNameDraft(e.target.value)
+                setSaved(false)
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              className="flex-1 min-w-0 bg-slate-700 text-white px-3 py-2 rounded border-none outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!!nameProblem || normalized === profile.displayName}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded transition-colors"
+            >
+              {saved ? 'Saved' : 'Save'}
+            </button>
+          </div>
+          {displayName && nameProblem && (
+            <p className="text-sm text-red-400 mt-1">{nameProblem}</p>
+          )}
+
+          <div className="space-y-2 text-sm mt-6">
+            <div className="flex justify-between text-slate-300">
+              <span>Avatar:</span>
+              <span>{currentPlayer?.avatar.name ?? profile.avatarId ?? 'Not chosen yet'}</span>
+            </div>
+            <div className="flex justify-between text-slate-300">
+              <span>Player ID:</span>
+              <code className="text-slate-400 truncate ml-4">{profile.identity?.playerId ?? 'Issued on first join'}</code>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-slate-800 rounded-lg p-6">
+          <h2 className="text-xl font-semibold text-white mb-2">Forget this profile</h2>
+          <p className="text-sm text-slate-400 mb-4">
+            Clears the saved name, avatar and player ID from this browser. You will get a new
+            player ID the next time you join.
+          </p>
+          <button
+            onClick={handleReset}
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded transition-colors"
+          >
+            Forget profile
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import type { PlayerScore } from '@/systems/GameMode/gameModes'
+
+interface ScoreboardProps {
+  scores: PlayerScore[]
+  localPlayerId?: string
+}
+
+// Match standings, already sorted by the server
+export function Scoreboard({ scores, localPlayerId }: ScoreboardProps) {
+  if (scores.length === 0) {
+    return <div className="text-sm text-slate-400">No scores yet</div>
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-slate-400 text-left">
+          <th className="font-normal pb-1">Player</th>
+          <th className="font-normal pb-1 text-right">Damage</th>
+          <th className="font-normal pb-1 text-right">Kaiju</th>
+          <th className="font-normal pb-1 text-right">Deaths</th>
+          <th className="font-normal pb-1 text-right">Score</th>
+        </tr>
+      </thead>
+      <tbody>
+        {scores.map(score => (
+          <tr key={score.playerId} className={score.playerId === localPlayerId ? 'text-yellow-300' : 'text-white'}>
+            <td className="py-0.5">{score.name}</td>
+            <td className="py-0.5 text-right">{Math.round(score.damage)}</td>
+            <td className="py-0.5 text-right">{score.kaijuKills}</td>
+            <td className="py-0.5 text-right">{score.deaths}</td>
+            <td className="py-0.5 text-right font-semibold">{score.score}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
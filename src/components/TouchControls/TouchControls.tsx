@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react'
+import { inputController } from '@/systems/Input/InputController'
+
+// Camera adjustments from touch gestures, read every frame by the follow camera
+export interface TouchCameraOrbit {
+  // Radians added to the avatar's heading
+  yaw: number
+  // Multiplier on the follow distance (pinch out = closer)
+  zoom: number
+}
+
+const JOYSTICK_RADIUS = 56
+const ORBIT_RADIANS_PER_PIXEL = 0.008
+const MIN_ZOOM = 0.5
+const MAX_ZOOM = 2.5
+
+interface TouchControlsProps {
+  cameraOrbit: TouchCameraOrbit
+}
+
+// On-screen joystick and run toggle feeding inputController (the same pipeline as the
+// keyboard and gamepad), plus drag-to-orbit and pinch-to-zoom on the rest of the screen.
+export function TouchControls({ cameraOrbit }: TouchControlsProps) {
+  const [knob, setKnob] = useState({ x: 0, y: 0 })
+  const [running, setRunning] = useState(false)
+  const joystickPointer = useRef<number | null>(null)
+  const joystickCenter = useRef({ x: 0, y: 0 })
+  const gesturePointers = useRef(new Map<number, { x: number; y: number }>())
+
+  useEffect(() => {
+    const detach = inputController.attach()
+    return () => {
+      inputController.setVirtualStick(0, 0)
+      inputController.setVirtualAction('run', false)
+      detach()
+    }
+  }, [])
+
+  useEffect(() => {
+    inputController.setVirtualAction('run', running)
+  }, [running])
+
+  const moveKnob = (clientX: number, clientY: number) => {
+    let dx = clientX - joystickCenter.current.x
+    let dy = clientY - joystickCenter.current.y
+    const distance = Math.hypot(dx, dy)
+    if (distance > JOYSTICK_RADIUS) {
+      dx *= JOYSTICK_RADIUS / distance
+      dy *= JOYSTICK_RADIUS / distance
+    }
+    setKnob({ x: dx, y: dy })
+    inputController.setVirtualStick(dx / JOYSTICK_RADIUS, dy / JOYSTICK_RADIUS)
+  }
+
+  const handleJoystickDown = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (joystickPointer.current !== null) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    joystickCenter.current = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }
+    joystickPointer.current = e.pointerId
+    e.currentTarget.setPointerCapture(e.pointerId)
+    moveKnob(e.clientX, e.clientY)
+  }
+
+  const handleJoystickMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (e.pointerId === joystickPointer.current) moveKnob(e.clientX, e.clientY)
+  }
+
+  const handleJoystickUp = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== joystickPointer.current) return
+    joystickPointer.current = null
+    setKnob({ x: 0, y: 0 })
+    inputController.setVirtualStick(0, 0)
+  }
+
+  const handleGestureDown = (e: ReactPointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    gesturePointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+  }
+
+  const handleGestureMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const pointers = gesturePointers.current
+    const previous = pointers.get(e.pointerId)
+    if (!previous) return
+
+    if (pointers.size === 1) {
+      cameraOrbit.yaw -= (e.clientX - previous.x) * ORBIT_RADIANS_PER_PIXEL
+    } else if (pointers.size === 2) {
+      const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)![1]
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y)
+      const after = Math.hypot(e.clientX - other.x, e.clientY - other.y)
+      if (before > 0 && after > 0) {
+        cameraOrbit.zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, cameraOrbit.zoom * (before / after)))
+      }
+    }
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY })
+  }
+
+  const handleGestureUp = (e: ReactPointerEvent<HTMLDivElement>) => {
+    gesturePointers.current.delete(e.pointerId)
+  }
+
+  return (
+    <div className="absolute inset-0 z-0 select-none">
+      <div
+        className="absolute inset-0 touch-none"
+        onPointerDown={handleGestureDown}
+        onPointerMove={handleGestureMove}
+        onPointerUp={handleGestureUp}
+        onPointerCancel={handleGestureUp}
+      />
+
+      <div
+        className="absolute bottom-8 left-8 w-32 h-32 rounded-full bg-white bg-opacity-10 border-2 border-white border-opacity-30 touch-none"
+        onPointerDown={handleJoystickDown}
+        onPointerMove={handleJoystickMove}
+        onPointerUp={handleJoystickUp}
+        onPointerCancel={handleJoystickUp}
+      >
+        <div
+          className="absolute top-1/2 left-1/2 w-14 h-14 -ml-7 -mt-7 rounded-full bg-white bg-opacity-50 pointer-events-none"
+          style={{ transform: `translate(${knob.x}px, ${knob.y}px)` }}
+        />
+      </div>
+
+      <button
+        onPointerDown={(e) => {
+          e.preventDefault()
+          setRunning(!running)
+        }}
+        className={`absolute bottom-12 right-8 w-20 h-20 rounded-full text-white font-semibold touch-none transition-colors ${
+          running ? 'bg-blue-600 bg-opacity-80' : 'bg-white bg-opacity-20'
+        }`}
+      >
+        Run
+      </button>
+    </div>
+  )
+}
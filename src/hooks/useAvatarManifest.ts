@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react'
+import { avatarManifestLoader } from '@/utils/loaders/avatarManifestLoader'
+import type { AvatarManifest } from '@/systems/Avatar/avatarManifest'
+
+// The avatar manifest once loaded (null until then), and why it couldn't be if it failed
+export function useAvatarManifest() {
+  const [manifest, setManifest] = useState<AvatarManifest | null>(() => avatarManifestLoader.getLoaded())
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    avatarManifestLoader.loadManifest()
+      .then(loaded => {
+        if (!cancelled) setManifest(loaded)
+      })
+      .catch(err => {
+        console.error('❌ Failed to load avatar manifest:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { manifest, error }
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react'
+import { buildingLoader } from '@/utils/loaders/buildingLoader'
+import type { BuildingDefinition } from '@/systems/Buildings/buildingFormat'
+
+// The building file for a placed building, once loaded; null while loading
+export function useBuilding(buildingId: string): BuildingDefinition | null {
+  const [building, setBuilding] = useState<BuildingDefinition | null>(() =>
+    buildingLoader.getLoaded(buildingId) ?? null)
+
+  useEffect(() => {
+    let cancelled = false
+    buildingLoader.loadBuilding(buildingId)
+      .then(loaded => {
+        if (!cancelled) setBuilding(loaded)
+      })
+      .catch(err => {
+        console.error(`❌ Failed to load building ${buildingId}:`, err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [buildingId])
+
+  return building
+}
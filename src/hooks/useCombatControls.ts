@@ -0,0 +1,43 @@
+import { useEffect, useRef } from 'react'
+import { inputController } from '@/systems/Input/InputController'
+import { getWeaponDefinition } from '@/systems/Combat/weapons'
+import { useCombatStore } from '@/stores/combatStore'
+import { useGameStore } from '@/stores/gameStore'
+import { getNetworkManager } from '@/hooks/useNetworking'
+
+export interface CombatAim {
+  yaw: number
+  pitch?: number
+}
+
+// Sends attacks for the local player. The server decides whether they hit; this only
+// skips requests it would reject anyway (on cooldown, dead, not in a room).
+export function useCombatControls(getAim: () => CombatAim) {
+  const aimRef = useRef(getAim)
+  aimRef.current = getAim
+
+  useEffect(() => {
+    const detach = inputController.attach()
+
+    const offAttack = inputController.onAction('attack', () => {
+      const combat = useCombatStore.getState()
+      const weapon = getWeaponDefinition(combat.weaponId)
+      const now = Date.now()
+      if (!weapon || combat.respawnAt !== null || !useGameStore.getState().currentRoom) return
+      if (now - combat.lastAttackAt < weapon.cooldown * 1000) return
+
+      combat.recordAttack(now)
+      const { yaw, pitch } = aimRef.current()
+      getNetworkManager()?.attack({ weaponId: weapon.id, yaw, pitch })
+    })
+    const offSwitch = inputController.onAction('switchWeapon', () => {
+      useCombatStore.getState().cycleWeapon()
+    })
+
+    return () => {
+      offAttack()
+      offSwitch()
+      detach()
+    }
+  }, [])
+}
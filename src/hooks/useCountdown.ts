@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react'
+
+// Whole seconds left until a local-clock deadline, re-rendering while it runs
+export function useCountdown(endsAt: number | null): number {
+  const [now, setNow] = useState(Date.now())
+  useEffect(() => {
+    if (endsAt === null) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(timer)
+  }, [endsAt])
+  return endsAt === null ? 0 : Math.max(0, Math.ceil((endsAt - now) / 1000))
+}
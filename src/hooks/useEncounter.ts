@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react'
+import { encounterLoader } from '@/utils/loaders/encounterLoader'
+import type { EncounterDefinition } from '@/systems/Kaiju/encounterFormat'
+
+// The encounter file for a boss, once loaded; null for ordinary kaiju or while loading
+export function useEncounter(encounterId: string | undefined): EncounterDefinition | null {
+  const [encounter, setEncounter] = useState<EncounterDefinition | null>(() =>
+    (encounterId && encounterLoader.getLoaded(encounterId)) || null)
+
+  useEffect(() => {
+    if (!encounterId) {
+      setEncounter(null)
+      return
+    }
+    let cancelled = false
+    encounterLoader.loadEncounter(encounterId)
+      .then(loaded => {
+        if (!cancelled) setEncounter(loaded)
+      })
+      .catch(err => {
+        console.error(`❌ Failed to load encounter ${encounterId}:`, err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [encounterId])
+
+  return encounter
+}
@@ -1,40 +1,56 @@
 import { useEffect, useRef, useCallback, startTransition } from 'react'
 import type { Vector3Tuple } from 'three'
+import { getNetworkManager } from '@/hooks/useNetworking'
+import { localPlayerPredictor, type MovementInput } from '@/systems/Networking/inputPrediction'
+import { inputController } from '@/systems/Input/InputController'
+import { DEFAULT_COLLISION_WORLD, type CollisionWorld } from '@/systems/Physics/collisionWorld'
+import { useCombatStore } from '@/stores/combatStore'
+import {
+  DEFAULT_MOVEMENT_CONFIG,
+  FixedTimestep,
+  IDLE_INTENT,
+  createMovementState,
+  hasMovementIntent,
+  needsSimulation,
+  stepMovement,
+  type MovementState
+} from '@/systems/Movement/movementSimulation'
 
-// Movement key configuration - easily extensible
-const MOVEMENT_KEYS = {
-  forward: ['KeyW', 'ArrowUp'],
-  backward: ['KeyS', 'ArrowDown'], 
-  left: ['KeyA', 'ArrowLeft'],
-  right: ['KeyD', 'ArrowRight']
-} as const
-
-const RUN_KEYS = ['ShiftLeft', 'ShiftRight'] as const
-
-type MovementDirection = keyof typeof MOVEMENT_KEYS
-type MovementState = {
-  position: Vector3Tuple
-  rotation: Vector3Tuple
-  isMoving: boolean
-  isRunning: boolean
-  velocity: { x: number; z: number; speed: number }
+type KeyboardMovementState = MovementState & {
   activeKeys: string[]
+  // Seconds of fixed steps advanced this frame (velocity is summed over them); 0 on
+  // frames that fall between two steps
+  simulatedTime: number
 }
 
 interface UseKeyboardMovementOptions {
   speed?: number
-  onStateChange?: (state: MovementState) => void
+  onStateChange?: (state: KeyboardMovementState) => void
   initialPosition?: Vector3Tuple
+  // Level collision; defaults to open flat ground
+  world?: CollisionWorld
+  // Look yaw that movement is relative to (first person); world axes without it
+  getHeading?: () => number
 }
 
 export function useKeyboardMovement({
-  speed = 0.2,
+  speed = DEFAULT_MOVEMENT_CONFIG.speed,
   onStateChange,
-  initialPosition = [0, 0, 0]
+  initialPosition = [0, 0, 0],
+  world = DEFAULT_COLLISION_WORLD,
+  getHeading
 }: UseKeyboardMovementOptions = {}) {
-  const keysPressed = useRef(new Set<string>())
-  const currentPosition = useRef<Vector3Tuple>(initialPosition)
-  const currentRotation = useRef<Vector3Tuple>([0, 0, 0])
+  const headingRef = useRef(getHeading)
+  headingRef.current = getHeading
+  const simulation = useRef<MovementState>(createMovementState(initialPosition))
+  const timestep = useRef(new FixedTimestep())
+
+  // Respawn when the start point changes, e.g. once the level's spawn points have loaded
+  const [spawnX, spawnY, spawnZ] = initialPosition
+  useEffect(() => {
+    simulation.current = createMovementState([spawnX, spawnY, spawnZ])
+    timestep.current.reset()
+  }, [spawnX, spawnY, spawnZ])
   
   // Log cleanup completion once
   useEffect(() => {
@@ -42,93 +58,81 @@ export function useKeyboardMovement({
   }, [])
   
   const updateMovement = useCallback((deltaTime = 0.016) => {
-    let moveX = 0
-    let moveZ = 0
-    let newRotY = currentRotation.current[1]
-    let isMoving = false
-    const runPressed = RUN_KEYS.some(k => keysPressed.current.has(k))
-    const activeKeys = Array.from(keysPressed.current)
+    const config = { ...DEFAULT_MOVEMENT_CONFIG, speed }
+    // Gamepads have no events - sample them once per frame before reading actions
+    inputController.poll()
+    // The server ignores movement from the dead, so don't predict any
+    const heading = headingRef.current?.()
+    const intent = useCombatStore.getState().respawnAt === null
+      ? { ...inputController.getMovementIntent(), ...(heading !== undefined ? { heading } : {}) }
+      : IDLE_INTENT
+    const runPressed = intent.run
+    const activeKeys = inputController.getActiveKeys()
     
     // Only log when keys are actually pressed (reduce spam)
-    if (keysPressed.current.size > 0) {
+    if (activeKeys.length > 0) {
+      const [x, y, z] = simulation.current.position
       console.log('🎮 MOVEMENT ACTIVE:', {
         activeKeys: activeKeys.join(', '),
-        currentPos: `(${currentPosition.current[0].toFixed(3)}, ${currentPosition.current[1].toFixed(3)}, ${currentPosition.current[2].toFixed(3)})`,
+        currentPos: `(${x.toFixed(3)}, ${y.toFixed(3)}, ${z.toFixed(3)})`,
         deltaTime: Number(deltaTime.toFixed(4))
       })
     }
 
-    // Calculate movement based on pressed keys
-    const directions = Object.entries(MOVEMENT_KEYS) as [MovementDirection, readonly string[]][]
-    
-    for (const [direction, keys] of directions) {
-      const isPressed = keys.some(key => keysPressed.current.has(key))
-      if (isPressed) {
-        isMoving = true
-        const runMultiplier = runPressed ? 1.8 : 1.0
-        const frameSpeed = speed * runMultiplier * (deltaTime * 60) // Frame rate independent
-        
-        // Reduced key logging - only show direction
-        
-        switch (direction) {
-          case 'forward':
-            moveZ -= frameSpeed
-            newRotY = 0
-            break
-          case 'backward':
-            moveZ += frameSpeed
-            newRotY = Math.PI
-            break
-          case 'left':
-            moveX -= frameSpeed
-            newRotY = Math.PI / 2
-            break
-          case 'right':
-            moveX += frameSpeed
-            newRotY = -Math.PI / 2
-            break
-        }
-      }
+    // Server reconciliation: rewind to the authoritative state and replay unacknowledged inputs
+    const corrected = localPlayerPredictor.reconcile(config, world)
+    if (corrected) {
+      simulation.current = corrected
     }
 
-    // Update position/rotation if there's movement
-    if (isMoving) {
-      currentPosition.current = [
-        currentPosition.current[0] + moveX,
-        currentPosition.current[1],
-        currentPosition.current[2] + moveZ
-      ]
-      
-      // Face the movement vector (diagonals supported). Three.js yaw: 0 faces -Z.
-      const len = Math.hypot(moveX, moveZ)
-      if (len > 1e-6) {
-        newRotY = Math.atan2(-moveX, -moveZ)
-      }
-      currentRotation.current = [0, newRotY, 0]
+    const isMoving = hasMovementIntent(intent)
+
+    // Fixed-timestep simulation: each step is one sequenced input. Idle steps on the
+    // ground change nothing, so only movement, jumps and falling are stamped and sent.
+    const steps = timestep.current.advance(deltaTime)
+    let moveX = 0
+    let moveZ = 0
+    for (let i = 0; i < steps && needsSimulation(simulation.current, intent); i++) {
+      const input: MovementInput = { seq: localPlayerPredictor.nextSeq(), dt: timestep.current.step, ...intent }
+      const next = stepMovement(simulation.current, input, input.dt, config, world)
+      localPlayerPredictor.record(input)
+      getNetworkManager()?.queueInput(input)
+      moveX += next.velocity.x
+      moveZ += next.velocity.z
+      simulation.current = next
     }
 
+    const velocity = { x: moveX, z: moveZ, speed: Math.hypot(moveX, moveZ) }
+    const simulatedTime = steps * timestep.current.step
+
     // Notify state change in transition to avoid blocking (only if something changed)
-    if (onStateChange && (isMoving || keysPressed.current.size === 0)) {
+    if (onStateChange && (isMoving || !simulation.current.isGrounded || activeKeys.length === 0)) {
       startTransition(() => {
         onStateChange({
-          position: [...currentPosition.current],
-          rotation: [...currentRotation.current],
+          position: [...simulation.current.position],
+          rotation: [...simulation.current.rotation],
           isMoving,
           isRunning: runPressed,
-          velocity: { x: moveX, z: moveZ, speed: Math.hypot(moveX, moveZ) },
-          activeKeys
+          velocity,
+          verticalVelocity: simulation.current.verticalVelocity,
+          isGrounded: simulation.current.isGrounded,
+          activeKeys,
+          simulatedTime
         })
       })
     }
 
     // Return current state for immediate use
-    const returnState = {
-      position: currentPosition.current,
-      rotation: currentRotation.current,
+    const returnState: KeyboardMovementState = {
+      position: simulation.current.position,
+      rotation: simulation.current.rotation,
       isMoving,
       isRunning: runPressed,
-      velocity: { x: moveX, z: moveZ, speed: Math.hypot(moveX, moveZ) },
-      activeKeys
+      velocity,
+      verticalVelocity: simulation.current.verticalVelocity,
+      isGrounded: simulation.current.isGrounded,
+      activeKeys,
+      simulatedTime
     }
     
     // Log movement completion only when significant change
@@ -140,67 +144,21 @@ export function useKeyboardMovement({
     }
     
     return returnState
-  }, [speed, onStateChange])
+  }, [speed, onStateChange, world])
 
-  const handleKeyDown = useCallback((event: KeyboardEvent) => {
-    const allKeys = [...Object.values(MOVEMENT_KEYS).flat(), ...RUN_KEYS]
-    
-    if (allKeys.includes(event.code as any)) {
-      event.preventDefault()
-      event.stopPropagation()
-      
-      if (!keysPressed.current.has(event.code)) {
-        keysPressed.current.add(event.code)
-        console.log('🎮 Key pressed:', event.code, 'Active keys:', Array.from(keysPressed.current))
-        // JSON-friendly log for parser
-        try {
-          console.log('TPJ KEYS', JSON.stringify({ type: 'down', code: event.code, keys: Array.from(keysPressed.current) }))
-        } catch {}
-      }
-    }
-  }, [])
-
-  const handleKeyUp = useCallback((event: KeyboardEvent) => {
-    const allKeys = [...Object.values(MOVEMENT_KEYS).flat(), ...RUN_KEYS]
-    
-    if (allKeys.includes(event.code as any)) {
-      event.preventDefault()
-      event.stopPropagation()
-      
-      if (keysPressed.current.has(event.code)) {
-        keysPressed.current.delete(event.code)
-        console.log('🎮 Key released:', event.code, 'Active keys:', Array.from(keysPressed.current))
-        // JSON-friendly log for parser
-        try {
-          console.log('TPJ KEYS', JSON.stringify({ type: 'up', code: event.code, keys: Array.from(keysPressed.current) }))
-        } catch {}
-      }
-    }
-  }, [])
-
-  useEffect(() => {
-    // Modern event handling with proper cleanup
-    const controller = new AbortController()
-    const { signal } = controller
-    
-    // Add listeners with abort signal for automatic cleanup
-    window.addEventListener('keydown', handleKeyDown, { signal, capture: true })
-    window.addEventListener('keyup', handleKeyUp, { signal, capture: true })
-    
-    return () => {
-      controller.abort()
-      keysPressed.current.clear()
-    }
-  }, [handleKeyDown, handleKeyUp])
+  useEffect(() => inputController.attach(), [])
 
   return {
     currentState: {
-      position: currentPosition.current,
-      rotation: currentRotation.current,
-      isMoving: keysPressed.current.size > 0,
-      isRunning: RUN_KEYS.some(k => keysPressed.current.has(k)),
+      position: simulation.current.position,
+      rotation: simulation.current.rotation,
+      isMoving: hasMovementIntent(inputController.getMovementIntent()),
+      isRunning: inputController.isActive('run'),
       velocity: { x: 0, z: 0, speed: 0 },
-      activeKeys: Array.from(keysPressed.current)
+      verticalVelocity: simulation.current.verticalVelocity,
+      isGrounded: simulation.current.isGrounded,
+      activeKeys: inputController.getActiveKeys(),
+      simulatedTime: 0
     },
     updateMovement
   }
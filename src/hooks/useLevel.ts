@@ -0,0 +1,56 @@
+import { useEffect, useMemo, useState } from 'react'
+import { levelLoader } from '@/utils/loaders/levelLoader'
+import {
+  buildCollisionWorld,
+  getSpawnPoint,
+  type LevelDefinition,
+  type LevelSpawnPoint
+} from '@/systems/Level/levelFormat'
+import { DEFAULT_COLLISION_WORLD, type CollisionWorld } from '@/systems/Physics/collisionWorld'
+import { buildingBox } from '@/systems/Buildings/buildingFormat'
+import { useBuildingStore } from '@/stores/buildingStore'
+
+const FALLBACK_SPAWN: LevelSpawnPoint = { position: [0, 0, 0], yaw: 0 }
+
+// Loads a level and derives what the views need from it. Until it arrives (or if it
+// fails) the player gets open flat ground at the origin. The collision includes the
+// room's standing buildings, matching what the server simulates against.
+export function useLevel(levelId: string) {
+  const [level, setLevel] = useState<LevelDefinition | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    // Drop the previous level so its collision isn't used while the next one loads
+    setLevel(null)
+    setError(null)
+    levelLoader.loadLevel(levelId)
+      .then(loaded => {
+        if (!cancelled) setLevel(loaded)
+      })
+      .catch(err => {
+        console.error(`❌ Failed to load level ${levelId}:`, err)
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [levelId])
+
+  const buildings = useBuildingStore(state => state.buildings)
+  const levelWorld = useMemo<CollisionWorld>(
+    () => (level ? buildCollisionWorld(level) : DEFAULT_COLLISION_WORLD),
+    [level]
+  )
+  const world = useMemo<CollisionWorld>(() => {
+    const standing = buildings.filter(building => !building.collapsed)
+    if (standing.length === 0) return levelWorld
+    return {
+      ...levelWorld,
+      boxes: [...levelWorld.boxes, ...standing.map(building => buildingBox(building.position, building.yaw, building.size))]
+    }
+  }, [levelWorld, buildings])
+  const spawn = useMemo(() => (level ? getSpawnPoint(level, 0) : FALLBACK_SPAWN), [level])
+
+  return { level, world, spawn, error }
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState, type RefObject } from 'react'
+import { useInputStore } from '@/stores/inputStore'
+import { applyMouseLook } from '@/systems/Input/lookSettings'
+
+export interface LookAngles {
+  yaw: number
+  pitch: number
+}
+
+// Pointer-locked mouse look: clicking `element` captures the mouse (Escape releases it,
+// as the browser requires) and mouse movement turns `look` using the saved sensitivity.
+// The click that captures it is kept from the input controller, so it doesn't also fire
+// whatever the button is bound to (attack). Returns whether the pointer is currently locked.
+export function useMouseLook(
+  element: HTMLElement | null,
+  look: RefObject<LookAngles>,
+  enabled: boolean = true
+): boolean {
+  const [isLocked, setIsLocked] = useState(false)
+
+  useEffect(() => {
+    if (!element || !enabled) return
+    const controller = new AbortController()
+    const { signal } = controller
+    const syncLocked = () => setIsLocked(document.pointerLockElement === element)
+
+    // The controller listens on window, so stopping the press here keeps it from binding
+    element.addEventListener('mousedown', (event) => {
+      if (document.pointerLockElement !== element) event.stopPropagation()
+    }, { signal })
+    element.addEventListener('click', () => {
+      if (document.pointerLockElement !== element) element.requestPointerLock?.()
+    }, { signal })
+    document.addEventListener('pointerlockchange', syncLocked, { signal })
+    document.addEventListener('mousemove', (event) => {
+      if (document.pointerLockElement !== element) return
+      applyMouseLook(look.current, event.movementX, event.movementY, useInputStore.getState().look)
+    }, { signal })
+    syncLocked()
+
+    return () => {
+      controller.abort()
+      if (document.pointerLockElement === element) document.exitPointerLock()
+      setIsLocked(false)
+    }
+  }, [element, look, enabled])
+
+  return isLocked
+}
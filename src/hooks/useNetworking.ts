@@ -1,17 +1,67 @@
 import { useEffect, useState } from 'react'
 import { NetworkManager } from '@/systems/Networking/NetworkManager'
+import { kaijuInterpolator, remotePlayerInterpolator } from '@/systems/Networking/SnapshotInterpolator'
+import { localPlayerPredictor } from '@/systems/Networking/inputPrediction'
 import { useGameStore } from '@/stores/gameStore'
-import { Player } from '@/types'
+import { useKaijuStore } from '@/stores/kaijuStore'
+import { useCombatStore } from '@/stores/combatStore'
+import { useMatchStore } from '@/stores/matchStore'
+import { useBuildingStore } from '@/stores/buildingStore'
+import { useChatStore } from '@/stores/chatStore'
+import { useProfileStore } from '@/stores/profileStore'
+import { getKaijuDefinition } from '@/systems/Kaiju/kaijuDefinitions'
+import { encounterLoader } from '@/utils/loaders/encounterLoader'
+import { buildingLoader } from '@/utils/loaders/buildingLoader'
+import { Player, Room } from '@/types'
 
 let networkManager: NetworkManager | null = null
 
+// For components that issue network commands without owning the connection lifecycle
+export function getNetworkManager(): NetworkManager | null {
+  return networkManager
+}
+
+// Everything buffered for the space being left: remote players, kaiju, combat, the match,
+// its buildings and its chat
+function clearSpace() {
+  remotePlayerInterpolator.clear()
+  kaijuInterpolator.clear()
+  useKaijuStore.getState().clearKaiju()
+  useCombatStore.getState().reset()
+  useMatchStore.getState().clearMatch()
+  useBuildingStore.getState().clearBuildings()
+  useChatStore.getState().clearChannel('room')
+}
+
+// Display name for a combat event participant
+function describeCombatant(id: string | null): string {
+  if (!id) return 'something'
+  const player = useGameStore.getState().lobby.find(p => p.id === id)
+  if (player) return player.name
+  const building = useBuildingStore.getState().buildings.find(b => b.id === id)
+  if (building) return buildingLoader.getLoaded(building.buildingId)?.name ?? 'building'
+  const kaiju = useKaijuStore.getState().kaiju.find(k => k.id === id)
+  if (!kaiju) return 'a kaiju'
+  const encounter = kaiju.encounterId ? encounterLoader.getLoaded(kaiju.encounterId) : undefined
+  return encounter?.name ?? getKaijuDefinition(kaiju.kind)?.name ?? 'a kaiju'
+}
+
+function describePhase(kaijuId: string, phase: number): string {
+  const kaiju = useKaijuStore.getState().kaiju.find(k => k.id === kaijuId)
+  const encounter = kaiju?.encounterId ? encounterLoader.getLoaded(kaiju.encounterId) : undefined
+  return encounter?.phases[phase]?.name ?? `phase ${phase + 1}`
+}
+
 export function useNetworking() {
   const [isInitialized, setIsInitialized] = useState(false)
-  const { 
-    setConnected, 
-    addToLobby, 
+  const {
+    setConnected,
+    addToLobby,
     removeFromLobby,
-    currentPlayer 
+    setLobby,
+    setRoom,
+    setSpectatingRoom,
+    setAvailableRooms
   } = useGameStore()
 
   useEffect(() => {
@@ -19,6 +69,7 @@ export function useNetworking() {
     return () => {
       if (networkManager) {
         networkManager.disconnect()
+        networkManager = null
       }
     }
   }, [])
@@ -26,11 +77,40 @@ export function useNetworking() {
   const initializeNetwork = async () => {
     if (!networkManager) {
       networkManager = new NetworkManager()
-      
+
       networkManager.on('connected', (connected: boolean) => {
         setConnected(connected)
+        // Inputs from a previous connection will never be acknowledged
+        localPlayerPredictor.reset()
+        // The room is kept: the server holds our place for a grace period, and its
+        // session message says whether we got back in
+        // Read the store directly - this listener outlives the render that registered it
+        const { currentPlayer } = useGameStore.getState()
         if (connected && currentPlayer) {
-          networkManager?.joinLobby(currentPlayer)
+          networkManager?.joinLobby(currentPlayer, useProfileStore.getState().profile.identity?.identityToken)
+          // Blocks live with the connection on the server
+          for (const playerId of useChatStore.getState().blocked) {
+            networkManager?.setChatBlocked(playerId, true)
+          }
+        }
+      })
+
+      // The server decides who we are; adopt its id here and for future sessions
+      networkManager.on('session', ({ playerId, identityToken, roomId, spectatingRoomId }) => {
+        networkManager?.setIdentity({ playerId, identityToken })
+        useProfileStore.getState().setIdentity({ playerId, identityToken })
+        const { currentPlayer, currentRoom, spectatingRoom, setPlayer } = useGameStore.getState()
+        if (currentPlayer && currentPlayer.id !== playerId) {
+          setPlayer({ ...currentPlayer, id: playerId })
+        }
+        // Held too long after a disconnect: the room went on without us
+        if (currentRoom && currentRoom.id !== roomId) {
+          clearSpace()
+          setRoom(null)
+        }
+        if (spectatingRoom && spectatingRoom.id !== spectatingRoomId) {
+          clearSpace()
+          setSpectatingRoom(null)
         }
       })
 
@@ -40,15 +120,97 @@ export function useNetworking() {
 
       networkManager.on('player_left', (playerId: string) => {
         removeFromLobby(playerId)
+        remotePlayerInterpolator.remove(playerId)
       })
 
       networkManager.on('lobby_update', (players: Player[]) => {
-        players.forEach(player => addToLobby(player))
+        setLobby(players)
+        remotePlayerInterpolator.retain(players.map(p => p.id))
+      })
+
+      networkManager.on('state_snapshot', (snapshot) => {
+        const localId = useGameStore.getState().currentPlayer?.id
+        remotePlayerInterpolator.push(snapshot, localId)
+        const self = snapshot.players.find(p => p.id === localId)
+        if (self) {
+          localPlayerPredictor.receiveAuthoritative(self, self.ack)
+          useCombatStore.getState().syncHealth(self.health)
+        }
+
+        kaijuInterpolator.pushEntities(snapshot.serverTime, snapshot.kaiju)
+        kaijuInterpolator.retain(snapshot.kaiju.map(k => k.id))
+        useKaijuStore.getState().syncKaiju(snapshot.kaiju)
+        useCombatStore.getState().syncProjectiles(snapshot.projectiles, Date.now())
+      })
+
+      networkManager.on('match_update', (match) => {
+        useMatchStore.getState().setMatch(match)
+      })
+
+      networkManager.on('buildings_update', (buildings) => {
+        useBuildingStore.getState().setBuildings(buildings)
+      })
+
+      networkManager.on('chat_message', (message) => {
+        useChatStore.getState().addMessage(message)
+      })
+
+      networkManager.on('combat_events', (events) => {
+        const localId = useGameStore.getState().currentPlayer?.id
+        useCombatStore.getState().handleEvents(events, localId, describeCombatant, describePhase)
+      })
+
+      // Changing space invalidates every buffered remote transform. Taking a slot ends spectating.
+      const syncRoom = (room: Room) => {
+        if (room.id !== useGameStore.getState().currentRoom?.id) {
+          clearSpace()
+        }
+        setSpectatingRoom(null)
+        setRoom(room)
+      }
+      networkManager.on('room_created', syncRoom)
+      networkManager.on('room_joined', syncRoom)
+      networkManager.on('room_update', (room) => {
+        // Spectators get the watched room's updates too
+        if (room.id === useGameStore.getState().spectatingRoom?.id) {
+          setSpectatingRoom(room)
+        } else {
+          syncRoom(room)
+        }
+      })
+
+      networkManager.on('spectate_started', (room) => {
+        if (room.id !== useGameStore.getState().spectatingRoom?.id) {
+          clearSpace()
+        }
+        setSpectatingRoom(room)
+      })
+
+      networkManager.on('spectate_stopped', () => {
+        clearSpace()
+        setSpectatingRoom(null)
+      })
+
+      networkManager.on('room_left', () => {
+        clearSpace()
+        setRoom(null)
+      })
+
+      networkManager.on('room_list', (rooms: Room[]) => {
+        setAvailableRooms(rooms)
+      })
+
+      networkManager.on('error', ({ code, message }) => {
+        console.warn(`🌐 Server error [${code}]:`, message)
+        if (code === 'chat_rate_limited' || code === 'chat_rejected') {
+          const chat = useChatStore.getState()
+          chat.addNotice(chat.activeChannel, message)
+        }
       })
 
       const connected = await networkManager.connect()
       setIsInitialized(true)
-      
+
       if (!connected) {
         console.warn('Failed to connect to server, running in offline mode')
       }
@@ -56,11 +218,11 @@ export function useNetworking() {
   }
 
   const joinLobby = (player: Player) => {
-    networkManager?.joinLobby(player)
+    networkManager?.joinLobby(player, useProfileStore.getState().profile.identity?.identityToken)
   }
 
-  const createRoom = (roomName: string, isPrivate: boolean = false) => {
-    networkManager?.createRoom(roomName, isPrivate)
+  const createRoom = (roomName: string, isPrivate: boolean = false, maxPlayers?: number, modeId?: string) => {
+    networkManager?.createRoom(roomName, isPrivate, maxPlayers, modeId)
   }
 
   return {
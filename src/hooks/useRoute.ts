@@ -0,0 +1,34 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { HOME_ROUTE, parseRoute, routeUrl, type AppRoute } from '@/systems/Routing/routes'
+
+// pushState doesn't fire popstate, so navigate() notifies subscribers itself
+const listeners = new Set<() => void>()
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  window.addEventListener('popstate', listener)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('popstate', listener)
+  }
+}
+
+const currentUrl = () => window.location.pathname + window.location.search
+
+// Pushes a history entry (so Back returns here), or replaces the current one for redirects
+export function navigate(route: AppRoute, { replace = false }: { replace?: boolean } = {}) {
+  const url = routeUrl(route)
+  if (url === currentUrl()) return
+  if (replace) {
+    window.history.replaceState(null, '', url)
+  } else {
+    window.history.pushState(null, '', url)
+  }
+  listeners.forEach(listener => listener())
+}
+
+// The route for the current URL; unknown paths show the home page
+export function useRoute(): AppRoute {
+  const url = useSyncExternalStore(subscribe, currentUrl)
+  return useMemo(() => parseRoute(window.location.pathname, window.location.search) ?? HOME_ROUTE, [url])
+}
@@ -0,0 +1,16 @@
+import { create } from 'zustand'
+import type { BuildingSnapshot } from '@/systems/Networking/protocol'
+
+interface BuildingStore {
+  // The room's buildings as of the last buildings_update
+  buildings: BuildingSnapshot[]
+  setBuildings: (buildings: BuildingSnapshot[]) => void
+  clearBuildings: () => void
+}
+
+export const useBuildingStore = create<BuildingStore>((set) => ({
+  buildings: [],
+
+  setBuildings: (buildings) => set({ buildings }),
+  clearBuildings: () => set({ buildings: [] })
+}))
@@ -0,0 +1,53 @@
+import { create } from 'zustand'
+import type { ChatChannel, ChatMessage } from '@/systems/Chat/chat'
+
+// Kept per channel; older lines scroll away
+const CHAT_HISTORY = 100
+
+// A message from a player, or a local notice (senderId null) such as a rate-limit warning
+export type ChatLine = Omit<ChatMessage, 'senderId'> & { senderId: string | null }
+
+interface ChatStore {
+  lines: Record<ChatChannel, ChatLine[]>
+  // The channel the chat panel shows and sends to; server rejections land here
+  activeChannel: ChatChannel
+  // Hidden locally; the server still delivers them
+  muted: string[]
+  // Sent to the server, which stops delivering their messages; re-sent after reconnecting
+  blocked: string[]
+  addMessage: (message: ChatLine) => void
+  addNotice: (channel: ChatChannel, text: string) => void
+  setActiveChannel: (channel: ChatChannel) => void
+  setMuted: (playerId: string, muted: boolean) => void
+  setBlocked: (playerId: string, blocked: boolean) => void
+  clearChannel: (channel: ChatChannel) => void
+}
+
+let nextNoticeId = 0
+
+const toggle = (ids: string[], id: string, on: boolean) =>
+  on ? (ids.includes(id) ? ids : [...ids, id]) : ids.filter(existing => existing !== id)
+
+export const useChatStore = create<ChatStore>((set) => ({
+  lines: { lobby: [], room: [] },
+  activeChannel: 'lobby',
+  muted: [],
+  blocked: [],
+
+  addMessage: (message) => set((state) => ({
+    lines: { ...state.lines, [message.channel]: [...state.lines[message.channel], message].slice(-CHAT_HISTORY) }
+  })),
+  addNotice: (channel, text) => set((state) => ({
+    lines: {
+      ...state.lines,
+      [channel]: [
+        ...state.lines[channel],
+        { id: `notice${nextNoticeId++}`, channel, senderId: null, senderName: '', text, sentAt: Date.now() }
+      ].slice(-CHAT_HISTORY)
+    }
+  })),
+  setActiveChannel: (channel) => set({ activeChannel: channel }),
+  setMuted: (playerId, muted) => set((state) => ({ muted: toggle(state.muted, playerId, muted) })),
+  setBlocked: (playerId, blocked) => set((state) => ({ blocked: toggle(state.blocked, playerId, blocked) })),
+  clearChannel: (channel) => set((state) => ({ lines: { ...state.lines, [channel]: [] } }))
+}))
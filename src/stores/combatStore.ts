@@ -0,0 +1,97 @@
+import { create } from 'zustand'
+import type { CombatEvent, ProjectileSnapshot } from '@/systems/Networking/protocol'
+import { DEFAULT_LOADOUT } from '@/systems/Combat/weapons'
+import { PLAYER_MAX_HEALTH, RESPAWN_DELAY } from '@/systems/Combat/health'
+
+const FEED_LENGTH = 5
+
+export interface CombatFeedEntry {
+  id: number
+  text: string
+}
+
+interface CombatStore {
+  weaponId: string
+  // Local clock (ms) of the last attack sent, for cooldown feedback
+  lastAttackAt: number
+  // Local clock (ms) the local player was last hit, for the hit reaction
+  lastHurtAt: number
+  health: number
+  maxHealth: number
+  // Local clock (ms) the local player is expected back, while dead
+  respawnAt: number | null
+  projectiles: ProjectileSnapshot[]
+  // Local clock (ms) the projectile positions were received; they fly on from there
+  projectilesReceivedAt: number
+  feed: CombatFeedEntry[]
+  cycleWeapon: () => void
+  recordAttack: (at: number) => void
+  syncHealth: (health: number) => void
+  syncProjectiles: (projectiles: ProjectileSnapshot[], receivedAt: number) => void
+  // `describe` turns a player, kaiju or building id into a display name, `describePhase` a boss phase into its name
+  handleEvents: (
+    events: CombatEvent[],
+    localId: string | undefined,
+    describe: (id: string | null) => string,
+    describePhase: (kaijuId: string, phase: number) => string
+  ) => void
+  reset: () => void
+}
+
+let nextFeedId = 0
+
+export const useCombatStore = create<CombatStore>((set, get) => ({
+  weaponId: DEFAULT_LOADOUT[0],
+  lastAttackAt: 0,
+  lastHurtAt: 0,
+  health: PLAYER_MAX_HEALTH,
+  maxHealth: PLAYER_MAX_HEALTH,
+  respawnAt: null,
+  projectiles: [],
+  projectilesReceivedAt: 0,
+  feed: [],
+
+  cycleWeapon: () => set((state) => ({
+    weaponId: DEFAULT_LOADOUT[(DEFAULT_LOADOUT.indexOf(state.weaponId) + 1) % DEFAULT_LOADOUT.length]
+  })),
+  recordAttack: (at) => set({ lastAttackAt: at }),
+
+  // Snapshots carry health every tick; only re-render when it changes
+  syncHealth: (health) => {
+    if (get().health !== health) set({ health })
+  },
+  syncProjectiles: (projectiles, receivedAt) => {
+    if (projectiles.length === 0 && get().projectiles.length === 0) return
+    set({ projectiles, projectilesReceivedAt: receivedAt })
+  },
+
+  handleEvents: (events, localId, describe, describePhase) => set((state) => {
+    let { respawnAt, health, feed, lastHurtAt } = state
+    for (const event of events) {
+      if (event.type === 'hit' && event.targetId === localId) {
+        health = event.health
+        lastHurtAt = Date.now()
+      } else if (event.type === 'player_died') {
+        if (event.playerId === localId) respawnAt = Date.now() + RESPAWN_DELAY * 1000
+        feed = [...feed, { id: nextFeedId++, text: `${describe(event.playerId)} was taken down by ${describe(event.killerId)}` }]
+      } else if (event.type === 'kaiju_died') {
+        feed = [...feed, { id: nextFeedId++, text: `${describe(event.killerId)} felled the ${describe(event.kaijuId)}` }]
+      } else if (event.type === 'kaiju_phase') {
+        feed = [...feed, { id: nextFeedId++, text: `${describe(event.kaijuId)} enters ${describePhase(event.kaijuId, event.phase)}` }]
+      } else if (event.type === 'building_collapsed') {
+        feed = [...feed, { id: nextFeedId++, text: `${describe(event.attackerId)} brought down the ${describe(event.buildingId)}` }]
+      } else if (event.type === 'player_respawned' && event.playerId === localId) {
+        respawnAt = null
+        health = state.maxHealth
+      }
+    }
+    return { respawnAt, health, lastHurtAt, feed: feed.slice(-FEED_LENGTH) }
+  }),
+
+  reset: () => set({
+    health: PLAYER_MAX_HEALTH,
+    respawnAt: null,
+    projectiles: [],
+    feed: []
+  })
+}))
@@ -1,19 +1,24 @@
 import { create } from 'zustand'
-import { GameState, Player, Room } from '@/types'
+import { GameState, Player, Room, ViewType } from '@/types'
 
 interface GameStore extends GameState {
   setPlayer: (player: Player) => void
   setRoom: (room: Room | null) => void
-  setView: (view: 'first' | 'third' | 'non-webgl') => void
+  setSpectatingRoom: (room: Room | null) => void
+  setView: (view: ViewType) => void
   setConnected: (connected: boolean) => void
   addToLobby: (player: Player) => void
   removeFromLobby: (playerId: string) => void
+  setLobby: (players: Player[]) => void
+  setAvailableRooms: (rooms: Room[]) => void
 }
 
 export const useGameStore = create<GameStore>((set) => ({
   currentPlayer: null,
   currentRoom: null,
+  spectatingRoom: null,
   lobby: [],
+  availableRooms: [],
   view: 'third',
   isConnected: false,
   
@@ -21,7 +26,15 @@ export const useGameStore = create<GameStore>((set) => ({
     currentPlayer: player,
     lobby: [...state.lobby.filter(p => p.id !== player.id), player] // Add current player to lobby too
   })),
-  setRoom: (room) => set({ currentRoom: room }),
+  setRoom: (room) => set((state) => {
+    if (!state.currentPlayer) return { currentRoom: room }
+    const { room: _previous, ...player } = state.currentPlayer
+    return {
+      currentRoom: room,
+      currentPlayer: room ? { ...player, room: room.id } : player
+    }
+  }),
+  setSpectatingRoom: (room) => set({ spectatingRoom: room }),
   setView: (view) => set({ view }),
   setConnected: (connected) => set({ isConnected: connected }),
   
@@ -33,5 +46,15 @@ export const useGameStore = create<GameStore>((set) => ({
   removeFromLobby: (playerId) => 
     set((state) => ({ 
       lobby: state.lobby.filter(p => p.id !== playerId) 
-    }))
+    })),
+
+  // Server snapshots replace the lobby wholesale; the local player is always kept
+  setLobby: (players) =>
+    set((state) => ({
+      lobby: state.currentPlayer
+        ? [...players.filter(p => p.id !== state.currentPlayer!.id), state.currentPlayer]
+        : players
+    })),
+
+  setAvailableRooms: (rooms) => set({ availableRooms: rooms })
 }))
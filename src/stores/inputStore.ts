@@ -0,0 +1,56 @@
+import { create } from 'zustand'
+import {
+  bindKey,
+  loadKeyBindings,
+  resetKeyBindings,
+  saveKeyBindings,
+  unbindKey,
+  type InputAction,
+  type KeyBindings
+} from '@/systems/Input/inputMap'
+import {
+  clampSensitivity,
+  loadLookSettings,
+  resetLookSettings,
+  saveLookSettings,
+  type LookSettings
+} from '@/systems/Input/lookSettings'
+
+interface InputStore {
+  bindings: KeyBindings
+  look: LookSettings
+  gamepadConnected: boolean
+  rebind: (action: InputAction, slot: number, code: string) => void
+  unbind: (action: InputAction, slot: number) => void
+  resetBindings: () => void
+  setLookSettings: (settings: Partial<LookSettings>) => void
+  resetLookSettings: () => void
+  setGamepadConnected: (connected: boolean) => void
+}
+
+// Rebinds and look settings are persisted to localStorage as they happen
+export const useInputStore = create<InputStore>((set) => ({
+  bindings: loadKeyBindings(),
+  look: loadLookSettings(),
+  gamepadConnected: false,
+
+  rebind: (action, slot, code) => set((state) => {
+    const bindings = bindKey(state.bindings, action, slot, code)
+    saveKeyBindings(bindings)
+    return { bindings }
+  }),
+  unbind: (action, slot) => set((state) => {
+    const bindings = unbindKey(state.bindings, action, slot)
+    saveKeyBindings(bindings)
+    return { bindings }
+  }),
+  resetBindings: () => set({ bindings: resetKeyBindings() }),
+  setLookSettings: (settings) => set((state) => {
+    const look = { ...state.look, ...settings }
+    look.sensitivity = clampSensitivity(look.sensitivity)
+    saveLookSettings(look)
+    return { look }
+  }),
+  resetLookSettings: () => set({ look: resetLookSettings() }),
+  setGamepadConnected: (connected) => set({ gamepadConnected: connected })
+}))
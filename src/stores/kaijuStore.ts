@@ -0,0 +1,31 @@
+import { create } from 'zustand'
+import type { KaijuSnapshot } from '@/systems/Networking/protocol'
+
+interface KaijuStore {
+  // Latest server state per kaiju; transforms are read from kaijuInterpolator instead
+  kaiju: KaijuSnapshot[]
+  syncKaiju: (kaiju: KaijuSnapshot[]) => void
+  clearKaiju: () => void
+}
+
+// Snapshots arrive every tick but positions are interpolated elsewhere, so only
+// re-render when a kaiju appears, disappears, changes behaviour or takes damage, or a
+// boss changes phase or starts or finishes telegraphing an attack
+const isSameKaiju = (a: KaijuSnapshot[], b: KaijuSnapshot[]) =>
+  a.length === b.length && a.every((kaiju, i) =>
+    kaiju.id === b[i].id &&
+    kaiju.behaviour === b[i].behaviour &&
+    kaiju.health === b[i].health &&
+    kaiju.targetId === b[i].targetId &&
+    kaiju.phase === b[i].phase &&
+    kaiju.clip === b[i].clip &&
+    kaiju.telegraph?.attackId === b[i].telegraph?.attackId)
+
+export const useKaijuStore = create<KaijuStore>((set, get) => ({
+  kaiju: [],
+
+  syncKaiju: (kaiju) => {
+    if (!isSameKaiju(get().kaiju, kaiju)) set({ kaiju })
+  },
+  clearKaiju: () => set({ kaiju: [] })
+}))
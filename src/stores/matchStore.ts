@@ -0,0 +1,21 @@
+import { create } from 'zustand'
+import type { MatchState } from '@/systems/GameMode/gameModes'
+
+interface MatchStore {
+  match: MatchState | null
+  // Local clock (ms) the current phase ends, derived from phaseEndsIn on receipt
+  phaseEndsAt: number | null
+  setMatch: (match: MatchState) => void
+  clearMatch: () => void
+}
+
+export const useMatchStore = create<MatchStore>((set) => ({
+  match: null,
+  phaseEndsAt: null,
+
+  setMatch: (match) => set({
+    match,
+    phaseEndsAt: match.phaseEndsIn === null ? null : Date.now() + match.phaseEndsIn
+  }),
+  clearMatch: () => set({ match: null, phaseEndsAt: null })
+}))
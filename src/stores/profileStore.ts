@@ -0,0 +1,34 @@
+import { create } from 'zustand'
+import {
+  loadProfile,
+  resetProfile,
+  saveProfile,
+  type PlayerIdentity,
+  type PlayerProfile
+} from '@/systems/Profile/profile'
+
+interface ProfileStore {
+  profile: PlayerProfile
+  setDisplayName: (displayName: string) => void
+  setAvatarId: (avatarId: string) => void
+  setIdentity: (identity: PlayerIdentity) => void
+  resetProfile: () => void
+}
+
+// Every change is persisted to localStorage as it happens
+export const useProfileStore = create<ProfileStore>((set) => {
+  const update = (changes: Partial<PlayerProfile>) => set((state) => {
+    const profile = { ...state.profile, ...changes }
+    saveProfile(profile)
+    return { profile }
+  })
+
+  return {
+    profile: loadProfile(),
+
+    setDisplayName: (displayName) => update({ displayName }),
+    setAvatarId: (avatarId) => update({ avatarId }),
+    setIdentity: (identity) => update({ identity }),
+    resetProfile: () => set({ profile: resetProfile() })
+  }
+})
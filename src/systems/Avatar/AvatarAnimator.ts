@@ -0,0 +1,202 @@
+import { LoopOnce, LoopRepeat, type AnimationAction, type AnimationClip, type AnimationMixer } from 'three'
+import {
+  blendWeights,
+  type AnimationGraph,
+  type AnimationStateName,
+  type BlendTreePoint,
+  type LocomotionState,
+  type OneShotState
+} from './animationGraph'
+
+// What drives the graph each frame
+export interface AnimationParams {
+  // Horizontal speed in units/s, for the locomotion blend tree
+  speed: number
+  // Off the ground plays the jump state
+  grounded: boolean
+  // Plays the die state and holds its last frame
+  dead: boolean
+  // Clip held over everything while set (e.g. a kaiju attack cue), matched
+  // case-insensitively against clip names; ignored if nothing matches
+  override: string | null
+}
+
+interface StateAction {
+  action: AnimationAction
+  fade: number
+  weight: number
+}
+
+type BaseLayer = 'locomotion' | 'jump' | 'die'
+
+// Locomotion loops; everything else plays once and holds its last frame
+const LOOPING_STATES: AnimationStateName[] = ['idle', 'walk', 'run']
+
+// Fade for override clips, which have no state of their own
+const OVERRIDE_FADE = 0.2
+
+// Moves `value` towards `target` by at most `step`
+const approach = (value: number, target: number, step: number): number =>
+  value < target ? Math.min(target, value + step) : Math.max(target, value - step)
+
+function findClip(clips: AnimationClip[], names: string[]): AnimationClip | undefined {
+  for (const name of names) {
+    const clip = clips.find(c => c.name.toLowerCase() === name.toLowerCase())
+    if (clip) return clip
+  }
+  return undefined
+}
+
+// Runs an AnimationGraph on a mixer. The base layer is die while dead, jump while
+// airborne, else the locomotion blend tree at the current speed; triggered one-shots
+// (attack, hit) play once over it, and an override clip sits over both. Weights are
+// cross-faded here rather than with AnimationAction fades so layers compose.
+export class AvatarAnimator {
+  private states = new Map<AnimationStateName, StateAction>()
+  // The blend tree's points this avatar has clips for
+  private locomotion: BlendTreePoint[]
+  // Reused every update rather than allocated per frame
+  private targets = new Map<AnimationStateName, number>()
+  private locomotionWeights = new Map<LocomotionState, number>()
+  private usedClips = new Set<AnimationClip>()
+  // Copies of state clips cued as overrides, so the two get separate actions
+  private overrideClips = new Map<AnimationClip, AnimationClip>()
+  private base: BaseLayer | null = null
+  private oneShot: { state: OneShotState; elapsed: number } | null = null
+  private oneShotWeight = 0
+  private override: { name: string; action: AnimationAction } | null = null
+  private overrideWeight = 0
+
+  constructor(
+    private mixer: AnimationMixer,
+    private clips: AnimationClip[],
+    readonly graph: AnimationGraph
+  ) {
+    for (const name of Object.keys(graph.states) as AnimationStateName[]) {
+      const definition = graph.states[name]!
+      let clip = findClip(clips, definition.clips)
+      // Models without a recognised idle stand in their first clip
+      if (!clip && name === 'idle') clip = clips[0]
+      // A clip drives one state only, or their weights would fight over it
+      if (!clip || this.usedClips.has(clip)) continue
+      this.usedClips.add(clip)
+
+      const action = mixer.clipAction(clip)
+      action.setEffectiveTimeScale(definition.timeScale ?? 1)
+      action.setEffectiveWeight(0)
+      if (LOOPING_STATES.includes(name)) {
+        action.setLoop(LoopRepeat, Infinity)
+        action.play()
+      } else {
+        action.setLoop(LoopOnce, 1)
+        action.clampWhenFinished = true
+      }
+      this.states.set(name, { action, fade: Math.max(definition.fade, 1e-3), weight: 0 })
+    }
+    this.locomotion = graph.locomotion.filter(point => this.states.has(point.state))
+  }
+
+  // Starts a one-shot from the beginning, replacing any still playing; ignored while
+  // dead or if the avatar has no clip for it
+  play(state: OneShotState) {
+    const entry = this.states.get(state)
+    if (!entry || this.base === 'die') return
+    if (this.oneShot && this.oneShot.state !== state) this.states.get(this.oneShot.state)?.action.stop()
+    entry.action.reset().play()
+    this.oneShot = { state, elapsed: 0 }
+  }
+
+  update(delta: number, params: AnimationParams) {
+    // Base layer
+    const { targets } = this
+    targets.clear()
+    let base: BaseLayer
+    if (params.dead && this.states.has('die')) {
+      base = 'die'
+      targets.set('die', 1)
+    } else if (!params.grounded && this.states.has('jump')) {
+      base = 'jump'
+      targets.set('jump', 1)
+    } else {
+      base = 'locomotion'
+      const weights = blendWeights(this.locomotion, params.speed, this.locomotionWeights)
+      for (let i = 0; i < this.locomotion.length; i++) {
+        const { state } = this.locomotion[i]
+        targets.set(state, weights.get(state)!)
+      }
+      if (targets.size === 0 && this.states.has('idle')) targets.set('idle', 1)
+    }
+    if (base !== this.base) {
+      if (base !== 'locomotion') this.states.get(base)!.action.reset().play()
+      if (base === 'die') this.endOneShot()
+      this.base = base
+    }
+
+    // One-shot layer: in over its fade, out over the same as the clip runs out
+    if (this.oneShot) {
+      const entry = this.states.get(this.oneShot.state)!
+      const timeScale = Math.abs(entry.action.getEffectiveTimeScale()) || 1
+      const remaining = (entry.action.getClip().duration - entry.action.time) / timeScale
+      this.oneShot.elapsed += delta
+      this.oneShotWeight = Math.max(0, Math.min(1, this.oneShot.elapsed / entry.fade, remaining / entry.fade))
+      if (remaining <= 0) this.endOneShot()
+    }
+
+    // Override layer
+    const wanted = params.override?.toLowerCase() ?? null
+    if (wanted && this.override?.name !== wanted) {
+      const clip = this.clips.find(c => c.name.toLowerCase().includes(wanted))
+      if (clip) {
+        this.override?.action.stop()
+        const action = this.mixer.clipAction(this.overrideClip(clip))
+        action.setLoop(LoopRepeat, Infinity)
+        action.reset().play()
+        this.override = { name: wanted, action }
+      }
+    }
+    this.overrideWeight = approach(this.overrideWeight, wanted && this.override ? 1 : 0, delta / OVERRIDE_FADE)
+    if (this.override && this.overrideWeight === 0 && !wanted) {
+      this.override.action.stop()
+      this.override = null
+    }
+
+    // Cross-fade each state towards its target, then share what the upper layers leave
+    let total = 0
+    this.states.forEach((entry, state) => {
+      if (state === 'attack' || state === 'hit') return
+      entry.weight = approach(entry.weight, targets.get(state) ?? 0, delta / entry.fade)
+      total += entry.weight
+    })
+    const overrideShare = this.overrideWeight
+    const oneShotShare = this.oneShotWeight * (1 - overrideShare)
+    const baseShare = (1 - overrideShare) * (1 - this.oneShotWeight)
+    this.states.forEach((entry, state) => {
+      if (state === 'attack' || state === 'hit') {
+        entry.action.setEffectiveWeight(this.oneShot?.state === state ? oneShotShare : 0)
+      } else {
+        // Normalised so mid-fade weights never let the bind pose show through
+        entry.action.setEffectiveWeight(total > 0 ? (entry.weight / total) * baseShare : 0)
+      }
+    })
+    this.override?.action.setEffectiveWeight(overrideShare)
+
+    this.mixer.update(delta)
+  }
+
+  private endOneShot() {
+    if (!this.oneShot) return
+    this.states.get(this.oneShot.state)?.action.stop()
+    this.oneShot = null
+    this.oneShotWeight = 0
+  }
+
+  private overrideClip(clip: AnimationClip): AnimationClip {
+    if (!this.usedClips.has(clip)) return clip
+    let copy = this.overrideClips.get(clip)
+    if (!copy) {
+      copy = clip.clone()
+      this.overrideClips.set(clip, copy)
+    }
+    return copy
+  }
+}
@@ -5,6 +5,9 @@ import * as THREE from 'three'
 import type { Vector3Tuple } from 'three'
 import type { Avatar } from '@/types'
 import { analyzeModel, createNormalizedContainer, logModelAnalysis } from '@/utils/loaders/gltfInspector'
+import { AvatarAnimator, type AnimationParams } from './AvatarAnimator'
+import { getAnimationGraph, locomotionSpeed, type OneShotState } from './animationGraph'
+import { DEFAULT_AVATAR_HEIGHT } from './avatarManifest'
 
 // Modern animation hook with proper cleanup
 function useModernAnimationControls(avatar: Avatar) {
@@ -57,6 +60,15 @@ function useModernAnimationControls(avatar: Avatar) {
   }
 }
 
+// Measured from the loaded model: height and bounds in model units, worldHeight after
+// normalisation and `scale` (what a camera at eye level needs)
+export interface AvatarMetrics {
+  height: number
+  worldHeight: number
+  bboxMin: number[]
+  bboxMax: number[]
+}
+
 // Props interface with better typing
 interface ModernAvatarSystemProps {
   avatar: Avatar
@@ -66,18 +78,39 @@ interface ModernAvatarSystemProps {
   visible?: boolean
   isMoving?: boolean
   isRunning?: boolean
+  // Read every frame for the locomotion blend tree (units/s); without it the speed is
+  // the graph's walk or run speed from isMoving/isRunning
+  getSpeed?: () => number
+  isGrounded?: boolean
+  isDead?: boolean
+  // Plays a one-shot state each time `at` changes (e.g. the local clock of an attack)
+  oneShot?: { state: OneShotState; at: number }
   label?: string
+  // Overrides the movement-driven clip while set (e.g. an attack wind-up); matched
+  // case-insensitively against clip names, ignored if nothing matches
+  clip?: string
+  // Called with the normalised model once it is in the scene, e.g. to find bones
+  onModelReady?: (model: THREE.Object3D) => void
+  // Called with the avatar's measurements each time the model is set up
+  onMetrics?: (metrics: AvatarMetrics) => void
 }
 
 export const ModernAvatarSystem = memo(function ModernAvatarSystem({
   avatar,
   position = [0, 0, 0],
   rotation = [0, 0, 0],
-  scale = 1, // world-scale by default; model normalized to ~1.8m
+  scale = 1, // world-scale by default; model sized per the avatar manifest
   visible = true,
   isMoving = false,
   isRunning = false,
-  label
+  getSpeed,
+  isGrounded = true,
+  isDead = false,
+  oneShot,
+  label,
+  clip,
+  onModelReady,
+  onMetrics
 }: ModernAvatarSystemProps) {
   // COMPONENT LIFECYCLE TRACKING
   const renderCount = useRef(0)
@@ -87,7 +120,8 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
   renderCount.current++
   
   // GLOBAL INSTANCE GUARD - Prevent multiple instances of same avatar
-  const globalKey = `instance_${avatar.name}`
+  // (labelled instances, e.g. remote players, are tracked separately)
+  const globalKey = `instance_${avatar.name}${label ? `_${label}` : ''}`
   if ((window as any)[globalKey] && (window as any)[globalKey] !== componentId.current) {
     console.log('🚫 DUPLICATE_AVATAR_INSTANCE_DETECTED', {
       avatar: avatar.name,
@@ -188,7 +222,7 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
   }))
   
   const groupRef = useRef<Group>(null)
-  const { mixerRef, registerMixer, playAnimation, cleanup } = useModernAnimationControls(avatar)
+  const { registerMixer, playAnimation, cleanup } = useModernAnimationControls(avatar)
   const containerRef = useRef<THREE.Group | null>(null)
   const pivotRef = useRef<THREE.Group | null>(null)
   const hasSetupRunRef = useRef<boolean>(false)
@@ -219,10 +253,27 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
     }))
   } catch {}
   const lastPositionLogRef = useRef<number>(0)
-  const strippedClipsRef = useRef<THREE.AnimationClip[] | null>(null)
-  const currentClipNameRef = useRef<string | null>(null)
-  const playStrippedRef = useRef<((name: string) => void) | null>(null)
-  const avatarMetricsRef = useRef<{ height: number; bboxMin: number[]; bboxMax: number[] } | null>(null)
+  const animatorRef = useRef<AvatarAnimator | null>(null)
+  // Read from callbacks that are deliberately not rebuilt when these change
+  const clipRef = useRef(clip)
+  clipRef.current = clip
+  const motionRef = useRef({ isMoving, isRunning, getSpeed, isGrounded, isDead })
+  motionRef.current = { isMoving, isRunning, getSpeed, isGrounded, isDead }
+  // Filled in place each frame
+  const animationParams = useRef<AnimationParams>({ speed: 0, grounded: true, dead: false, override: null })
+  // Cued before mount (an attack made in another view) is history, not a trigger
+  const lastOneShotAt = useRef(oneShot?.at)
+
+  useEffect(() => {
+    if (!oneShot || oneShot.at === lastOneShotAt.current) return
+    lastOneShotAt.current = oneShot.at
+    animatorRef.current?.play(oneShot.state)
+  }, [oneShot?.state, oneShot?.at])
+  const onModelReadyRef = useRef(onModelReady)
+  onModelReadyRef.current = onModelReady
+  const onMetricsRef = useRef(onMetrics)
+  onMetricsRef.current = onMetrics
+  const avatarMetricsRef = useRef<AvatarMetrics | null>(null)
 
   // Remove root-motion by filtering position tracks from clips
   const getRootMotionStrippedClips = useCallback(() => {
@@ -317,6 +368,7 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
       const height = Number((analysis.size.y).toFixed(3))
       avatarMetricsRef.current = {
         height,
+        worldHeight: height,
         bboxMin: analysis.boundingBox.min.toArray().map(n => Number(n.toFixed(3))),
         bboxMax: analysis.boundingBox.max.toArray().map(n => Number(n.toFixed(3)))
       }
@@ -327,15 +379,22 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
         bboxMax: avatarMetricsRef.current.bboxMax
       }))
     } catch {}
+    // The manifest sizes each model: a fixed scale, else a standing height to normalise to
+    const targetHeight = avatar.height ?? DEFAULT_AVATAR_HEIGHT
     console.log('🏗️ CREATING_NORMALIZED_CONTAINER', {
       originalModelExists: !!clonedModel,
-      targetHeight: 1.8,
+      targetHeight: avatar.scale ? null : targetHeight,
+      manifestScale: avatar.scale ?? null,
       avatar: avatar.name,
       timestamp: Date.now()
     })
     console.log('CONTAINER_CREATE_START', avatar.name) // Simple log for parser
     
-    const container = createNormalizedContainer(clonedModel, { centerToGround: true, targetHeight: 1.8 })
+    const container = createNormalizedContainer(clonedModel, {
+      centerToGround: true,
+      targetHeight: avatar.scale ? undefined : targetHeight
+    })
+    if (avatar.scale) container.scale.setScalar(avatar.scale)
     container.name = 'AvatarContainer'
     containerRef.current = container
     pivotRef.current = container.getObjectByName('AvatarPivot') as THREE.Group | null
@@ -349,13 +408,13 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
     
     // Apply desired global scale (post-normalization)
     const originalHeight = analysis.size.y
-    const normalizedScaleFactor = originalHeight > 0 ? 1.8 / originalHeight : 1
+    const normalizedScaleFactor = avatar.scale ?? (originalHeight > 0 ? targetHeight / originalHeight : 1)
     const finalScale = normalizedScaleFactor * scale
     const finalHeight = originalHeight * finalScale
     
     console.log(`🎯 ${avatar.name} SCALING ANALYSIS:`, {
       originalHeight,
-      normalizedHeight: 1.8,
+      normalizedHeight: originalHeight * normalizedScaleFactor,
       normalizedScaleFactor,
       scaleMultiplier: scale,
       finalScale,
@@ -363,6 +422,7 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
       containerScaleBefore: container.scale.toArray(),
     })
     container.scale.multiplyScalar(scale)
+    if (avatarMetricsRef.current) avatarMetricsRef.current.worldHeight = finalHeight
     
     console.log(`🎯 ${avatar.name} SCALING RESULT:`, {
       containerScale: `(${container.scale.x.toFixed(6)}, ${container.scale.y.toFixed(6)}, ${container.scale.z.toFixed(6)})`,
@@ -490,7 +550,6 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
       registerMixer(mixer)
 
       const strippedClips = getRootMotionStrippedClips()
-      strippedClipsRef.current = strippedClips
       // JSON list of available clip names for diagnostics
       try {
         console.log('TPJ CLIPS', JSON.stringify({
@@ -509,29 +568,8 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
           strippedPositionTrackCount
         })
       } catch {}
-      // Helper to play from stripped clips by name
-      const playStrippedByName = (name: string) => {
-        const clip = strippedClips.find((c) => c.name === name) || strippedClips[0]
-        if (!clip) return
-        const action = mixer.clipAction(clip)
-        action.reset()
-        action.fadeIn(0.2)
-        action.setLoop(THREE.LoopRepeat, Infinity)
-        action.play()
-        currentClipNameRef.current = clip.name
-      }
-      playStrippedRef.current = playStrippedByName
-
-      // Auto-play preferred animation on load (prefer Smoking > Idle > Standing)
-      const preferredOnLoad =
-        strippedClips.find(c => /smok/i.test(c.name)) ||
-        strippedClips.find(c => /idle/i.test(c.name)) ||
-        strippedClips.find(c => /standing/i.test(c.name)) ||
-        strippedClips[0]
-
-      if (preferredOnLoad) {
-        setTimeout(() => playStrippedByName(preferredOnLoad.name), 100)
-      }
+      // The graph picks clips by state; idle plays from the first frame
+      animatorRef.current = new AvatarAnimator(mixer, strippedClips, getAnimationGraph(avatar.animationGraph))
 
       console.log(`🎬 Setup ${avatar.animations.length} animations for ${avatar.name} (root motion stripped)`) 
     }
@@ -585,7 +623,9 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
     
     // Clear the setup guard
     delete (window as any).__currentSetup
-    
+
+    onModelReadyRef.current?.(container)
+    if (avatarMetricsRef.current) onMetricsRef.current?.({ ...avatarMetricsRef.current })
     return container
   }, [avatar.model, avatar.name, avatar.animations, scale, registerMixer, playAnimation])
   
@@ -640,7 +680,7 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
       })
       console.log('COMPONENT_UNMOUNT', avatar.name) // Simple log for parser
       try {
-        const key = `instance_${avatar.name}`
+        const key = globalKey
         if ((window as any)[key] === componentId.current) {
           delete (window as any)[key]
           console.log('TPJ AVATAR_INSTANCE', JSON.stringify({
@@ -711,6 +751,7 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
       })
       console.log('SETUP_CLEANUP_START', avatar.name) // Simple log for parser
       cleanup()
+      animatorRef.current = null
       // Proper cleanup of Three.js resources
       if (model) {
         model.traverse((child: Object3D) => {
@@ -883,45 +924,18 @@ export const ModernAvatarSystem = memo(function ModernAvatarSystem({
       })
     }
 
-    // Update animation mixer & auto-switch animation based on movement state
-    if (mixerRef.current) {
-      mixerRef.current.update(delta)
-      try {
-        const clips = strippedClipsRef.current
-        const playByName = playStrippedRef.current
-        if (clips && playByName) {
-          const want: string | null = (() => {
-            const findBy = (patterns: RegExp[]) => {
-              for (const p of patterns) {
-                const hit = clips.find(c => p.test(c.name))
-                if (hit) return hit.name
-              }
-              return null
-            }
-            if (isMoving) {
-              const moving = findBy([
-                isRunning ? /run/i : /$^/,
-                /walk/i,
-                /move/i,
-                /locomotion/i,
-                /forward/i
-              ])
-              if (moving) return moving
-              // Fallback: first non-idle clip
-              const nonIdle = clips.find(c => !/idle|stand|tpose/i.test(c.name))
-              if (nonIdle) return nonIdle.name
-            }
-            const idle = findBy([/smok/i, /idle/i, /stand/i, /tpose/i])
-            if (idle) return idle
-            return clips[0] ? clips[0].name : null
-          })()
-          if (want && want !== currentClipNameRef.current) {
-            currentClipNameRef.current = want
-            playByName(want)
-            console.log('TPJ ANIM', JSON.stringify({ clip: want, moving: isMoving }))
-          }
-        }
-      } catch {}
+    // Advance the animation graph
+    const animator = animatorRef.current
+    if (animator) {
+      const motion = motionRef.current
+      const params = animationParams.current
+      params.speed = motion.getSpeed
+        ? motion.getSpeed()
+        : locomotionSpeed(animator.graph, motion.isMoving ? (motion.isRunning ? 'run' : 'walk') : 'idle')
+      params.grounded = motion.isGrounded
+      params.dead = motion.isDead
+      params.override = clipRef.current ?? null
+      animator.update(delta, params)
     }
 
     // Per-frame world space diagnostics (throttled)
@@ -0,0 +1,92 @@
+import { memo, useEffect, useMemo, useRef, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
+import type { Group } from 'three'
+import type { Avatar, Player } from '@/types'
+import { useGameStore } from '@/stores/gameStore'
+import { gltfAvatarLoader } from '@/utils/loaders/gltfAvatarLoader'
+import { ModernAvatarSystem } from '@/systems/Avatar/ModernAvatarSystem'
+import {
+  remotePlayerInterpolator,
+  type InterpolatedTransform
+} from '@/systems/Networking/SnapshotInterpolator'
+
+const RemotePlayerAvatar = memo(function RemotePlayerAvatar({ player }: { player: Player }) {
+  const groupRef = useRef<Group>(null)
+  const [avatar, setAvatar] = useState<Avatar | null>(null)
+
+  // Reused every frame - sampling writes into it
+  const transform = useMemo<InterpolatedTransform>(() => ({
+    position: [...player.position],
+    yaw: player.rotation[1],
+    speed: 0,
+    extrapolating: false
+  }), [player.id])
+
+  // Remote players arrive with only an avatar id; load the model through the shared cache
+  useEffect(() => {
+    let cancelled = false
+    gltfAvatarLoader.loadAvatar(player.avatar.id)
+      .then(loaded => {
+        if (!cancelled) setAvatar(loaded)
+      })
+      .catch(error => {
+        console.warn(`⚠️ Could not load avatar ${player.avatar.id} for ${player.name}, using placeholder:`, error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [player.avatar.id, player.name])
+
+  useFrame(() => {
+    const group = groupRef.current
+    if (!group || !remotePlayerInterpolator.sample(player.id, transform)) return
+
+    group.position.set(transform.position[0], transform.position[1], transform.position[2])
+    group.rotation.y = transform.yaw
+  })
+
+  return (
+    <group ref={groupRef} position={player.position} rotation={[0, player.rotation[1], 0]}>
+      {avatar ? (
+        <ModernAvatarSystem
+          avatar={avatar}
+          // The blend tree follows the interpolated speed without re-rendering
+          getSpeed={() => transform.speed}
+          isDead={player.health !== undefined && player.health.current <= 0}
+          label={`remote_${player.id}`}
+        />
+      ) : (
+        <mesh position={[0, 0.9, 0]} castShadow>
+          <capsuleGeometry args={[0.35, 1.1, 4, 8]} />
+          <meshStandardMaterial color="#8888ff" />
+        </mesh>
+      )}
+      <Html position={[0, 2.2, 0]} center distanceFactor={12}>
+        <div className="bg-black bg-opacity-50 text-white text-xs px-2 py-0.5 rounded whitespace-nowrap pointer-events-none">
+          {player.name}
+        </div>
+      </Html>
+    </group>
+  )
+})
+
+// Everyone sharing the local player's space: their room, the room they are spectating,
+// or the lobby space
+export const RemotePlayers = memo(function RemotePlayers() {
+  const { lobby, currentPlayer, spectatingRoom } = useGameStore()
+  const spaceId = currentPlayer?.room ?? spectatingRoom?.id ?? null
+
+  const others = useMemo(() =>
+    lobby.filter(p => p.id !== currentPlayer?.id && (p.room ?? null) === spaceId),
+    [lobby, currentPlayer?.id, spaceId]
+  )
+
+  return (
+    <>
+      {others.map(player => (
+        <RemotePlayerAvatar key={player.id} player={player} />
+      ))}
+    </>
+  )
+})
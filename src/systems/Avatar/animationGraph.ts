@@ -0,0 +1,105 @@
+// Declarative animation graphs: which clips an avatar plays in each state, how long
+// cross-fades take, and how locomotion blends with movement speed. AvatarAnimator
+// runs a graph against an avatar's clips; the avatar manifest overrides it per model.
+
+export type LocomotionState = 'idle' | 'walk' | 'run'
+// Played once over the base layer when triggered, then faded back out
+export type OneShotState = 'attack' | 'hit'
+export type AnimationStateName = LocomotionState | OneShotState | 'jump' | 'die'
+
+export const ANIMATION_STATE_NAMES: readonly AnimationStateName[] = ['idle', 'walk', 'run', 'jump', 'attack', 'hit', 'die']
+export const LOCOMOTION_STATE_NAMES: readonly LocomotionState[] = ['idle', 'walk', 'run']
+
+export interface AnimationStateDefinition {
+  // Clip names in order of preference, matched case-insensitively; the first the model
+  // has is used and the state is skipped if it has none
+  clips: string[]
+  // Seconds to cross-fade into (and out of) this state
+  fade: number
+  // Playback rate multiplier
+  timeScale?: number
+}
+
+// A locomotion state at full weight at `speed` (units/s); between two points the
+// neighbours blend linearly, beyond the ends the end state holds
+export interface BlendTreePoint {
+  state: LocomotionState
+  speed: number
+}
+
+export interface AnimationGraph {
+  states: Partial<Record<AnimationStateName, AnimationStateDefinition>>
+  // 1D blend tree for the base layer, sorted by speed
+  locomotion: BlendTreePoint[]
+}
+
+// A state as an avatar overrides it: its own clips, and the default state's fade and
+// playback rate unless it gives its own
+export type AnimationStateOverride = Pick<AnimationStateDefinition, 'clips'> & Partial<AnimationStateDefinition>
+
+// An avatar's changes to the default graph; anything left out keeps the default
+export interface AnimationGraphOverrides {
+  states?: Partial<Record<AnimationStateName, AnimationStateOverride>>
+  locomotion?: BlendTreePoint[]
+}
+
+// useKeyboardMovement walks at 12 units/s and runs at 1.8x
+export const DEFAULT_ANIMATION_GRAPH: AnimationGraph = {
+  states: {
+    idle: { clips: ['Idle', 'Standing', 'T-Pose'], fade: 0.25 },
+    walk: { clips: ['Walking', 'Walk'], fade: 0.2 },
+    run: { clips: ['Running', 'Run'], fade: 0.2 },
+    jump: { clips: ['Jump', 'Jumping'], fade: 0.1 },
+    attack: { clips: ['Attack', 'Punch', 'Punching'], fade: 0.1 },
+    hit: { clips: ['Hit', 'Hit Reaction', 'Hurt'], fade: 0.1 },
+    die: { clips: ['Dying', 'Death', 'Die'], fade: 0.2 }
+  },
+  locomotion: [
+    { state: 'idle', speed: 0 },
+    { state: 'walk', speed: 12 },
+    { state: 'run', speed: 21.6 }
+  ]
+}
+
+// The default graph with an avatar's overrides applied
+export function getAnimationGraph(overrides: AnimationGraphOverrides = {}): AnimationGraph {
+  const states = { ...DEFAULT_ANIMATION_GRAPH.states }
+  for (const name of Object.keys(overrides.states ?? {}) as AnimationStateName[]) {
+    const override = overrides.states![name]
+    const defaults = DEFAULT_ANIMATION_GRAPH.states[name]
+    if (override && defaults) states[name] = { ...defaults, ...override }
+  }
+  return { states, locomotion: overrides.locomotion ?? DEFAULT_ANIMATION_GRAPH.locomotion }
+}
+
+// Speed at which `state` is fully weighted, or 0 if the tree doesn't have it
+export const locomotionSpeed = (graph: AnimationGraph, state: LocomotionState): number =>
+  graph.locomotion.find(point => point.state === state)?.speed ?? 0
+
+// Weights of the tree's points at `speed`, written into `weights` (cleared first); they
+// sum to 1 unless the tree is empty
+export function blendWeights(
+  points: readonly BlendTreePoint[],
+  speed: number,
+  weights: Map<LocomotionState, number> = new Map()
+): Map<LocomotionState, number> {
+  weights.clear()
+  for (const point of points) weights.set(point.state, 0)
+  if (points.length === 0) return weights
+  if (speed <= points[0].speed) {
+    weights.set(points[0].state, 1)
+    return weights
+  }
+  for (let i = 1; i < points.length; i++) {
+    const lower = points[i - 1]
+    const upper = points[i]
+    if (speed <= upper.speed) {
+      const t = (speed - lower.speed) / Math.max(upper.speed - lower.speed, 1e-6)
+      weights.set(lower.state, 1 - t)
+      weights.set(upper.state, t)
+      return weights
+    }
+  }
+  weights.set(points[points.length - 1].state, 1)
+  return weights
+}
@@ -0,0 +1,162 @@
+import {
+  ANIMATION_STATE_NAMES,
+  LOCOMOTION_STATE_NAMES,
+  type AnimationStateName,
+  type AnimationStateOverride,
+  type BlendTreePoint
+} from './animationGraph'
+
+// The avatar manifest (public/avatar/manifest.json) lists every model the game can load:
+// its files per quality tier, how it is sized, which clips play each animation state and
+// who made it. The selection screen lists it and the glTF loader resolves files from it.
+
+export const AVATAR_MANIFEST_VERSION = 1
+
+// Best first; a missing tier falls back to the next one down, then up
+export const AVATAR_QUALITY_TIERS = ['high', 'medium', 'low'] as const
+export type AvatarQuality = typeof AVATAR_QUALITY_TIERS[number]
+
+// Models are normalised to this standing height unless the manifest says otherwise
+export const DEFAULT_AVATAR_HEIGHT = 1.8
+
+export interface AvatarAttribution {
+  author: string
+  license: string
+  // Where the model came from
+  url?: string
+}
+
+export interface AvatarManifestEntry {
+  id: string
+  name: string
+  description: string
+  // glTF or GLB file per tier, relative to /avatar/; at least one
+  files: Partial<Record<AvatarQuality, string>>
+  // Image relative to /avatar/ shown on the selection screen
+  thumbnail?: string
+  // Standing height in world units the model is scaled to
+  height?: number
+  // Fixed scale from model units instead, for models already authored to size
+  scale?: number
+  // Per animation state: clip names replacing the default ones, and optionally its own
+  // cross-fade seconds and playback rate
+  animations?: Partial<Record<AnimationStateName, AnimationStateOverride>>
+  // Locomotion blend tree replacing the default one, sorted by speed
+  locomotion?: BlendTreePoint[]
+  attribution?: AvatarAttribution
+  // False for models players can't pick: ones only kaiju use, or whose license is unknown.
+  // They still load by id.
+  selectable?: boolean
+}
+
+export interface AvatarManifest {
+  version: typeof AVATAR_MANIFEST_VERSION
+  avatars: AvatarManifestEntry[]
+}
+
+export class AvatarManifestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AvatarManifestError'
+  }
+}
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0
+const isNonNegative = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+const isOptionalString = (value: unknown): boolean => value === undefined || typeof value === 'string'
+
+function expect(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new AvatarManifestError(message)
+}
+
+// Validates untrusted JSON; throws AvatarManifestError naming the first problem found
+export function parseAvatarManifest(data: unknown): AvatarManifest {
+  expect(data && typeof data === 'object', 'Avatar manifest must be a JSON object')
+  const manifest = data as AvatarManifest
+
+  expect(manifest.version === AVATAR_MANIFEST_VERSION,
+    `Unsupported avatar manifest version ${String(manifest.version)} (expected ${AVATAR_MANIFEST_VERSION})`)
+  expect(Array.isArray(manifest.avatars) && manifest.avatars.length > 0, 'Avatar manifest lists no avatars')
+
+  const ids = new Set<string>()
+  manifest.avatars.forEach((avatar, index) => {
+    expect(avatar && typeof avatar === 'object', `Avatar ${index} must be an object`)
+    expect(isNonEmptyString(avatar.id), `Avatar ${index}: id is required`)
+    expect(!ids.has(avatar.id), `Avatar ${avatar.id} is listed twice`)
+    ids.add(avatar.id)
+    const label = `Avatar ${avatar.id}`
+
+    expect(isNonEmptyString(avatar.name), `${label}: name is required`)
+    expect(typeof avatar.description === 'string', `${label}: description is required`)
+    expect(avatar.files && typeof avatar.files === 'object', `${label}: files are required`)
+    for (const [tier, file] of Object.entries(avatar.files)) {
+      expect((AVATAR_QUALITY_TIERS as readonly string[]).includes(tier),
+        `${label}: unknown quality tier ${tier} (expected ${AVATAR_QUALITY_TIERS.join(', ')})`)
+      expect(isNonEmptyString(file) && /\.(gltf|glb)$/i.test(file), `${label}: ${tier} file must be a .gltf or .glb`)
+    }
+    expect(Object.keys(avatar.files).length > 0, `${label}: at least one file is required`)
+    expect(isOptionalString(avatar.thumbnail), `${label}: thumbnail must be a string`)
+    expect(avatar.height === undefined || isPositive(avatar.height), `${label}: height must be positive`)
+    expect(avatar.scale === undefined || isPositive(avatar.scale), `${label}: scale must be positive`)
+    expect(avatar.selectable === undefined || typeof avatar.selectable === 'boolean',
+      `${label}: selectable must be true or false`)
+
+    if (avatar.animations !== undefined) {
+      expect(avatar.animations && typeof avatar.animations === 'object', `${label}: animations must be an object`)
+      for (const [state, definition] of Object.entries(avatar.animations)) {
+        expect((ANIMATION_STATE_NAMES as readonly string[]).includes(state),
+          `${label}: unknown animation state ${state} (expected ${ANIMATION_STATE_NAMES.join(', ')})`)
+        expect(definition && typeof definition === 'object', `${label}: animation ${state} must be an object`)
+        const { clips, fade, timeScale } = definition
+        expect(Array.isArray(clips) && clips.length > 0 && clips.every(isNonEmptyString),
+          `${label}: animation ${state} needs a list of clip names`)
+        expect(fade === undefined || isNonNegative(fade), `${label}: animation ${state} fade must be zero or more`)
+        expect(timeScale === undefined || isPositive(timeScale), `${label}: animation ${state} timeScale must be positive`)
+      }
+    }
+
+    if (avatar.locomotion !== undefined) {
+      expect(Array.isArray(avatar.locomotion) && avatar.locomotion.length > 0,
+        `${label}: locomotion must be a list of blend points`)
+      const states = new Set<string>()
+      avatar.locomotion.forEach((point, i) => {
+        expect(point && (LOCOMOTION_STATE_NAMES as readonly string[]).includes(point.state),
+          `${label}: locomotion point ${i} state must be one of ${LOCOMOTION_STATE_NAMES.join(', ')}`)
+        expect(!states.has(point.state), `${label}: locomotion lists ${point.state} twice`)
+        states.add(point.state)
+        expect(isNonNegative(point.speed), `${label}: locomotion point ${i} speed must be zero or more`)
+        expect(i === 0 || point.speed > avatar.locomotion![i - 1].speed,
+          `${label}: locomotion points must be sorted by increasing speed`)
+      })
+    }
+
+    if (avatar.attribution !== undefined) {
+      const { attribution } = avatar
+      expect(attribution && isNonEmptyString(attribution.author) && isNonEmptyString(attribution.license),
+        `${label}: attribution needs an author and a license`)
+      expect(isOptionalString(attribution.url), `${label}: attribution url must be a string`)
+    }
+  })
+
+  return manifest
+}
+
+export const findAvatarEntry = (manifest: AvatarManifest, id: string | null): AvatarManifestEntry | undefined =>
+  manifest.avatars.find(avatar => avatar.id === id)
+
+// Avatars players can pick, in manifest order
+export const selectableAvatars = (manifest: AvatarManifest): AvatarManifestEntry[] =>
+  manifest.avatars.filter(avatar => avatar.selectable !== false)
+
+// Files to try for `quality`, best match first: that tier, lower tiers, then higher ones
+export function avatarFilesFor(entry: AvatarManifestEntry, quality: AvatarQuality): string[] {
+  const index = AVATAR_QUALITY_TIERS.indexOf(quality)
+  const order = [
+    ...AVATAR_QUALITY_TIERS.slice(index),
+    ...AVATAR_QUALITY_TIERS.slice(0, index).reverse()
+  ]
+  return order.map(tier => entry.files[tier]).filter((file): file is string => !!file)
+}
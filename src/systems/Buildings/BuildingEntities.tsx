@@ -0,0 +1,154 @@
+import { memo, useEffect, useRef, useState, type ReactNode } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Color, type Group } from 'three'
+import { useBuildingStore } from '@/stores/buildingStore'
+import { useBuilding } from '@/hooks/useBuilding'
+import { buildingLoader } from '@/utils/loaders/buildingLoader'
+import { effectPool } from '@/systems/Effects/effectPool'
+import type { BuildingSnapshot } from '@/systems/Networking/protocol'
+import type { BuildingDefinition } from './buildingFormat'
+
+const DEFAULT_COLOR = '#8a8f99'
+const DEBRIS_GRAVITY = 20
+const DEBRIS_LIFETIME = 1.6
+// A collapse throws out this many times a stage change's debris
+const COLLAPSE_DEBRIS_MULTIPLIER = 3
+// Each damage stage shaves this much off the placeholder box and darkens it
+const PLACEHOLDER_STAGE_SHRINK = 0.15
+const COLLAPSE_TILT = 0.2
+const COLLAPSE_SHAKE = 0.15
+
+// Chunks flung from the building's faces; purely visual, through the shared effect pool
+function spawnDebris(building: BuildingSnapshot, definition: BuildingDefinition, multiplier: number) {
+  const debris = definition.debris
+  if (!debris) return
+  const [width, height, depth] = building.size
+  const color = new Color(debris.color ?? definition.color ?? DEFAULT_COLOR).getHex()
+  for (let i = 0; i < debris.count * multiplier; i++) {
+    const angle = Math.random() * Math.PI * 2
+    const outX = Math.sin(angle)
+    const outZ = Math.cos(angle)
+    const speed = debris.speed * (0.5 + Math.random() * 0.5)
+    effectPool.spawnProjectile({
+      position: [
+        building.position[0] + outX * width / 2,
+        building.position[1] + height * (0.3 + Math.random() * 0.7),
+        building.position[2] + outZ * depth / 2
+      ],
+      velocity: [outX * speed, speed * (0.3 + Math.random() * 0.7), outZ * speed],
+      radius: debris.size * (0.5 + Math.random() * 0.5),
+      lifetime: DEBRIS_LIFETIME,
+      gravity: DEBRIS_GRAVITY,
+      ownerId: building.id,
+      color
+    })
+  }
+}
+
+// A glTF stage or rubble model, with a box standing in until (or unless) it loads
+const BuildingModel = memo(function BuildingModel({ url, scale, fallback }: {
+  url: string | undefined
+  scale: number
+  fallback: ReactNode
+}) {
+  const [model, setModel] = useState<Group | null>(null)
+
+  useEffect(() => {
+    setModel(null)
+    if (!url) return
+    let cancelled = false
+    buildingLoader.loadModel(url)
+      .then(loaded => {
+        if (!cancelled) setModel(loaded)
+      })
+      .catch(error => {
+        console.warn(`⚠️ Could not load building model ${url}, using placeholder:`, error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [url])
+
+  if (!model) return <>{fallback}</>
+  return <primitive object={model} scale={scale} />
+})
+
+const BuildingEntity = memo(function BuildingEntity({ building }: { building: BuildingSnapshot }) {
+  const definition = useBuilding(building.buildingId)
+  const collapseRef = useRef<Group>(null)
+  // Only a collapse seen happening is animated; one that happened before we joined is rubble already
+  const [collapseStartedAt, setCollapseStartedAt] = useState<number | null>(null)
+  const [collapseDone, setCollapseDone] = useState(building.collapsed)
+  const lastSeen = useRef({ stage: building.stage, collapsed: building.collapsed })
+
+  useEffect(() => {
+    const previous = lastSeen.current
+    lastSeen.current = { stage: building.stage, collapsed: building.collapsed }
+    if (building.collapsed && !previous.collapsed) {
+      setCollapseStartedAt(performance.now())
+      if (definition) spawnDebris(building, definition, COLLAPSE_DEBRIS_MULTIPLIER)
+    } else if (!building.collapsed && previous.collapsed) {
+      // Rebuilt for a new match
+      setCollapseStartedAt(null)
+      setCollapseDone(false)
+    } else if (building.stage > previous.stage && definition) {
+      spawnDebris(building, definition, 1)
+    }
+  }, [building, definition])
+
+  useFrame(() => {
+    const group = collapseRef.current
+    if (!group || collapseStartedAt === null || collapseDone) return
+    const duration = definition?.collapse.duration ?? 0
+    const progress = duration > 0 ? Math.min(1, (performance.now() - collapseStartedAt) / 1000 / duration) : 1
+    // Sinks into its own footprint, accelerating, leaning and shuddering on the way down
+    group.position.set(
+      (Math.random() - 0.5) * COLLAPSE_SHAKE * (1 - progress),
+      -building.size[1] * progress * progress,
+      (Math.random() - 0.5) * COLLAPSE_SHAKE * (1 - progress)
+    )
+    group.rotation.z = COLLAPSE_TILT * progress
+    if (progress >= 1) setCollapseDone(true)
+  })
+
+  if (!definition) return null
+  const [width, height, depth] = building.size
+  const color = new Color(definition.color ?? DEFAULT_COLOR)
+  const shrink = 1 - PLACEHOLDER_STAGE_SHRINK * building.stage
+  const stageHeight = height * shrink
+
+  return (
+    <group position={building.position} rotation={[0, building.yaw, 0]}>
+      {!collapseDone && (
+        <group ref={collapseRef}>
+          <BuildingModel
+            url={definition.stages[building.stage]?.model}
+            scale={definition.scale ?? 1}
+            fallback={
+              <mesh position={[0, stageHeight / 2, 0]} castShadow receiveShadow>
+                <boxGeometry args={[width, stageHeight, depth]} />
+                <meshStandardMaterial color={color.multiplyScalar(shrink)} />
+              </mesh>
+            }
+          />
+        </group>
+      )}
+      {building.collapsed && (
+        <BuildingModel url={definition.collapse.model} scale={definition.scale ?? 1} fallback={null} />
+      )}
+    </group>
+  )
+})
+
+// Every building in the current room, drawn at its damage stage
+export const BuildingEntities = memo(function BuildingEntities() {
+  const buildings = useBuildingStore(state => state.buildings)
+
+  return (
+    <>
+      {buildings.map(building => (
+        <BuildingEntity key={building.id} building={building} />
+      ))}
+    </>
+  )
+})
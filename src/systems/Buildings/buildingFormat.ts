@@ -0,0 +1,120 @@
+import type { Vector3Tuple } from 'three'
+import type { CollisionBox } from '@/systems/Physics/collisionWorld'
+
+// Destructible buildings (public/buildings/<id>.json). Levels place them by id; the server
+// owns their health and the client swaps to each damage stage's model as it falls, then
+// plays the collapse. Standing buildings are solid; rubble is not.
+
+export const BUILDING_FORMAT_VERSION = 1
+
+export interface BuildingStage {
+  // Shown from this fraction of max health downwards; the first stage starts at 1
+  healthBelow: number
+  // glTF model URL; without one the building is drawn as a box of its footprint
+  model?: string
+}
+
+export interface BuildingCollapse {
+  // Seconds the collapse animation takes
+  duration: number
+  // Left behind afterwards; nothing if omitted
+  model?: string
+}
+
+// Chunks thrown out on every stage change, and a bigger burst on collapse
+export interface BuildingDebris {
+  count: number
+  size: number
+  // Launch speed, world units per second
+  speed: number
+  color?: string
+}
+
+export interface BuildingDefinition {
+  version: typeof BUILDING_FORMAT_VERSION
+  id: string
+  name: string
+  maxHealth: number
+  // Footprint width, height and depth at yaw 0, standing on the placement position
+  size: Vector3Tuple
+  // Model scale, and the colour of the placeholder box
+  scale?: number
+  color?: string
+  stages: BuildingStage[]
+  collapse: BuildingCollapse
+  debris?: BuildingDebris
+}
+
+export class BuildingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BuildingError'
+  }
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+const isPositive = (value: unknown): value is number => isNumber(value) && value > 0
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string'
+
+function expect(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new BuildingError(message)
+}
+
+// Validates untrusted JSON; throws BuildingError naming the first problem found
+export function parseBuilding(data: unknown): BuildingDefinition {
+  expect(data && typeof data === 'object', 'Building must be a JSON object')
+  const building = data as BuildingDefinition
+
+  expect(building.version === BUILDING_FORMAT_VERSION,
+    `Unsupported building version ${String(building.version)} (expected ${BUILDING_FORMAT_VERSION})`)
+  expect(typeof building.id === 'string' && building.id, 'Building id is required')
+  expect(typeof building.name === 'string', `Building ${building.id}: name is required`)
+  expect(isPositive(building.maxHealth), `Building ${building.id}: maxHealth must be positive`)
+  expect(Array.isArray(building.size) && building.size.length === 3 && building.size.every(isPositive),
+    `Building ${building.id}: size must be [width, height, depth]`)
+  expect(building.scale === undefined || isPositive(building.scale), `Building ${building.id}: scale must be positive`)
+  expect(isOptionalString(building.color), `Building ${building.id}: color must be a string`)
+
+  expect(Array.isArray(building.stages) && building.stages.length > 0,
+    `Building ${building.id}: at least one stage is required`)
+  building.stages.forEach((stage, index) => {
+    const label = `Building ${building.id}: stage ${index}`
+    expect(stage && isNumber(stage.healthBelow) && stage.healthBelow > 0 && stage.healthBelow <= 1,
+      `${label} healthBelow must be in (0, 1]`)
+    expect(index > 0 || stage.healthBelow === 1, `${label} must start at full health (healthBelow 1)`)
+    expect(index === 0 || stage.healthBelow < building.stages[index - 1].healthBelow,
+      `${label} must start below the previous stage`)
+    expect(isOptionalString(stage.model), `${label} model must be a string`)
+  })
+
+  const { collapse, debris } = building
+  expect(collapse && isNumber(collapse.duration) && collapse.duration >= 0 && isOptionalString(collapse.model),
+    `Building ${building.id}: collapse needs a duration`)
+  expect(debris === undefined || (Number.isInteger(debris.count) && debris.count >= 0 &&
+    isPositive(debris.size) && isNumber(debris.speed) && debris.speed >= 0 && isOptionalString(debris.color)),
+    `Building ${building.id}: debris needs a count, size and speed`)
+
+  return building
+}
+
+// Index of the stage for the given health; stages are ordered by descending threshold
+export function buildingStageFor(building: BuildingDefinition, health: number): number {
+  const fraction = health / building.maxHealth
+  let stage = 0
+  building.stages.forEach((candidate, index) => {
+    if (fraction <= candidate.healthBelow) stage = index
+  })
+  return stage
+}
+
+// Axis-aligned box around the footprint turned to `yaw`
+export function buildingBox(position: Vector3Tuple, yaw: number, size: Vector3Tuple): CollisionBox {
+  const cos = Math.abs(Math.cos(yaw))
+  const sin = Math.abs(Math.sin(yaw))
+  const halfX = (size[0] * cos + size[2] * sin) / 2
+  const halfZ = (size[0] * sin + size[2] * cos) / 2
+  return {
+    min: [position[0] - halfX, position[1], position[2] - halfZ],
+    max: [position[0] + halfX, position[1] + size[1], position[2] + halfZ]
+  }
+}
@@ -0,0 +1,121 @@
+import type { Vector3Tuple } from 'three'
+import { sweepBox } from '@/systems/Combat/hitDetection'
+import { terrainHeightAt, type CollisionWorld } from '@/systems/Physics/collisionWorld'
+
+// Third-person follow camera: orbits a pivot above the player's head, offset over the
+// right shoulder, and pulls in when level geometry would block the view of the player.
+// Plain math on the collision world; the view applies the result to its camera.
+
+export interface FollowCameraSettings {
+  // Starting distance from the pivot; the player zooms between min and max
+  distance: number
+  minDistance: number
+  maxDistance: number
+  // Pivot height above the player's feet
+  height: number
+  // Sideways offset of the pivot; positive is over the right shoulder
+  shoulderOffset: number
+  // Higher is snappier; exponential so it is frame-rate independent
+  damping: number
+  // Orbit pitch limits (radians, positive looks up) and the pitch it starts at
+  pitch: number
+  minPitch: number
+  maxPitch: number
+  // Gap kept between the camera and whatever it was pulled in by
+  collisionPadding: number
+}
+
+export const DEFAULT_FOLLOW_CAMERA_SETTINGS: FollowCameraSettings = {
+  distance: 5,
+  minDistance: 2,
+  maxDistance: 20,
+  height: 1.6,
+  shoulderOffset: 0.6,
+  damping: 8,
+  pitch: -0.3,
+  minPitch: -1.2,
+  maxPitch: 0.5,
+  collisionPadding: 0.2
+}
+
+// Where the camera is looking from and how it is aimed
+export interface FollowOrbit {
+  yaw: number
+  pitch: number
+  distance: number
+}
+
+// Carried between frames: the eased player position, yaw and camera distance
+export interface FollowCameraState {
+  focus: Vector3Tuple
+  yaw: number
+  distance: number
+}
+
+export const clampFollowPitch = (pitch: number, settings: FollowCameraSettings): number =>
+  Math.min(settings.maxPitch, Math.max(settings.minPitch, pitch))
+
+export const clampFollowDistance = (distance: number, settings: FollowCameraSettings): number =>
+  Math.min(settings.maxDistance, Math.max(settings.minDistance, distance))
+
+export function createFollowCameraState(target: Vector3Tuple, yaw: number, settings: FollowCameraSettings): FollowCameraState {
+  return { focus: [...target], yaw, distance: settings.distance }
+}
+
+// Shortest signed turn from `from` to `to`, so easing never spins the long way round
+const angleDelta = (from: number, to: number): number =>
+  Math.atan2(Math.sin(to - from), Math.cos(to - from))
+
+// Fraction along from -> to where the segment first enters a level box, or null
+function occlusionFraction(world: CollisionWorld, from: Vector3Tuple, to: Vector3Tuple): number | null {
+  let hit: number | null = null
+  for (const box of world.boxes) {
+    const t = sweepBox(from, to, box)
+    if (t !== null && (hit === null || t < hit)) hit = t
+  }
+  return hit
+}
+
+// Advances the camera one frame towards `orbit` around `target` (the player's feet) and
+// returns where it should be; it looks along (orbit yaw, orbit pitch) from there. Being
+// blocked pulls it in at once, and it eases back out once the view clears. Terrain is
+// only kept below the camera itself, not tested along the line of sight.
+export function stepFollowCamera(
+  state: FollowCameraState,
+  world: CollisionWorld,
+  target: Vector3Tuple,
+  orbit: FollowOrbit,
+  settings: FollowCameraSettings,
+  delta: number
+): Vector3Tuple {
+  const ease = 1 - Math.exp(-settings.damping * delta)
+  for (let axis = 0; axis < 3; axis++) {
+    state.focus[axis] += (target[axis] - state.focus[axis]) * ease
+  }
+  state.yaw += angleDelta(state.yaw, orbit.yaw) * ease
+
+  const pitch = clampFollowPitch(orbit.pitch, settings)
+  const cosPitch = Math.cos(pitch)
+  // Forward at (yaw, pitch) is (-sin yaw cos pitch, sin pitch, -cos yaw cos pitch); right is (cos yaw, 0, -sin yaw)
+  const sinYaw = Math.sin(state.yaw)
+  const cosYaw = Math.cos(state.yaw)
+  const head: Vector3Tuple = [state.focus[0], state.focus[1] + settings.height, state.focus[2]]
+  const distance = clampFollowDistance(orbit.distance, settings)
+  const offset: Vector3Tuple = [
+    cosYaw * settings.shoulderOffset + sinYaw * cosPitch * distance,
+    -Math.sin(pitch) * distance,
+    -sinYaw * settings.shoulderOffset + cosYaw * cosPitch * distance
+  ]
+  const length = Math.hypot(offset[0], offset[1], offset[2])
+
+  // Tested from the head rather than the shoulder, so a wall beside the player counts too
+  const desired: Vector3Tuple = [head[0] + offset[0], head[1] + offset[1], head[2] + offset[2]]
+  const hit = occlusionFraction(world, head, desired)
+  const clear = hit === null ? length : Math.max(0, hit * length - settings.collisionPadding)
+  state.distance = clear < state.distance ? clear : state.distance + (clear - state.distance) * ease
+
+  const scale = length > 1e-6 ? state.distance / length : 0
+  const position: Vector3Tuple = [head[0] + offset[0] * scale, head[1] + offset[1] * scale, head[2] + offset[2] * scale]
+  position[1] = Math.max(position[1], terrainHeightAt(world, position[0], position[2]) + settings.collisionPadding)
+  return position
+}
@@ -0,0 +1,50 @@
+// Text chat shared by the client and the server: channels, limits and the moderation
+// filters the server runs every message through before delivering it.
+
+// 'lobby' reaches everyone online; 'room' only the sender's room
+export type ChatChannel = 'lobby' | 'room'
+
+export const CHAT_CHANNELS: readonly ChatChannel[] = ['lobby', 'room']
+
+export interface ChatMessage {
+  id: string
+  channel: ChatChannel
+  senderId: string
+  senderName: string
+  // Already normalised and filtered by the server
+  text: string
+  // Server time, ms
+  sentAt: number
+}
+
+export const MAX_CHAT_LENGTH = 200
+// Rate limit: a burst of this many messages, then one more per refill interval
+export const CHAT_BURST = 5
+export const CHAT_REFILL_SECONDS = 2
+
+// Returns the text to deliver (possibly rewritten), or null to reject the message.
+// Filters run in order, each seeing the previous one's output.
+export type ChatFilter = (text: string, senderId: string) => string | null
+
+export const isChatChannel = (value: unknown): value is ChatChannel =>
+  typeof value === 'string' && (CHAT_CHANNELS as readonly string[]).includes(value)
+
+// Collapses whitespace and strips control characters; empty means nothing to send
+export function normalizeChatText(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/[\u0000-\u001f\u007f]/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+const escapeRegExp = (word: string) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Masks whole-word matches (case-insensitive), keeping the first letter: "darn" -> "d***"
+export function createWordFilter(words: readonly string[]): ChatFilter {
+  if (words.length === 0) return text => text
+  const pattern = new RegExp(`\\b(${words.map(escapeRegExp).join('|')})\\b`, 'gi')
+  return text => text.replace(pattern, match => match[0] + '*'.repeat(match.length - 1))
+}
+
+// A starting point; servers pass their own filters to replace it
+export const DEFAULT_BLOCKED_WORDS: readonly string[] = ['fuck', 'fucking', 'shit', 'bitch', 'cunt', 'asshole', 'bastard']
+
+export const DEFAULT_CHAT_FILTERS: readonly ChatFilter[] = [createWordFilter(DEFAULT_BLOCKED_WORDS)]
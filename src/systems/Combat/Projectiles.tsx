@@ -0,0 +1,68 @@
+import { memo, useEffect, useRef } from 'react'
+import { useCombatStore } from '@/stores/combatStore'
+import { effectPool, type Effect } from '@/systems/Effects/effectPool'
+import { getWeaponDefinition } from './weapons'
+
+const DEFAULT_RADIUS = 0.2
+const DEFAULT_LIFETIME = 2
+
+interface Tracked {
+  effect: Effect
+  // The effect's serial when we spawned it; anything else means it was recycled
+  serial: number
+}
+
+// Mirrors the server's projectiles into the shared effect pool, which draws them and
+// carries them along their velocity between snapshots. Renders nothing itself.
+export const Projectiles = memo(function Projectiles() {
+  const projectiles = useCombatStore(state => state.projectiles)
+  const receivedAt = useCombatStore(state => state.projectilesReceivedAt)
+  const tracked = useRef(new Map<string, Tracked>())
+
+  useEffect(() => {
+    const elapsed = Math.max(0, (Date.now() - receivedAt) / 1000)
+    const seen = new Set<string>()
+
+    for (const projectile of projectiles) {
+      seen.add(projectile.id)
+      const [x, y, z] = projectile.position
+      const [vx, vy, vz] = projectile.velocity
+      const entry = tracked.current.get(projectile.id)
+
+      if (!entry) {
+        const weapon = getWeaponDefinition(projectile.weaponId)
+        const effect = effectPool.spawnProjectile({
+          position: [x + vx * elapsed, y + vy * elapsed, z + vz * elapsed],
+          velocity: projectile.velocity,
+          radius: weapon?.type === 'projectile' ? weapon.radius : DEFAULT_RADIUS,
+          lifetime: weapon?.type === 'projectile' ? weapon.range / weapon.speed : DEFAULT_LIFETIME,
+          ownerId: projectile.ownerId
+        })
+        tracked.current.set(projectile.id, { effect, serial: effect.serial })
+        continue
+      }
+
+      // Already connected locally (or recycled): leave it gone rather than respawning it
+      const { effect, serial } = entry
+      if (!effect.active || effect.serial !== serial) continue
+      effect.position[0] = x + vx * elapsed
+      effect.position[1] = y + vy * elapsed
+      effect.position[2] = z + vz * elapsed
+    }
+
+    for (const [id, { effect, serial }] of tracked.current) {
+      if (seen.has(id)) continue
+      if (effect.serial === serial) effectPool.release(effect)
+      tracked.current.delete(id)
+    }
+  }, [projectiles, receivedAt])
+
+  useEffect(() => () => {
+    for (const { effect, serial } of tracked.current.values()) {
+      if (effect.serial === serial) effectPool.release(effect)
+    }
+    tracked.current.clear()
+  }, [])
+
+  return null
+})
@@ -0,0 +1,16 @@
+import type { Health } from '@/types'
+
+export const PLAYER_MAX_HEALTH = 100
+// Seconds a dead player waits before the server respawns them
+export const RESPAWN_DELAY = 3
+
+export const createHealth = (max: number = PLAYER_MAX_HEALTH): Health => ({ current: max, max })
+
+export const isAlive = (health: Health | undefined): boolean => !health || health.current > 0
+
+// Returns true when this damage was the killing blow
+export function applyDamage(health: Health, amount: number): boolean {
+  if (health.current <= 0 || amount <= 0) return false
+  health.current = Math.max(0, health.current - amount)
+  return health.current === 0
+}
@@ -0,0 +1,124 @@
+import type { Vector3Tuple } from 'three'
+import { terrainHeightAt, type CollisionBox, type CollisionWorld } from '@/systems/Physics/collisionWorld'
+import type { MeleeWeapon } from './weapons'
+
+// Hit tests used by the server to resolve attacks. Hurtboxes are upright cylinders
+// standing on their position, matching the character collision capsule closely enough.
+
+export type HurtboxOwner = 'player' | 'kaiju' | 'building'
+
+export interface Hurtbox {
+  id: string
+  owner: HurtboxOwner
+  // Feet position
+  position: Vector3Tuple
+  radius: number
+  height: number
+  // Set on a boss weak point; the kaiju's body has its own hurtbox without it
+  weakPoint?: { id: string; damageMultiplier: number }
+}
+
+// Attacks start from about chest height
+export const ATTACK_ORIGIN_HEIGHT = 1.3
+// Keep aim within a sane vertical range whatever the client sends
+export const MAX_AIM_PITCH = Math.PI / 3
+
+// Unit vector for a yaw (three.js convention: 0 faces -Z) and pitch (positive looks up)
+export function aimDirection(yaw: number, pitch = 0): Vector3Tuple {
+  const horizontal = Math.cos(pitch)
+  return [-Math.sin(yaw) * horizontal, Math.sin(pitch), -Math.cos(yaw) * horizontal]
+}
+
+// Everything inside the swing's range and arc whose height overlaps the attacker's reach
+export function meleeHits(
+  attackerPosition: Vector3Tuple,
+  yaw: number,
+  weapon: MeleeWeapon,
+  hurtboxes: Hurtbox[]
+): Hurtbox[] {
+  const [forwardX, , forwardZ] = aimDirection(yaw)
+  const reachBottom = attackerPosition[1]
+  const reachTop = attackerPosition[1] + ATTACK_ORIGIN_HEIGHT + weapon.range / 2
+
+  return hurtboxes.filter(box => {
+    const dx = box.position[0] - attackerPosition[0]
+    const dz = box.position[2] - attackerPosition[2]
+    const distance = Math.hypot(dx, dz)
+    if (distance - box.radius > weapon.range) return false
+    if (box.position[1] > reachTop || box.position[1] + box.height < reachBottom) return false
+    // Overlapping the attacker counts as in front
+    if (distance <= box.radius) return true
+    // Widen the arc by the target's angular size so big kaiju are easy to hit
+    const angle = Math.acos(Math.min(1, Math.max(-1, (dx * forwardX + dz * forwardZ) / distance)))
+    return angle <= weapon.arc + Math.asin(Math.min(1, box.radius / distance))
+  })
+}
+
+// Fraction along from -> to where a sphere of `radius` first touches the hurtbox, or null
+export function sweepHurtbox(from: Vector3Tuple, to: Vector3Tuple, radius: number, box: Hurtbox): number | null {
+  const dx = to[0] - from[0]
+  const dz = to[2] - from[2]
+  const ox = from[0] - box.position[0]
+  const oz = from[2] - box.position[2]
+  const reach = box.radius + radius
+
+  // Solve |o + d t|² = reach² in XZ for the entry time
+  const a = dx * dx + dz * dz
+  const b = 2 * (ox * dx + oz * dz)
+  const c = ox * ox + oz * oz - reach * reach
+  let t: number
+  if (c <= 0) {
+    t = 0
+  } else {
+    if (a < 1e-9) return null
+    const discriminant = b * b - 4 * a * c
+    if (discriminant < 0) return null
+    t = (-b - Math.sqrt(discriminant)) / (2 * a)
+    if (t < 0 || t > 1) return null
+  }
+
+  const y = from[1] + (to[1] - from[1]) * t
+  if (y < box.position[1] - radius || y > box.position[1] + box.height + radius) return null
+  return t
+}
+
+// Whether a sphere overlaps the hurtbox's cylinder
+export function sphereOverlapsHurtbox(center: Vector3Tuple, radius: number, box: Hurtbox): boolean {
+  const dx = center[0] - box.position[0]
+  const dz = center[2] - box.position[2]
+  const reach = box.radius + radius
+  if (dx * dx + dz * dz > reach * reach) return false
+  return center[1] >= box.position[1] - radius && center[1] <= box.position[1] + box.height + radius
+}
+
+// Ray/box slab test; fraction along from -> to where the segment enters the box, or null
+export function sweepBox(from: Vector3Tuple, to: Vector3Tuple, box: CollisionBox): number | null {
+  let enter = 0
+  let exit = 1
+  for (let axis = 0; axis < 3; axis++) {
+    const delta = to[axis] - from[axis]
+    if (Math.abs(delta) < 1e-9) {
+      if (from[axis] < box.min[axis] || from[axis] > box.max[axis]) return null
+      continue
+    }
+    let near = (box.min[axis] - from[axis]) / delta
+    let far = (box.max[axis] - from[axis]) / delta
+    if (near > far) [near, far] = [far, near]
+    enter = Math.max(enter, near)
+    exit = Math.min(exit, far)
+    if (enter > exit) return null
+  }
+  return enter
+}
+
+// Fraction along from -> to where the segment hits level geometry, or null. Terrain is
+// only checked at the end point, which is plenty at projectile step lengths.
+export function sweepWorld(world: CollisionWorld, from: Vector3Tuple, to: Vector3Tuple): number | null {
+  let hit: number | null = null
+  for (const box of world.boxes) {
+    const t = sweepBox(from, to, box)
+    if (t !== null && (hit === null || t < hit)) hit = t
+  }
+  if (hit === null && to[1] <= terrainHeightAt(world, to[0], to[2])) hit = 1
+  return hit
+}
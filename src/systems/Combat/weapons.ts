@@ -0,0 +1,57 @@
+// Weapon tuning shared by the client (cooldown feedback, HUD) and the server (hit resolution).
+// Distances in world units, times in seconds.
+
+interface WeaponBase {
+  id: string
+  name: string
+  damage: number
+  // Minimum time between attacks
+  cooldown: number
+}
+
+// Instant sweep in front of the attacker
+export interface MeleeWeapon extends WeaponBase {
+  type: 'melee'
+  range: number
+  // Half-angle of the swing, radians either side of the aim direction
+  arc: number
+}
+
+// Server-simulated projectile travelling in a straight line
+export interface ProjectileWeapon extends WeaponBase {
+  type: 'projectile'
+  speed: number
+  radius: number
+  // Projectile is removed after travelling this far
+  range: number
+}
+
+export type WeaponDefinition = MeleeWeapon | ProjectileWeapon
+
+export const WEAPON_DEFINITIONS: Record<string, WeaponDefinition> = {
+  cleaver: {
+    id: 'cleaver',
+    name: 'Cleaver',
+    type: 'melee',
+    damage: 35,
+    cooldown: 0.6,
+    range: 2.4,
+    arc: Math.PI / 3
+  },
+  blaster: {
+    id: 'blaster',
+    name: 'Blaster',
+    type: 'projectile',
+    damage: 12,
+    cooldown: 0.25,
+    speed: 40,
+    radius: 0.2,
+    range: 60
+  }
+}
+
+// Every player carries these; switchWeapon cycles through them in order
+export const DEFAULT_LOADOUT: readonly string[] = ['cleaver', 'blaster']
+
+export const getWeaponDefinition = (id: string): WeaponDefinition | undefined =>
+  Object.prototype.hasOwnProperty.call(WEAPON_DEFINITIONS, id) ? WEAPON_DEFINITIONS[id] : undefined
@@ -0,0 +1,132 @@
+import { memo, useEffect, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import {
+  Color,
+  ConeGeometry,
+  DoubleSide,
+  Euler,
+  Matrix4,
+  Quaternion,
+  RingGeometry,
+  SphereGeometry,
+  Vector3,
+  type InstancedMesh,
+  type Vector3Tuple
+} from 'three'
+import type { Hurtbox } from '@/systems/Combat/hitDetection'
+import { SHOCKWAVE_INNER_RATIO, effectPool, type Effect, type EffectKind } from './effectPool'
+import { collectPlayerTargets } from './hitTests'
+
+// Keep area effects off the ground so they don't z-fight with terrain
+const GROUND_OFFSET = 0.05
+// Long frame hitches shouldn't fling projectiles through walls of players
+const MAX_STEP = 0.1
+// Wider cones than this would draw inside out
+const MAX_BREATH_ANGLE = 1.4
+const EFFECT_KINDS: readonly EffectKind[] = ['projectile', 'shockwave', 'breath']
+
+interface EffectsLayerProps {
+  // Where the local player is drawn, so effects test against the predicted position
+  getLocalPosition?: () => Vector3Tuple
+}
+
+// Steps the shared effect pool and draws it: one instanced mesh per effect kind, with
+// instance matrices rewritten in place every frame.
+export const EffectsLayer = memo(function EffectsLayer({ getLocalPosition }: EffectsLayerProps) {
+  const projectileRef = useRef<InstancedMesh>(null)
+  const shockwaveRef = useRef<InstancedMesh>(null)
+  const breathRef = useRef<InstancedMesh>(null)
+  const targets = useRef<Hurtbox[]>([])
+
+  // Unit shapes scaled per instance; flat ones are laid on the ground once, here
+  const geometries = useMemo(() => ({
+    projectile: new SphereGeometry(1, 12, 8),
+    shockwave: new RingGeometry(SHOCKWAVE_INNER_RATIO, 1, 48).rotateX(-Math.PI / 2),
+    // Apex at the origin, opening towards -Z (forward at yaw 0), base radius and length 1
+    breath: new ConeGeometry(1, 1, 24, 1, true).translate(0, -0.5, 0).rotateX(Math.PI / 2)
+  }), [])
+  useEffect(() => () => Object.values(geometries).forEach(geometry => geometry.dispose()), [geometries])
+
+  const scratch = useMemo(() => ({
+    matrix: new Matrix4(),
+    position: new Vector3(),
+    rotation: new Quaternion(),
+    euler: new Euler(),
+    scale: new Vector3(),
+    color: new Color(),
+    counts: { projectile: 0, shockwave: 0, breath: 0 } as Record<EffectKind, number>
+  }), [])
+  const meshFor = (kind: EffectKind) =>
+    kind === 'projectile' ? projectileRef.current : kind === 'shockwave' ? shockwaveRef.current : breathRef.current
+
+  // Nothing should linger from the space we were in
+  useEffect(() => () => effectPool.clear(), [])
+
+  useFrame((_state, delta) => {
+    effectPool.step(Math.min(delta, MAX_STEP), collectPlayerTargets(targets.current, getLocalPosition?.()))
+
+    const { counts } = scratch
+    for (const kind of EFFECT_KINDS) counts[kind] = 0
+
+    for (const effect of effectPool.effects) {
+      const mesh = effect.active ? meshFor(effect.kind) : null
+      if (!mesh) continue
+      writeInstance(effect, scratch)
+      mesh.setMatrixAt(counts[effect.kind], scratch.matrix)
+      mesh.setColorAt(counts[effect.kind], scratch.color.setHex(effect.color))
+      counts[effect.kind]++
+    }
+
+    for (const kind of EFFECT_KINDS) {
+      const mesh = meshFor(kind)
+      if (!mesh) continue
+      mesh.count = counts[kind]
+      mesh.instanceMatrix.needsUpdate = true
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true
+    }
+  })
+
+  const capacity = effectPool.capacity
+  return (
+    <>
+      <instancedMesh ref={projectileRef} args={[geometries.projectile, undefined, capacity]} frustumCulled={false}>
+        <meshBasicMaterial />
+      </instancedMesh>
+      <instancedMesh ref={shockwaveRef} args={[geometries.shockwave, undefined, capacity]} frustumCulled={false}>
+        <meshBasicMaterial transparent opacity={0.7} depthWrite={false} />
+      </instancedMesh>
+      <instancedMesh ref={breathRef} args={[geometries.breath, undefined, capacity]} frustumCulled={false}>
+        <meshBasicMaterial transparent opacity={0.45} depthWrite={false} side={DoubleSide} />
+      </instancedMesh>
+    </>
+  )
+})
+
+function writeInstance(
+  effect: Effect,
+  { matrix, position, rotation, euler, scale }: { matrix: Matrix4; position: Vector3; rotation: Quaternion; euler: Euler; scale: Vector3 }
+) {
+  const [x, y, z] = effect.position
+  switch (effect.kind) {
+    case 'projectile':
+      position.set(x, y, z)
+      rotation.identity()
+      scale.setScalar(effect.radius)
+      break
+    case 'shockwave':
+      position.set(x, y + GROUND_OFFSET, z)
+      rotation.identity()
+      scale.set(Math.max(effect.radius, 1e-3), 1, Math.max(effect.radius, 1e-3))
+      break
+    case 'breath': {
+      // Mouth height, roughly; the cone spreads out from there
+      position.set(x, y + 1, z)
+      rotation.setFromEuler(euler.set(0, effect.yaw, 0))
+      const length = Math.max(effect.radius, 1e-3)
+      const width = Math.tan(Math.min(effect.angle, MAX_BREATH_ANGLE)) * length
+      scale.set(width, width, length)
+      break
+    }
+  }
+  matrix.compose(position, rotation, scale)
+}
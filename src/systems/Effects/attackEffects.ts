@@ -0,0 +1,31 @@
+import type { TelegraphSnapshot } from '@/systems/Networking/protocol'
+import { effectPool } from './effectPool'
+
+const SHOCKWAVE_DURATION = 0.6
+const BREATH_DURATION = 0.8
+// Line attacks hurl a boulder down the telegraphed lane
+const BOULDER_SPEED = 30
+const BOULDER_HEIGHT = 1
+
+// The visible payoff of a boss attack whose telegraph just ran out
+export function spawnAttackEffect(telegraph: TelegraphSnapshot, kaijuId: string) {
+  const { area, origin, yaw } = telegraph
+  switch (area.shape) {
+    case 'circle':
+      effectPool.spawnShockwave({ position: origin, radius: area.radius, duration: SHOCKWAVE_DURATION, ownerId: kaijuId })
+      break
+    case 'cone':
+      effectPool.spawnBreath({ position: origin, yaw, range: area.radius, angle: area.angle, duration: BREATH_DURATION, ownerId: kaijuId })
+      break
+    case 'line':
+      effectPool.spawnProjectile({
+        position: [origin[0], origin[1] + BOULDER_HEIGHT, origin[2]],
+        velocity: [-Math.sin(yaw) * BOULDER_SPEED, 0, -Math.cos(yaw) * BOULDER_SPEED],
+        radius: area.width / 2,
+        lifetime: area.length / BOULDER_SPEED,
+        ownerId: kaijuId,
+        color: 0x8a6a4a
+      })
+      break
+  }
+}
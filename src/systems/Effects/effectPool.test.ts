@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Vector3Tuple } from 'three'
+import type { Hurtbox } from '@/systems/Combat/hitDetection'
+import { EffectPool, type Effect } from './effectPool'
+import { rayTest } from './hitTests'
+
+// The sweep, ring and cone hit tests, run through the pool as the effects layer does
+
+const target = (id: string, position: Vector3Tuple): Hurtbox =>
+  ({ id, owner: 'player', position, radius: 0.5, height: 1.8 })
+
+function recordHits(pool: EffectPool): string[] {
+  const hits: string[] = []
+  pool.onHit((_effect: Effect, targetId) => hits.push(targetId))
+  return hits
+}
+
+// Steps `seconds` in 60 Hz frames
+function run(pool: EffectPool, targets: Hurtbox[], seconds: number) {
+  for (let t = 0; t < seconds; t += 1 / 60) pool.step(1 / 60, targets)
+}
+
+describe('rayTest', () => {
+  it('returns the nearest target along the segment, skipping the ignored one', () => {
+    const targets = [target('far', [0, 0, -10]), target('near', [0, 0, -5]), target('owner', [0, 0, -1])]
+    const hit = rayTest([0, 1, 0], [0, 1, -20], targets, 0.2, 'owner')
+    assert.equal(hit?.id, 'near')
+    assert.ok(Math.abs(hit!.t * 20 - 4.3) < 1e-6)
+  })
+
+  it('misses targets beside the segment', () => {
+    assert.equal(rayTest([0, 1, 0], [0, 1, -20], [target('beside', [3, 0, -10])], 0.2), null)
+  })
+})
+
+describe('projectiles', () => {
+  it('stop where they sweep into a target, even one passed within a single step', () => {
+    const pool = new EffectPool(4)
+    const hits = recordHits(pool)
+    const effect = pool.spawnProjectile({ position: [0, 1, 0], velocity: [0, 0, -600], radius: 0.25, lifetime: 1 })
+    pool.step(1 / 60, [target('a', [0, 0, -5])])
+    assert.deepEqual(hits, ['a'])
+    assert.equal(effect.active, false)
+    assert.ok(Math.abs(effect.position[2] + 4.25) < 1e-6)
+  })
+
+  it('pass through their owner', () => {
+    const pool = new EffectPool(4)
+    const hits = recordHits(pool)
+    pool.spawnProjectile({ position: [0, 1, 0], velocity: [0, 0, -10], radius: 0.25, lifetime: 1, ownerId: 'me' })
+    run(pool, [target('me', [0, 0, -2])], 1)
+    assert.deepEqual(hits, [])
+  })
+})
+
+describe('shockwaves', () => {
+  it('hit each target once as the ring passes, not ones it already passed or that jumped', () => {
+    const pool = new EffectPool(4)
+    const hits = recordHits(pool)
+    const targets = [target('ring', [6, 0, 0]), target('airborne', [0, 2, 6])]
+    pool.spawnShockwave({ position: [0, 0, 0], radius: 10, duration: 1 })
+    run(pool, targets, 0.4)
+    assert.deepEqual(hits, [])
+    run(pool, targets, 0.6)
+    assert.deepEqual(hits, ['ring'])
+  })
+
+  it("don't hit a target well inside the ring's leading edge", () => {
+    const pool = new EffectPool(4)
+    const hits = recordHits(pool)
+    pool.spawnShockwave({ position: [0, 0, 0], radius: 10, duration: 1 })
+    run(pool, [], 0.8)
+    pool.step(1 / 60, [target('inside', [2, 0, 0])])
+    assert.deepEqual(hits, [])
+  })
+})
+
+describe('breath', () => {
+  it('hits targets inside the cone and within range only', () => {
+    const pool = new EffectPool(4)
+    const hits = recordHits(pool)
+    // Yaw 0 faces -Z
+    pool.spawnBreath({ position: [0, 0, 0], yaw: 0, range: 8, angle: 0.4, duration: 1 })
+    run(pool, [
+      target('ahead', [0, 0, -6]),
+      target('edge', [1.5, 0, -5]),
+      target('wide', [5, 0, -5]),
+      target('behind', [0, 0, 6]),
+      target('beyond', [0, 0, -12])
+    ], 1)
+    assert.deepEqual(hits.sort(), ['ahead', 'edge'])
+  })
+})
@@ -0,0 +1,259 @@
+import type { Vector3Tuple } from 'three'
+import type { Hurtbox } from '@/systems/Combat/hitDetection'
+import { rayTest, type RayHit } from './hitTests'
+
+// Client-side projectiles and area effects (thrown objects, shockwaves, breath). Purely
+// visual - damage stays with the server - but they still test themselves against players
+// so they stop where they visibly connect and can report it. Every effect lives in a
+// fixed pool of preallocated records that are reused, so spawning and stepping dozens
+// per frame allocates nothing.
+
+export type EffectKind = 'projectile' | 'shockwave' | 'breath'
+
+export interface Effect {
+  kind: EffectKind
+  active: boolean
+  // Bumped on every spawn so holders can tell their effect was recycled
+  serial: number
+  ownerId: string | null
+  // Projectile centre, or where an area effect starts
+  position: Vector3Tuple
+  velocity: Vector3Tuple
+  gravity: number
+  // Facing of breath cones
+  yaw: number
+  // Projectile size, or an area's current extent (grows towards maxRadius)
+  radius: number
+  maxRadius: number
+  // Breath half-angle, radians
+  angle: number
+  color: number
+  // Seconds
+  age: number
+  lifetime: number
+  // Targets already reported, so each is hit at most once per effect
+  hits: string[]
+}
+
+interface EffectOptions {
+  position: Vector3Tuple
+  ownerId?: string | null
+  color?: number
+}
+
+export interface ProjectileOptions extends EffectOptions {
+  velocity: Vector3Tuple
+  radius: number
+  lifetime: number
+  gravity?: number
+}
+
+export interface ShockwaveOptions extends EffectOptions {
+  radius: number
+  duration: number
+}
+
+export interface BreathOptions extends EffectOptions {
+  yaw: number
+  range: number
+  angle: number
+  duration: number
+}
+
+export type EffectHitListener = (effect: Effect, targetId: string) => void
+
+export const EFFECT_POOL_SIZE = 256
+// Shockwaves roll along the ground; anyone this far above the origin jumped over it
+const SHOCKWAVE_HEIGHT = 0.6
+// A shockwave's ring is the band from this fraction of its radius out to the radius; the
+// renderer draws the same band
+export const SHOCKWAVE_INNER_RATIO = 0.85
+// Breath reaches full range in this fraction of its duration
+const BREATH_EXTEND_FRACTION = 0.3
+
+const createEffect = (): Effect => ({
+  kind: 'projectile',
+  active: false,
+  serial: 0,
+  ownerId: null,
+  position: [0, 0, 0],
+  velocity: [0, 0, 0],
+  gravity: 0,
+  yaw: 0,
+  radius: 0,
+  maxRadius: 0,
+  angle: 0,
+  color: 0xffffff,
+  age: 0,
+  lifetime: 0,
+  hits: []
+})
+
+export class EffectPool {
+  readonly effects: Effect[]
+  // Indices of inactive effects
+  private free: number[] = []
+  private serial = 0
+  private listeners = new Set<EffectHitListener>()
+  private from: Vector3Tuple = [0, 0, 0]
+  private rayHit: RayHit = { id: '', t: 0 }
+
+  constructor(readonly capacity: number = EFFECT_POOL_SIZE) {
+    this.effects = Array.from({ length: capacity }, createEffect)
+    for (let i = capacity - 1; i >= 0; i--) this.free.push(i)
+  }
+
+  spawnProjectile({ position, velocity, radius, lifetime, gravity = 0, ownerId = null, color = 0xffdd55 }: ProjectileOptions): Effect {
+    const effect = this.acquire('projectile', position, ownerId, color, lifetime)
+    copy(effect.velocity, velocity)
+    effect.gravity = gravity
+    effect.radius = radius
+    effect.maxRadius = radius
+    return effect
+  }
+
+  spawnShockwave({ position, radius, duration, ownerId = null, color = 0xff8833 }: ShockwaveOptions): Effect {
+    const effect = this.acquire('shockwave', position, ownerId, color, duration)
+    effect.maxRadius = radius
+    return effect
+  }
+
+  spawnBreath({ position, yaw, range, angle, duration, ownerId = null, color = 0xff5522 }: BreathOptions): Effect {
+    const effect = this.acquire('breath', position, ownerId, color, duration)
+    effect.yaw = yaw
+    effect.maxRadius = range
+    effect.angle = angle
+    return effect
+  }
+
+  release(effect: Effect) {
+    if (!effect.active) return
+    effect.active = false
+    this.free.push(this.effects.indexOf(effect))
+  }
+
+  clear() {
+    for (const effect of this.effects) this.release(effect)
+  }
+
+  // Returns an unsubscribe function
+  onHit(listener: EffectHitListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Advances every active effect and reports first contact with each target
+  step(deltaTime: number, targets: readonly Hurtbox[]) {
+    for (const effect of this.effects) {
+      if (!effect.active) continue
+      effect.age += deltaTime
+      if (effect.kind === 'projectile') {
+        this.stepProjectile(effect, deltaTime, targets)
+      } else {
+        this.stepArea(effect, targets)
+      }
+      if (effect.active && effect.age >= effect.lifetime) this.release(effect)
+    }
+  }
+
+  private acquire(kind: EffectKind, position: Vector3Tuple, ownerId: string | null, color: number, lifetime: number): Effect {
+    // Full: recycle whichever effect is closest to finishing anyway
+    let index = this.free.pop()
+    if (index === undefined) {
+      index = 0
+      let mostDone = -Infinity
+      this.effects.forEach((effect, i) => {
+        const done = effect.age / effect.lifetime
+        if (done > mostDone) {
+          mostDone = done
+          index = i
+        }
+      })
+    }
+
+    const effect = this.effects[index]
+    effect.kind = kind
+    effect.active = true
+    effect.serial = ++this.serial
+    effect.ownerId = ownerId
+    copy(effect.position, position)
+    effect.velocity[0] = effect.velocity[1] = effect.velocity[2] = 0
+    effect.gravity = 0
+    effect.yaw = 0
+    effect.radius = 0
+    effect.angle = 0
+    effect.color = color
+    effect.age = 0
+    effect.lifetime = Math.max(lifetime, 1e-3)
+    effect.hits.length = 0
+    return effect
+  }
+
+  private stepProjectile(effect: Effect, deltaTime: number, targets: readonly Hurtbox[]) {
+    const { position, velocity } = effect
+    copy(this.from, position)
+    velocity[1] -= effect.gravity * deltaTime
+    position[0] += velocity[0] * deltaTime
+    position[1] += velocity[1] * deltaTime
+    position[2] += velocity[2] * deltaTime
+
+    const hit = rayTest(this.from, position, targets, effect.radius, effect.ownerId, this.rayHit)
+    if (!hit) return
+
+    // Stop where it connected
+    for (let axis = 0; axis < 3; axis++) {
+      position[axis] = this.from[axis] + (position[axis] - this.from[axis]) * hit.t
+    }
+    this.report(effect, hit.id)
+    this.release(effect)
+  }
+
+  private stepArea(effect: Effect, targets: readonly Hurtbox[]) {
+    const progress = effect.age / effect.lifetime
+    effect.radius = effect.kind === 'breath'
+      ? effect.maxRadius * Math.min(1, progress / BREATH_EXTEND_FRACTION)
+      : effect.maxRadius * Math.min(1, progress)
+
+    for (const target of targets) {
+      if (target.id === effect.ownerId || effect.hits.includes(target.id)) continue
+      const inside = effect.kind === 'breath' ? breathContains(effect, target) : shockwaveContains(effect, target)
+      if (inside) {
+        effect.hits.push(target.id)
+        this.report(effect, target.id)
+      }
+    }
+  }
+
+  private report(effect: Effect, targetId: string) {
+    for (const listener of this.listeners) listener(effect, targetId)
+  }
+}
+
+function copy(out: Vector3Tuple, from: Vector3Tuple) {
+  out[0] = from[0]
+  out[1] = from[1]
+  out[2] = from[2]
+}
+
+// The expanding ring's leading edge, not the area it has already passed over
+function shockwaveContains(effect: Effect, target: Hurtbox): boolean {
+  if (target.position[1] > effect.position[1] + SHOCKWAVE_HEIGHT) return false
+  const distance = Math.hypot(target.position[0] - effect.position[0], target.position[2] - effect.position[2])
+  return distance <= effect.radius + target.radius && distance >= effect.radius * SHOCKWAVE_INNER_RATIO - target.radius
+}
+
+function breathContains(effect: Effect, target: Hurtbox): boolean {
+  const dx = target.position[0] - effect.position[0]
+  const dz = target.position[2] - effect.position[2]
+  const distance = Math.hypot(dx, dz)
+  if (distance > effect.radius + target.radius) return false
+  if (distance <= target.radius) return true
+  const cos = (dx * -Math.sin(effect.yaw) + dz * -Math.cos(effect.yaw)) / distance
+  const angle = Math.acos(Math.min(1, Math.max(-1, cos)))
+  return angle <= effect.angle + Math.asin(Math.min(1, target.radius / distance))
+}
+
+// Shared by the renderer and everything that spawns effects
+export const effectPool = new EffectPool()
@@ -0,0 +1,75 @@
+import type { Vector3Tuple } from 'three'
+import { useGameStore } from '@/stores/gameStore'
+import { remotePlayerInterpolator, type InterpolatedTransform } from '@/systems/Networking/SnapshotInterpolator'
+import { DEFAULT_CHARACTER_SHAPE } from '@/systems/Physics/characterPhysics'
+import { sweepHurtbox, type Hurtbox } from '@/systems/Combat/hitDetection'
+
+// Hit queries against the players around the local one: who is in the space being shown,
+// and what a moving sphere (a projectile) touches first.
+
+const sampled: InterpolatedTransform = { position: [0, 0, 0], yaw: 0, speed: 0, extrapolating: false }
+
+// Fills `out` with a hurtbox per player in the space being shown (the lobby's player list):
+// the spectated room while spectating, else the local player's. Entries are reused. Remote
+// players are placed where they are being drawn and the local player at `localPosition`
+// when given; anyone else at their last known position. A spectator isn't in the space
+// they watch, so the local player is left out then.
+export function collectPlayerTargets(out: Hurtbox[], localPosition?: Vector3Tuple): Hurtbox[] {
+  const { lobby, currentPlayer, spectatingRoom } = useGameStore.getState()
+  const space = spectatingRoom?.id ?? currentPlayer?.room ?? null
+  let count = 0
+  for (const player of lobby) {
+    if ((player.room ?? null) !== space) continue
+    if (spectatingRoom && player.id === currentPlayer?.id) continue
+    let target = out[count]
+    if (!target) {
+      target = { id: '', owner: 'player', position: [0, 0, 0], radius: 0, height: 0 }
+      out[count] = target
+    }
+    count++
+
+    let position = player.position
+    if (player.id === currentPlayer?.id) {
+      position = localPosition ?? position
+    } else if (remotePlayerInterpolator.sample(player.id, sampled)) {
+      position = sampled.position
+    }
+    target.id = player.id
+    target.position[0] = position[0]
+    target.position[1] = position[1]
+    target.position[2] = position[2]
+    target.radius = DEFAULT_CHARACTER_SHAPE.radius
+    target.height = DEFAULT_CHARACTER_SHAPE.height
+  }
+  out.length = count
+  return out
+}
+
+export interface RayHit {
+  id: string
+  // Fraction of the way from the origin to the end
+  t: number
+}
+
+// First target the segment from `origin` to `end` (thickened to `radius`, so a moving
+// sphere) touches, skipping `ignoreId`. Written into `out` and returned; null if none.
+export function rayTest(
+  origin: Vector3Tuple,
+  end: Vector3Tuple,
+  targets: readonly Hurtbox[],
+  radius = 0,
+  ignoreId: string | null = null,
+  out: RayHit = { id: '', t: 0 }
+): RayHit | null {
+  let hit = false
+  for (const target of targets) {
+    if (target.id === ignoreId) continue
+    const t = sweepHurtbox(origin, end, radius, target)
+    if (t !== null && (!hit || t < out.t)) {
+      out.id = target.id
+      out.t = t
+      hit = true
+    }
+  }
+  return hit ? out : null
+}
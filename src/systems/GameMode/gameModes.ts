@@ -0,0 +1,170 @@
+import type { Vector3Tuple } from 'three'
+import type { Health, Player } from '@/types'
+import type { LevelDefinition } from '@/systems/Level/levelFormat'
+import type { KaijuState } from '@/systems/Kaiju/kaijuBrain'
+
+// Game modes decide what a room is trying to do: what spawns each round and when the
+// round is won or lost. The server's MatchManager runs the match around them (countdowns,
+// round transitions, scoring); modes only see the hooks below, so adding one means adding
+// an entry to GAME_MODES.
+
+export const DEFAULT_GAME_MODE_ID = 'free_roam'
+
+export type MatchPhase = 'waiting' | 'countdown' | 'active' | 'intermission' | 'ended'
+export type MatchResult = 'victory' | 'defeat'
+// What a mode reports from a tick of an active round
+export type RoundOutcome = 'round_won' | 'defeat'
+
+export interface PlayerScore {
+  playerId: string
+  name: string
+  damage: number
+  kaijuKills: number
+  playerKills: number
+  deaths: number
+  score: number
+}
+
+// Sent to everyone in the room whenever it changes
+export interface MatchState {
+  modeId: string
+  phase: MatchPhase
+  round: number
+  // null for modes that never end
+  rounds: number | null
+  // Milliseconds left in the current phase when this state was sent
+  phaseEndsIn: number | null
+  objective: string
+  // Health of whatever the players are protecting, for modes that have one
+  objectiveHealth?: Health
+  scores: PlayerScore[]
+  result: MatchResult | null
+}
+
+// What a mode can see and do during a round
+export interface MatchContext {
+  level: LevelDefinition | undefined
+  players: Player[]
+  kaiju: KaijuState[]
+  // Seconds since the round started
+  elapsed: number
+  deltaTime: number
+  spawnKaiju: (kind: string, position: Vector3Tuple, yaw?: number, home?: Vector3Tuple) => void
+  // Spawns an encounter's boss; false when the server has no such encounter
+  spawnEncounter: (encounterId: string, position: Vector3Tuple, yaw?: number, home?: Vector3Tuple) => boolean
+}
+
+export interface GameMode {
+  id: string
+  name: string
+  description: string
+  // Rounds per match; null keeps the round going until the room closes
+  rounds: number | null
+  // Seconds per round before it is lost; null for no limit
+  roundTime: number | null
+  // Start straight away, without a countdown
+  skipCountdown?: boolean
+  startRound: (context: MatchContext, state: MatchState) => void
+  update: (context: MatchContext, state: MatchState) => RoundOutcome | null
+  describeObjective: (state: MatchState) => string
+}
+
+// Score weights; kaiju are the point, so damage to them and kills dominate
+export const SCORE_PER_DAMAGE = 1
+export const SCORE_PER_KAIJU_KILL = 250
+
+const CITY_HEALTH = 1000
+// City damage per second from each kaiju standing inside the objective radius
+const CITY_DAMAGE_PER_KAIJU = 15
+const DEFAULT_OBJECTIVE_RADIUS = 8
+const WAVE_KINDS = ['stalker', 'stalker', 'brute']
+// Boss Hunt's fight when the level doesn't place one
+const DEFAULT_BOSS_ENCOUNTER = 'brute_matriarch'
+
+const aliveKaiju = (context: MatchContext) => context.kaiju.filter(kaiju => kaiju.behaviour !== 'die')
+
+// Where waves come from: the level's kaiju spawns, or the corners of the map
+function waveSpawnPoints(level: LevelDefinition | undefined): Vector3Tuple[] {
+  if (level?.kaiju?.length) return level.kaiju.map(spawn => spawn.position)
+  const [width, depth] = level?.terrain.size ?? [100, 100]
+  const x = width * 0.4
+  const z = depth * 0.4
+  return [[-x, 0, -z], [x, 0, -z], [-x, 0, z], [x, 0, z]]
+}
+
+const cityOf = (level: LevelDefinition | undefined) =>
+  level?.objective ?? { position: [0, 0, 0] as Vector3Tuple, radius: DEFAULT_OBJECTIVE_RADIUS }
+
+const freeRoam: GameMode = {
+  id: 'free_roam',
+  name: 'Free Roam',
+  description: 'Explore the level and hunt whatever kaiju live there. No timer, no score to beat.',
+  rounds: null,
+  roundTime: null,
+  skipCountdown: true,
+  startRound: ({ level, spawnKaiju, spawnEncounter }) => {
+    for (const spawn of level?.kaiju ?? []) {
+      // An encounter the server doesn't have falls back to a plain kaiju of the same kind
+      if (spawn.encounter && spawnEncounter(spawn.encounter, spawn.position, spawn.yaw)) continue
+      spawnKaiju(spawn.kind, spawn.position, spawn.yaw)
+    }
+  },
+  update: () => null,
+  describeObjective: () => 'Explore and hunt freely'
+}
+
+const defendTheCity: GameMode = {
+  id: 'defend_the_city',
+  name: 'Defend the City',
+  description: 'Co-op. Waves of kaiju march on the city - stop them before they flatten it.',
+  rounds: 5,
+  roundTime: null,
+  startRound: ({ level, spawnKaiju }, state) => {
+    if (state.round === 1) state.objectiveHealth = { current: CITY_HEALTH, max: CITY_HEALTH }
+    const city = cityOf(level).position
+    const spawns = waveSpawnPoints(level)
+    const count = state.round + 1
+    for (let i = 0; i < count; i++) {
+      const position = spawns[i % spawns.length]
+      spawnKaiju(WAVE_KINDS[(state.round + i) % WAVE_KINDS.length], position, 0, city)
+    }
+  },
+  update: (context, state) => {
+    const city = cityOf(context.level)
+    const alive = aliveKaiju(context)
+    const attackers = alive.filter(kaiju =>
+      Math.hypot(kaiju.position[0] - city.position[0], kaiju.position[2] - city.position[2]) <= city.radius)
+    if (state.objectiveHealth && attackers.length > 0) {
+      const health = state.objectiveHealth
+      health.current = Math.max(0, health.current - attackers.length * CITY_DAMAGE_PER_KAIJU * context.deltaTime)
+      if (health.current === 0) return 'defeat'
+    }
+    return alive.length === 0 ? 'round_won' : null
+  },
+  describeObjective: (state) => `Wave ${state.round}/${state.rounds} - protect the city`
+}
+
+const bossHunt: GameMode = {
+  id: 'boss_hunt',
+  name: 'Boss Hunt',
+  description: 'Track down a boss kaiju and bring it down through every phase before time runs out.',
+  rounds: 1,
+  roundTime: 300,
+  startRound: ({ level, spawnKaiju, spawnEncounter }) => {
+    const placed = level?.kaiju?.find(spawn => spawn.encounter)
+    if (placed?.encounter && spawnEncounter(placed.encounter, placed.position, placed.yaw)) return
+    const [position] = waveSpawnPoints(level)
+    if (!spawnEncounter(DEFAULT_BOSS_ENCOUNTER, position)) spawnKaiju('brute', position)
+  },
+  update: (context) => (aliveKaiju(context).length === 0 ? 'round_won' : null),
+  describeObjective: () => 'Bring down the boss before time runs out'
+}
+
+export const GAME_MODES: Record<string, GameMode> = {
+  [freeRoam.id]: freeRoam,
+  [defendTheCity.id]: defendTheCity,
+  [bossHunt.id]: bossHunt
+}
+
+export const getGameMode = (id: string): GameMode | undefined =>
+  Object.prototype.hasOwnProperty.call(GAME_MODES, id) ? GAME_MODES[id] : undefined
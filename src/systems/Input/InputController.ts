@@ -0,0 +1,263 @@
+import { useInputStore } from '@/stores/inputStore'
+import type { MovementIntent } from '@/systems/Movement/movementSimulation'
+import { GAMEPAD_BUTTON_BINDINGS, type InputAction } from './inputMap'
+
+// Stick deflection below this is treated as noise
+const STICK_DEADZONE = 0.2
+// Per-axis deflection that counts as pressing a direction (~sin 22.5°, giving 8-way movement)
+const STICK_DIRECTION_THRESHOLD = 0.38
+
+type ActionListener = () => void
+
+interface GamepadSnapshot {
+  stickX: number
+  stickY: number
+  // Deadzone-rescaled stick deflection in [0, 1]
+  magnitude: number
+  actions: Set<InputAction>
+}
+
+const EMPTY_GAMEPAD: GamepadSnapshot = { stickX: 0, stickY: 0, magnitude: 0, actions: new Set() }
+
+// Applies the deadzone and rescales what's left to [0, 1]
+function readStick(x: number, y: number): Pick<GamepadSnapshot, 'stickX' | 'stickY' | 'magnitude'> {
+  const deflection = Math.min(Math.hypot(x, y), 1)
+  if (deflection < STICK_DEADZONE) return { stickX: 0, stickY: 0, magnitude: 0 }
+  return { stickX: x, stickY: y, magnitude: (deflection - STICK_DEADZONE) / (1 - STICK_DEADZONE) }
+}
+
+// Mouse buttons only count over the 3D view, never on HUD buttons or menus
+const isGameSurface = (target: EventTarget | null): boolean => target instanceof HTMLCanvasElement
+
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+// Turns keyboard, gamepad and on-screen touch state into game actions using the bindings
+// in useInputStore. Held actions are read each frame; pressed actions (jump, interact,
+// toggle view, attack) are delivered to onAction listeners. Gamepads have no events, so poll()
+// runs once per frame.
+export class InputController {
+  private keysDown = new Set<string>()
+  private gamepad: GamepadSnapshot = EMPTY_GAMEPAD
+  // On-screen joystick and buttons (TouchControls)
+  private virtualStick = readStick(0, 0)
+  private virtualActions = new Set<InputAction>()
+  private listeners = new Map<InputAction, Set<ActionListener>>()
+  private captureResolver: ((code: string | null) => void) | null = null
+  private controller: AbortController | null = null
+  private attachments = 0
+
+  // Starts listening to the window; returns a detach function. Reference counted so
+  // several views can attach without fighting over the listeners.
+  attach(): () => void {
+    if (this.attachments++ === 0) {
+      this.controller = new AbortController()
+      const { signal } = this.controller
+      window.addEventListener('keydown', this.handleKeyDown, { signal, capture: true })
+      window.addEventListener('keyup', this.handleKeyUp, { signal, capture: true })
+      window.addEventListener('mousedown', this.handleMouseDown, { signal })
+      window.addEventListener('mouseup', this.handleMouseUp, { signal })
+      window.addEventListener('blur', () => this.keysDown.clear(), { signal })
+      window.addEventListener('gamepadconnected', this.handleGamepadChange, { signal })
+      window.addEventListener('gamepaddisconnected', this.handleGamepadChange, { signal })
+    }
+
+    let detached = false
+    return () => {
+      if (detached) return
+      detached = true
+      if (--this.attachments === 0) {
+        this.controller?.abort()
+        this.controller = null
+        this.keysDown.clear()
+        this.gamepad = EMPTY_GAMEPAD
+        this.virtualStick = readStick(0, 0)
+        this.virtualActions.clear()
+      }
+    }
+  }
+
+  onAction(action: InputAction, listener: ActionListener): () => void {
+    let set = this.listeners.get(action)
+    if (!set) {
+      set = new Set()
+      this.listeners.set(action, set)
+    }
+    set.add(listener)
+    return () => {
+      set.delete(listener)
+    }
+  }
+
+  // Resolves with the next key pressed (for rebinding), or null if Escape cancels it.
+  // The captured key is swallowed and never reaches gameplay.
+  captureNextKey(): Promise<string | null> {
+    this.captureResolver?.(null)
+    // Listen even when no view is attached (e.g. rebinding from a menu)
+    const detach = this.attach()
+    return new Promise(resolve => {
+      this.captureResolver = code => {
+        detach()
+        resolve(code)
+      }
+    })
+  }
+
+  cancelCapture() {
+    this.captureResolver?.(null)
+    this.captureResolver = null
+  }
+
+  isActive(action: InputAction): boolean {
+    const keys = useInputStore.getState().bindings[action]
+    return keys.some(key => this.keysDown.has(key)) ||
+      this.gamepad.actions.has(action) ||
+      this.virtualActions.has(action)
+  }
+
+  // x/y in [-1, 1], screen oriented (y down = backward), like a gamepad stick
+  setVirtualStick(x: number, y: number) {
+    this.virtualStick = readStick(x, y)
+  }
+
+  setVirtualAction(action: InputAction, held: boolean) {
+    if (held && !this.virtualActions.has(action)) {
+      this.virtualActions.add(action)
+      this.emit(action)
+    } else if (!held) {
+      this.virtualActions.delete(action)
+    }
+  }
+
+  // Bound keys currently held, for debug overlays
+  getActiveKeys(): string[] {
+    return Array.from(this.keysDown)
+  }
+
+  getMovementIntent(): MovementIntent {
+    // Whichever stick is pushed further wins
+    const { stickX, stickY, magnitude } =
+      this.virtualStick.magnitude > this.gamepad.magnitude ? this.virtualStick : this.gamepad
+    const forward = this.isActive('moveForward')
+    const backward = this.isActive('moveBackward')
+    const left = this.isActive('moveLeft')
+    const right = this.isActive('moveRight')
+    const digital = forward || backward || left || right
+
+    const intent: MovementIntent = {
+      forward: forward || stickY < -STICK_DIRECTION_THRESHOLD,
+      backward: backward || stickY > STICK_DIRECTION_THRESHOLD,
+      left: left || stickX < -STICK_DIRECTION_THRESHOLD,
+      right: right || stickX > STICK_DIRECTION_THRESHOLD,
+      run: this.isActive('run'),
+      jump: this.isActive('jump')
+    }
+    // Keys and the d-pad always move at full speed; only a stick alone is analog
+    if (!digital && magnitude > 0) {
+      intent.magnitude = magnitude
+    }
+    return intent
+  }
+
+  poll() {
+    const pad = this.findGamepad()
+    if (!pad) {
+      this.gamepad = EMPTY_GAMEPAD
+      return
+    }
+
+    const actions = new Set<InputAction>()
+    for (const [action, buttons] of Object.entries(GAMEPAD_BUTTON_BINDINGS) as [InputAction, number[]][]) {
+      if (buttons.some(index => pad.buttons[index]?.pressed)) actions.add(action)
+    }
+
+    const previous = this.gamepad.actions
+    this.gamepad = { ...readStick(pad.axes[0] ?? 0, pad.axes[1] ?? 0), actions }
+    for (const action of actions) {
+      if (!previous.has(action)) this.emit(action)
+    }
+  }
+
+  private findGamepad(): Gamepad | null {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return null
+    for (const pad of navigator.getGamepads()) {
+      if (pad?.connected) return pad
+    }
+    return null
+  }
+
+  private emit(action: InputAction) {
+    this.listeners.get(action)?.forEach(listener => listener())
+  }
+
+  private actionsForKey(code: string): InputAction[] {
+    const { bindings } = useInputStore.getState()
+    return (Object.keys(bindings) as InputAction[]).filter(action => bindings[action].includes(code))
+  }
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (this.captureResolver) {
+      event.preventDefault()
+      event.stopPropagation()
+      const resolve = this.captureResolver
+      this.captureResolver = null
+      resolve(event.code === 'Escape' ? null : event.code)
+      return
+    }
+    if (isEditableTarget(event.target)) return
+
+    const actions = this.actionsForKey(event.code)
+    if (actions.length === 0) return
+
+    event.preventDefault()
+    event.stopPropagation()
+
+    if (!this.keysDown.has(event.code)) {
+      this.keysDown.add(event.code)
+      console.log('🎮 Key pressed:', event.code, 'Active keys:', Array.from(this.keysDown))
+      // JSON-friendly log for parser
+      try {
+        console.log('TPJ KEYS', JSON.stringify({ type: 'down', code: event.code, keys: Array.from(this.keysDown) }))
+      } catch {}
+      if (!event.repeat) actions.forEach(action => this.emit(action))
+    }
+  }
+
+  private handleKeyUp = (event: KeyboardEvent) => {
+    if (!this.keysDown.has(event.code)) return
+
+    event.preventDefault()
+    event.stopPropagation()
+
+    this.keysDown.delete(event.code)
+    console.log('🎮 Key released:', event.code, 'Active keys:', Array.from(this.keysDown))
+    // JSON-friendly log for parser
+    try {
+      console.log('TPJ KEYS', JSON.stringify({ type: 'up', code: event.code, keys: Array.from(this.keysDown) }))
+    } catch {}
+  }
+
+  // Mouse buttons share the key path as 'Mouse<button>' codes so they can be bound like keys
+  private handleMouseDown = (event: MouseEvent) => {
+    if (!isGameSurface(event.target)) return
+    const code = `Mouse${event.button}`
+    const actions = this.actionsForKey(code)
+    if (actions.length === 0 || this.keysDown.has(code)) return
+    this.keysDown.add(code)
+    actions.forEach(action => this.emit(action))
+  }
+
+  private handleMouseUp = (event: MouseEvent) => {
+    this.keysDown.delete(`Mouse${event.button}`)
+  }
+
+  private handleGamepadChange = (event: GamepadEvent) => {
+    const connected = this.findGamepad() !== null
+    console.log(`🎮 Gamepad ${event.type === 'gamepadconnected' ? 'connected' : 'disconnected'}:`, event.gamepad.id)
+    useInputStore.getState().setGamepadConnected(connected)
+  }
+}
+
+// Shared instance: useKeyboardMovement reads movement from it, UI subscribes to actions
+export const inputController = new InputController()
@@ -0,0 +1,147 @@
+// Game actions and their default bindings. Gameplay code asks about actions
+// ("is run held?"), never about physical keys, so players can rebind freely.
+
+export type InputAction =
+  | 'moveForward'
+  | 'moveBackward'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'run'
+  | 'jump'
+  | 'interact'
+  | 'toggleView'
+  | 'attack'
+  | 'switchWeapon'
+  | 'scoreboard'
+  | 'chat'
+  | 'spectateNext'
+  | 'spectatePrevious'
+  | 'freeCamera'
+
+// KeyboardEvent.code values (layout independent), or Mouse<button> for mouse buttons
+// over the game canvas, up to KEY_SLOTS per action
+export type KeyBindings = Record<InputAction, string[]>
+
+export const KEY_SLOTS = 2
+export const KEY_BINDINGS_STORAGE_KEY = 'inputBindings'
+
+export const INPUT_ACTIONS: ReadonlyArray<{ action: InputAction; label: string }> = [
+  { action: 'moveForward', label: 'Move forward' },
+  { action: 'moveBackward', label: 'Move backward' },
+  { action: 'moveLeft', label: 'Move left' },
+  { action: 'moveRight', label: 'Move right' },
+  { action: 'run', label: 'Run' },
+  { action: 'jump', label: 'Jump' },
+  { action: 'interact', label: 'Interact' },
+  { action: 'toggleView', label: 'Toggle view' },
+  { action: 'attack', label: 'Attack' },
+  { action: 'switchWeapon', label: 'Switch weapon' },
+  { action: 'scoreboard', label: 'Scoreboard' },
+  { action: 'chat', label: 'Chat' },
+  { action: 'spectateNext', label: 'Spectate next player' },
+  { action: 'spectatePrevious', label: 'Spectate previous player' },
+  { action: 'freeCamera', label: 'Free camera (spectating)' }
+]
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveForward: ['KeyW', 'ArrowUp'],
+  moveBackward: ['KeyS', 'ArrowDown'],
+  moveLeft: ['KeyA', 'ArrowLeft'],
+  moveRight: ['KeyD', 'ArrowRight'],
+  run: ['ShiftLeft', 'ShiftRight'],
+  jump: ['Space'],
+  interact: ['KeyE'],
+  toggleView: ['KeyV'],
+  attack: ['KeyF', 'Mouse0'],
+  switchWeapon: ['KeyQ'],
+  scoreboard: ['Tab'],
+  chat: ['Enter'],
+  spectateNext: ['KeyX'],
+  spectatePrevious: ['KeyZ'],
+  freeCamera: ['KeyC']
+}
+
+// Standard-mapping gamepad buttons (https://w3c.github.io/gamepad/#remapping)
+export const GAMEPAD_BUTTON_BINDINGS: Partial<Record<InputAction, number[]>> = {
+  moveForward: [12],
+  moveBackward: [13],
+  moveLeft: [14],
+  moveRight: [15],
+  run: [10, 5], // left stick press, right bumper
+  jump: [0], // A / Cross
+  interact: [2], // X / Square
+  toggleView: [3], // Y / Triangle
+  attack: [7], // right trigger
+  switchWeapon: [4], // left bumper
+  scoreboard: [8] // back / share
+}
+
+const cloneBindings = (bindings: KeyBindings): KeyBindings =>
+  Object.fromEntries(
+    Object.entries(bindings).map(([action, keys]) => [action, [...keys]])
+  ) as KeyBindings
+
+// Saved bindings are merged over the defaults so actions added later still get keys
+export function loadKeyBindings(): KeyBindings {
+  const bindings = cloneBindings(DEFAULT_KEY_BINDINGS)
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEY_BINDINGS_STORAGE_KEY) ?? 'null')
+    if (saved && typeof saved === 'object') {
+      for (const { action } of INPUT_ACTIONS) {
+        const keys = saved[action]
+        if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) {
+          bindings[action] = keys.slice(0, KEY_SLOTS)
+        }
+      }
+    }
+  } catch (error) {
+    console.warn('⚠️ Ignoring unreadable key bindings:', error)
+  }
+  return bindings
+}
+
+export function saveKeyBindings(bindings: KeyBindings) {
+  try {
+    localStorage.setItem(KEY_BINDINGS_STORAGE_KEY, JSON.stringify(bindings))
+  } catch (error) {
+    console.warn('⚠️ Could not save key bindings:', error)
+  }
+}
+
+export function resetKeyBindings(): KeyBindings {
+  try {
+    localStorage.removeItem(KEY_BINDINGS_STORAGE_KEY)
+  } catch {}
+  return cloneBindings(DEFAULT_KEY_BINDINGS)
+}
+
+// Binds `code` to one slot of `action`, taking it away from any other action first
+export function bindKey(bindings: KeyBindings, action: InputAction, slot: number, code: string): KeyBindings {
+  const next = cloneBindings(bindings)
+  for (const other of Object.keys(next) as InputAction[]) {
+    next[other] = next[other].filter(key => key !== code)
+  }
+  const keys = next[action]
+  keys.splice(Math.min(slot, keys.length), 1, code)
+  next[action] = keys.slice(0, KEY_SLOTS)
+  return next
+}
+
+export function unbindKey(bindings: KeyBindings, action: InputAction, slot: number): KeyBindings {
+  const next = cloneBindings(bindings)
+  next[action] = next[action].filter((_, i) => i !== slot)
+  return next
+}
+
+// Human-readable key names: 'KeyW' -> 'W', 'ArrowUp' -> '↑', 'ShiftLeft' -> 'Left Shift', 'Mouse0' -> 'Left Click'
+export function formatKeyCode(code: string): string {
+  if (code.startsWith('Key')) return code.slice(3)
+  const mouse = code.match(/^Mouse(\d)$/)
+  if (mouse) return ['Left Click', 'Middle Click', 'Right Click'][Number(mouse[1])] ?? `Mouse ${mouse[1]}`
+  if (code.startsWith('Digit')) return code.slice(5)
+  const arrows: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' }
+  if (arrows[code]) return arrows[code]
+  const side = code.match(/^(Shift|Control|Alt|Meta)(Left|Right)$/)
+  if (side) return `${side[2]} ${side[1] === 'Control' ? 'Ctrl' : side[1]}`
+  return code
+}
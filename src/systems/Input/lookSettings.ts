@@ -0,0 +1,63 @@
+// Mouse-look preferences for pointer-locked cameras (first person, spectator free camera)
+
+export interface LookSettings {
+  // Multiplier on LOOK_RADIANS_PER_PIXEL
+  sensitivity: number
+  invertY: boolean
+}
+
+export const LOOK_SETTINGS_STORAGE_KEY = 'lookSettings'
+export const LOOK_RADIANS_PER_PIXEL = 0.0025
+export const MIN_LOOK_SENSITIVITY = 0.1
+export const MAX_LOOK_SENSITIVITY = 3
+// Just short of straight up/down, where yaw would flip
+export const MAX_LOOK_PITCH = Math.PI / 2 - 0.01
+
+export const DEFAULT_LOOK_SETTINGS: LookSettings = { sensitivity: 1, invertY: false }
+
+export const clampSensitivity = (value: number): number =>
+  Math.min(MAX_LOOK_SENSITIVITY, Math.max(MIN_LOOK_SENSITIVITY, value))
+
+export function loadLookSettings(): LookSettings {
+  const settings = { ...DEFAULT_LOOK_SETTINGS }
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOOK_SETTINGS_STORAGE_KEY) ?? 'null')
+    if (saved && typeof saved === 'object') {
+      if (typeof saved.sensitivity === 'number' && Number.isFinite(saved.sensitivity)) {
+        settings.sensitivity = clampSensitivity(saved.sensitivity)
+      }
+      if (typeof saved.invertY === 'boolean') settings.invertY = saved.invertY
+    }
+  } catch (error) {
+    console.warn('⚠️ Ignoring unreadable look settings:', error)
+  }
+  return settings
+}
+
+export function saveLookSettings(settings: LookSettings) {
+  try {
+    localStorage.setItem(LOOK_SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.warn('⚠️ Could not save look settings:', error)
+  }
+}
+
+export function resetLookSettings(): LookSettings {
+  try {
+    localStorage.removeItem(LOOK_SETTINGS_STORAGE_KEY)
+  } catch {}
+  return { ...DEFAULT_LOOK_SETTINGS }
+}
+
+// Applies one pointer-locked mouse movement to a yaw/pitch pair (radians, yaw 0 faces -Z)
+export function applyMouseLook(
+  look: { yaw: number; pitch: number },
+  movementX: number,
+  movementY: number,
+  { sensitivity, invertY }: LookSettings
+) {
+  const scale = LOOK_RADIANS_PER_PIXEL * sensitivity
+  look.yaw -= movementX * scale
+  look.pitch -= movementY * scale * (invertY ? -1 : 1)
+  look.pitch = Math.max(-MAX_LOOK_PITCH, Math.min(MAX_LOOK_PITCH, look.pitch))
+}
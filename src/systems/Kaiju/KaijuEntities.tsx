@@ -0,0 +1,187 @@
+import { memo, useEffect, useMemo, useRef, useState, type RefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
+import { Vector3, type Group, type Object3D } from 'three'
+import type { Avatar } from '@/types'
+import { useKaijuStore } from '@/stores/kaijuStore'
+import { useEncounter } from '@/hooks/useEncounter'
+import { gltfAvatarLoader } from '@/utils/loaders/gltfAvatarLoader'
+import { ModernAvatarSystem } from '@/systems/Avatar/ModernAvatarSystem'
+import { spawnAttackEffect } from '@/systems/Effects/attackEffects'
+import {
+  kaijuInterpolator,
+  type InterpolatedTransform
+} from '@/systems/Networking/SnapshotInterpolator'
+import type { KaijuSnapshot } from '@/systems/Networking/protocol'
+import { getKaijuDefinition } from './kaijuDefinitions'
+import type { EncounterWeakPoint } from './encounterFormat'
+import { TelegraphDecal } from './TelegraphDecal'
+
+const HEALTH_BAR_WIDTH = 80
+const BOSS_HEALTH_BAR_WIDTH = 160
+
+// Glowing spheres on a boss's weak points. They follow the named bones as the model
+// animates, or sit at the server's hit-test offset when the model lacks the bone.
+const WeakPointMarkers = memo(function WeakPointMarkers({
+  weakPoints,
+  model,
+  parentRef
+}: {
+  weakPoints: EncounterWeakPoint[]
+  model: Object3D | null
+  parentRef: RefObject<Group | null>
+}) {
+  const markerRefs = useRef<Array<Group | null>>([])
+  const bones = useMemo(
+    () => weakPoints.map(point => model?.getObjectByName(point.bone) ?? null),
+    [weakPoints, model]
+  )
+  const scratch = useMemo(() => new Vector3(), [])
+
+  useFrame(() => {
+    const parent = parentRef.current
+    if (!parent) return
+    bones.forEach((bone, i) => {
+      const marker = markerRefs.current[i]
+      if (!marker || !bone) return
+      parent.worldToLocal(bone.getWorldPosition(scratch))
+      marker.position.copy(scratch)
+    })
+  })
+
+  return (
+    <>
+      {weakPoints.map((point, i) => (
+        <group key={point.id} ref={el => { markerRefs.current[i] = el }} position={point.offset}>
+          <mesh>
+            <sphereGeometry args={[point.radius * 0.5, 12, 12]} />
+            <meshBasicMaterial color="#ffb020" transparent opacity={0.8} />
+          </mesh>
+        </group>
+      ))}
+    </>
+  )
+})
+
+const KaijuEntity = memo(function KaijuEntity({ kaiju }: { kaiju: KaijuSnapshot }) {
+  const groupRef = useRef<Group>(null)
+  const [avatar, setAvatar] = useState<Avatar | null>(null)
+  const [model, setModel] = useState<Object3D | null>(null)
+  const definition = getKaijuDefinition(kaiju.kind)
+  const encounter = useEncounter(kaiju.encounterId)
+  const phase = encounter && kaiju.phase !== undefined ? encounter.phases[kaiju.phase] : undefined
+  const scale = definition?.scale ?? 1
+  const height = 1.8 * scale
+
+  // Reused every frame - sampling writes into it
+  const transform = useMemo<InterpolatedTransform>(() => ({
+    position: [...kaiju.position],
+    yaw: kaiju.yaw,
+    speed: 0,
+    extrapolating: false
+  }), [kaiju.id])
+
+  // A telegraph that ends while still attacking means the blow landed; one that ends in a
+  // stagger or death was interrupted and shows nothing
+  const lastTelegraph = useRef(kaiju.telegraph)
+  useEffect(() => {
+    const previous = lastTelegraph.current
+    lastTelegraph.current = kaiju.telegraph
+    if (previous && !kaiju.telegraph && kaiju.behaviour === 'attack') spawnAttackEffect(previous, kaiju.id)
+  }, [kaiju.telegraph, kaiju.behaviour, kaiju.id])
+
+  // Each stagger plays the model's hit reaction, if it has one
+  const [staggeredAt, setStaggeredAt] = useState(0)
+  useEffect(() => {
+    if (kaiju.behaviour === 'stagger') setStaggeredAt(Date.now())
+  }, [kaiju.behaviour])
+
+  useEffect(() => {
+    if (!definition) return
+    let cancelled = false
+    gltfAvatarLoader.loadAvatar(definition.model)
+      .then(loaded => {
+        if (!cancelled) setAvatar(loaded)
+      })
+      .catch(error => {
+        console.warn(`⚠️ Could not load kaiju model ${definition.model}, using placeholder:`, error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [definition])
+
+  useFrame(() => {
+    const group = groupRef.current
+    if (!group || !kaijuInterpolator.sample(kaiju.id, transform)) return
+    group.position.set(transform.position[0], transform.position[1], transform.position[2])
+    group.rotation.y = transform.yaw
+  })
+
+  const isDead = kaiju.behaviour === 'die'
+  const healthFraction = kaiju.maxHealth > 0 ? kaiju.health / kaiju.maxHealth : 0
+
+  return (
+    <group ref={groupRef} position={kaiju.position} rotation={[0, kaiju.yaw, 0]}>
+      {/* Topple over on death; stagger leans back */}
+      <group rotation={[isDead ? -Math.PI / 2 : kaiju.behaviour === 'stagger' ? -0.2 : 0, 0, 0]}>
+        {avatar ? (
+          <ModernAvatarSystem
+            avatar={avatar}
+            scale={scale}
+            isMoving={kaiju.behaviour === 'roam' || kaiju.behaviour === 'chase'}
+            isRunning={kaiju.behaviour === 'chase'}
+            label={`kaiju_${kaiju.id}`}
+            clip={kaiju.clip}
+            oneShot={{ state: 'hit', at: staggeredAt }}
+            onModelReady={setModel}
+          />
+        ) : (
+          <mesh position={[0, height / 2, 0]} castShadow>
+            <capsuleGeometry args={[0.35 * scale, height - 0.7 * scale, 4, 8]} />
+            <meshStandardMaterial color="#aa3333" />
+          </mesh>
+        )}
+      </group>
+      {!isDead && encounter?.weakPoints && (
+        <WeakPointMarkers weakPoints={encounter.weakPoints} model={model} parentRef={groupRef} />
+      )}
+      {!isDead && (
+        <Html position={[0, height + 0.4, 0]} center distanceFactor={12}>
+          <div className="pointer-events-none text-center text-white text-xs whitespace-nowrap">
+            <div className="bg-black bg-opacity-50 px-2 py-0.5 rounded mb-1">
+              {encounter?.name ?? definition?.name ?? kaiju.kind}
+              {phase && <span className="text-orange-300"> • {phase.name}</span>}
+            </div>
+            <div
+              className="bg-gray-800 rounded overflow-hidden mx-auto"
+              style={{ width: encounter ? BOSS_HEALTH_BAR_WIDTH : HEALTH_BAR_WIDTH, height: 6 }}
+            >
+              <div
+                className={kaiju.behaviour === 'stagger' ? 'bg-yellow-400 h-full' : 'bg-red-500 h-full'}
+                style={{ width: `${Math.max(0, Math.min(1, healthFraction)) * 100}%` }}
+              />
+            </div>
+          </div>
+        </Html>
+      )}
+    </group>
+  )
+})
+
+// Every kaiju in the local player's room, as last reported by the server
+export const KaijuEntities = memo(function KaijuEntities() {
+  const kaiju = useKaijuStore(state => state.kaiju)
+
+  return (
+    <>
+      {kaiju.map(entity => (
+        <KaijuEntity key={entity.id} kaiju={entity} />
+      ))}
+      {/* Telegraphs are aimed in world space when the wind-up starts, so they don't follow the kaiju */}
+      {kaiju.map(entity => entity.telegraph && (
+        <TelegraphDecal key={`${entity.id}:telegraph`} telegraph={entity.telegraph} />
+      ))}
+    </>
+  )
+})
@@ -0,0 +1,64 @@
+import { memo, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import type { Group } from 'three'
+import type { TelegraphSnapshot } from '@/systems/Networking/protocol'
+
+// Lift off the ground so the decal doesn't z-fight with terrain
+const DECAL_HEIGHT = 0.05
+const SEGMENTS = 48
+
+// Ground marking for a boss attack winding up: the outline shows where it will land and
+// the fill grows until the hit. Meshes are laid flat so the geometry's +Y is the attack's
+// forward (-Z at yaw 0).
+export const TelegraphDecal = memo(function TelegraphDecal({ telegraph }: { telegraph: TelegraphSnapshot }) {
+  const fillRef = useRef<Group>(null)
+  // The snapshot is only replaced when the telegraph starts or ends, so time the fill locally
+  const startedAt = useMemo(() => performance.now() - telegraph.elapsed * 1000, [telegraph])
+  const { area } = telegraph
+
+  useFrame(() => {
+    const fill = fillRef.current
+    if (!fill) return
+    const elapsed = (performance.now() - startedAt) / 1000
+    const progress = telegraph.windUp > 0 ? Math.min(1, elapsed / telegraph.windUp) : 1
+    // Lines fill from the kaiju outwards; circles and cones from the centre
+    if (area.shape === 'line') {
+      fill.scale.set(1, Math.max(progress, 1e-3), 1)
+    } else {
+      fill.scale.set(Math.max(progress, 1e-3), Math.max(progress, 1e-3), 1)
+    }
+  })
+
+  const shape = (() => {
+    switch (area.shape) {
+      case 'circle':
+        return <circleGeometry args={[area.radius, SEGMENTS]} />
+      case 'cone':
+        return <circleGeometry args={[area.radius, SEGMENTS, Math.PI / 2 - area.angle, area.angle * 2]} />
+      case 'line':
+        return <planeGeometry args={[area.width, area.length]} />
+    }
+  })()
+  // Plane geometry is centred; shift it so the line starts at the origin
+  const offset: [number, number, number] = area.shape === 'line' ? [0, area.length / 2, 0] : [0, 0, 0]
+
+  return (
+    <group
+      position={[telegraph.origin[0], telegraph.origin[1] + DECAL_HEIGHT, telegraph.origin[2]]}
+      rotation={[0, telegraph.yaw, 0]}
+    >
+      <group rotation={[-Math.PI / 2, 0, 0]}>
+        <mesh position={offset} renderOrder={1}>
+          {shape}
+          <meshBasicMaterial color="#ff3b30" transparent opacity={0.25} depthWrite={false} />
+        </mesh>
+        <group ref={fillRef}>
+          <mesh position={offset} renderOrder={2}>
+            {shape}
+            <meshBasicMaterial color="#ff3b30" transparent opacity={0.45} depthWrite={false} />
+          </mesh>
+        </group>
+      </group>
+    </group>
+  )
+})
@@ -0,0 +1,213 @@
+import type { Vector3Tuple } from 'three'
+import { getKaijuDefinition } from './kaijuDefinitions'
+
+// Declarative boss encounters (public/encounters/<id>.json). A fight is a kaiju kind plus
+// health-gated phases, each looping a timeline of telegraphed attacks and pauses, and the
+// weak points that take extra damage. Designers tune fights here without touching code.
+
+export const ENCOUNTER_FORMAT_VERSION = 1
+
+// Where an attack lands, relative to the kaiju when its wind-up starts. Distances in
+// world units; angles in radians.
+export type AttackArea =
+  // Centred `offset` in front of the kaiju
+  | { shape: 'circle'; radius: number; offset?: number }
+  // Half-angle either side of the kaiju's facing
+  | { shape: 'cone'; radius: number; angle: number }
+  // Straight ahead from the kaiju
+  | { shape: 'line'; length: number; width: number }
+
+export type EncounterAttack = AttackArea & {
+  // Starts the attack once its target is this close
+  reach: number
+  // Telegraph time: the area is shown on the ground and players can get out of it
+  windUp: number
+  damage: number
+  // Stands still after the hit lands
+  recovery: number
+  // Animation cue for wind-up and strike; matched case-insensitively against clip names
+  clip?: string
+}
+
+export type TimelineStep = { attack: string } | { wait: number }
+
+export interface EncounterPhase {
+  name: string
+  // Active from this fraction of max health downwards; the first phase starts at 1
+  healthBelow: number
+  speedMultiplier?: number
+  // Played in order, looping, whenever the kaiju is engaged
+  timeline: TimelineStep[]
+}
+
+// Extra-damage zone bound to a bone of the kaiju's model. The server has no skeleton, so
+// hits are tested against `offset` (from the feet, in the kaiju's facing frame, already at
+// its render scale); the client pins the marker to the bone as it animates.
+export interface EncounterWeakPoint {
+  id: string
+  name: string
+  bone: string
+  offset: Vector3Tuple
+  radius: number
+  damageMultiplier: number
+}
+
+export interface EncounterDefinition {
+  version: typeof ENCOUNTER_FORMAT_VERSION
+  id: string
+  name: string
+  // KAIJU_DEFINITIONS entry supplying the model, movement and collision
+  kind: string
+  // Overrides the kind's max health
+  maxHealth?: number
+  phases: EncounterPhase[]
+  attacks: Record<string, EncounterAttack>
+  weakPoints?: EncounterWeakPoint[]
+}
+
+export class EncounterError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EncounterError'
+  }
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+const isPositive = (value: unknown): value is number => isNumber(value) && value > 0
+const isVector3 = (value: unknown): value is Vector3Tuple =>
+  Array.isArray(value) && value.length === 3 && value.every(isNumber)
+
+function expect(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new EncounterError(message)
+}
+
+function isAttackArea(attack: EncounterAttack): boolean {
+  switch (attack.shape) {
+    case 'circle':
+      return isPositive(attack.radius) && (attack.offset === undefined || isNumber(attack.offset))
+    case 'cone':
+      return isPositive(attack.radius) && isPositive(attack.angle) && attack.angle <= Math.PI
+    case 'line':
+      return isPositive(attack.length) && isPositive(attack.width)
+    default:
+      return false
+  }
+}
+
+// Validates untrusted JSON; throws EncounterError naming the first problem found
+export function parseEncounter(data: unknown): EncounterDefinition {
+  expect(data && typeof data === 'object', 'Encounter must be a JSON object')
+  const encounter = data as EncounterDefinition
+
+  expect(encounter.version === ENCOUNTER_FORMAT_VERSION,
+    `Unsupported encounter version ${String(encounter.version)} (expected ${ENCOUNTER_FORMAT_VERSION})`)
+  expect(typeof encounter.id === 'string' && encounter.id, 'Encounter id is required')
+  expect(typeof encounter.name === 'string', `Encounter ${encounter.id}: name is required`)
+  expect(typeof encounter.kind === 'string' && getKaijuDefinition(encounter.kind),
+    `Encounter ${encounter.id}: unknown kaiju kind ${String(encounter.kind)}`)
+  expect(encounter.maxHealth === undefined || isPositive(encounter.maxHealth),
+    `Encounter ${encounter.id}: maxHealth must be positive`)
+
+  expect(encounter.attacks && typeof encounter.attacks === 'object', `Encounter ${encounter.id}: attacks are required`)
+  for (const [id, attack] of Object.entries(encounter.attacks)) {
+    expect(attack && isAttackArea(attack),
+      `Encounter ${encounter.id}: attack ${id} needs a circle, cone or line area`)
+    expect(isPositive(attack.reach) && isNumber(attack.windUp) && attack.windUp >= 0 &&
+      isNumber(attack.damage) && attack.damage >= 0 && isNumber(attack.recovery) && attack.recovery >= 0,
+      `Encounter ${encounter.id}: attack ${id} needs reach, windUp, damage and recovery`)
+    expect(attack.clip === undefined || typeof attack.clip === 'string',
+      `Encounter ${encounter.id}: attack ${id} clip must be a string`)
+  }
+
+  expect(Array.isArray(encounter.phases) && encounter.phases.length > 0,
+    `Encounter ${encounter.id}: at least one phase is required`)
+  encounter.phases.forEach((phase, index) => {
+    const label = `Encounter ${encounter.id}: phase ${index}`
+    expect(typeof phase.name === 'string', `${label} needs a name`)
+    expect(isNumber(phase.healthBelow) && phase.healthBelow > 0 && phase.healthBelow <= 1,
+      `${label} healthBelow must be in (0, 1]`)
+    expect(index > 0 || phase.healthBelow === 1, `${label} must start at full health (healthBelow 1)`)
+    expect(index === 0 || phase.healthBelow < encounter.phases[index - 1].healthBelow,
+      `${label} must start below the previous phase`)
+    expect(phase.speedMultiplier === undefined || isPositive(phase.speedMultiplier),
+      `${label} speedMultiplier must be positive`)
+    expect(Array.isArray(phase.timeline) && phase.timeline.length > 0, `${label} needs a timeline`)
+    for (const step of phase.timeline) {
+      expect(step && typeof step === 'object', `${label} timeline steps must be objects`)
+      if ('attack' in step) {
+        expect(Object.prototype.hasOwnProperty.call(encounter.attacks, step.attack),
+          `${label} uses unknown attack ${String(step.attack)}`)
+      } else {
+        expect(step && isPositive((step as { wait: unknown }).wait), `${label} waits must be positive`)
+      }
+    }
+    // A timeline of only waits would never attack, and never stop looping within a tick
+    expect(phase.timeline.some(step => 'attack' in step), `${label} timeline needs at least one attack`)
+  })
+
+  expect(encounter.weakPoints === undefined || (Array.isArray(encounter.weakPoints) &&
+    encounter.weakPoints.every(point => typeof point.id === 'string' && typeof point.name === 'string' &&
+      typeof point.bone === 'string' && isVector3(point.offset) && isPositive(point.radius) &&
+      isPositive(point.damageMultiplier))),
+    `Encounter ${encounter.id}: weak points need an id, name, bone, offset, radius and damageMultiplier`)
+
+  return encounter
+}
+
+// Just the area of an attack, without its timing and damage
+export function attackAreaOf(attack: EncounterAttack): AttackArea {
+  switch (attack.shape) {
+    case 'circle':
+      return { shape: 'circle', radius: attack.radius, offset: attack.offset }
+    case 'cone':
+      return { shape: 'cone', radius: attack.radius, angle: attack.angle }
+    case 'line':
+      return { shape: 'line', length: attack.length, width: attack.width }
+  }
+}
+
+// Where an attack's area is anchored: circles sit `offset` ahead, cones and lines start at the kaiju
+export function attackOrigin(area: AttackArea, position: Vector3Tuple, yaw: number): Vector3Tuple {
+  const offset = area.shape === 'circle' ? area.offset ?? 0 : 0
+  return [position[0] - Math.sin(yaw) * offset, position[1], position[2] - Math.cos(yaw) * offset]
+}
+
+// Whether something of `radius` standing at `point` is caught by the area. Ground attacks,
+// so height is ignored.
+export function attackAreaContains(
+  area: AttackArea,
+  origin: Vector3Tuple,
+  yaw: number,
+  point: Vector3Tuple,
+  radius = 0
+): boolean {
+  const dx = point[0] - origin[0]
+  const dz = point[2] - origin[2]
+  const distance = Math.hypot(dx, dz)
+  const forwardX = -Math.sin(yaw)
+  const forwardZ = -Math.cos(yaw)
+
+  switch (area.shape) {
+    case 'circle':
+      return distance <= area.radius + radius
+    case 'cone': {
+      if (distance > area.radius + radius) return false
+      if (distance <= radius) return true
+      const angle = Math.acos(Math.min(1, Math.max(-1, (dx * forwardX + dz * forwardZ) / distance)))
+      return angle <= area.angle + Math.asin(Math.min(1, radius / distance))
+    }
+    case 'line': {
+      const along = dx * forwardX + dz * forwardZ
+      const across = Math.abs(dx * forwardZ - dz * forwardX)
+      return along >= -radius && along <= area.length + radius && across <= area.width / 2 + radius
+    }
+  }
+}
+
+// World position of a weak point on a kaiju standing at `position` facing `yaw`
+export function weakPointPosition(point: EncounterWeakPoint, position: Vector3Tuple, yaw: number): Vector3Tuple {
+  const [x, y, z] = point.offset
+  const cos = Math.cos(yaw)
+  const sin = Math.sin(yaw)
+  return [position[0] + x * cos + z * sin, position[1] + y, position[2] - x * sin + z * cos]
+}
@@ -0,0 +1,404 @@
+import type { Vector3Tuple } from 'three'
+import { DEFAULT_CHARACTER_SHAPE, moveCharacter } from '@/systems/Physics/characterPhysics'
+import type { CollisionWorld } from '@/systems/Physics/collisionWorld'
+import type { KaijuDefinition } from './kaijuDefinitions'
+import { attackAreaContains, attackOrigin, type EncounterDefinition } from './encounterFormat'
+
+// Kaiju behaviour: a small state machine stepped by the authoritative server at its tick
+// rate. Pure and seeded, so the same inputs always produce the same decisions.
+
+export type KaijuBehaviour = 'idle' | 'roam' | 'chase' | 'attack' | 'stagger' | 'die'
+
+// Where a boss is in its encounter script
+export interface EncounterProgress {
+  id: string
+  // Index into the encounter's phases
+  phase: number
+  // Next step of the phase's timeline
+  step: number
+  // The scripted attack being wound up or recovered from, aimed when it started
+  attack: { id: string; origin: Vector3Tuple; yaw: number } | null
+}
+
+export interface KaijuState {
+  id: string
+  kind: string
+  position: Vector3Tuple
+  yaw: number
+  health: number
+  maxHealth: number
+  behaviour: KaijuBehaviour
+  // Seconds spent in the current behaviour
+  behaviourTime: number
+  // How long idle lasts before roaming
+  idleDuration: number
+  targetId: string | null
+  home: Vector3Tuple
+  roamTarget: Vector3Tuple | null
+  // Seconds until the next attack may start
+  cooldown: number
+  attackLanded: boolean
+  verticalVelocity: number
+  isGrounded: boolean
+  // PRNG state; advanced by every random decision
+  seed: number
+  // Set for bosses; replaces the basic melee with the encounter's scripted attacks
+  encounter: EncounterProgress | null
+}
+
+// What the kaiju can see of a player
+export interface KaijuTarget {
+  id: string
+  position: Vector3Tuple
+}
+
+export type KaijuEvent =
+  | { type: 'attack_hit'; kaijuId: string; targetId: string; damage: number }
+  | { type: 'died'; kaijuId: string }
+  | { type: 'phase_changed'; kaijuId: string; phase: number }
+
+const ARRIVE_DISTANCE = 0.75
+const MIN_IDLE_TIME = 1
+const MAX_IDLE_TIME = 4
+// Give up on a roam point that can't be reached (e.g. behind a wall)
+const ROAM_TIMEOUT = 12
+// A new target must be this much closer than the current one to steal aggro
+const RETARGET_RATIO = 0.6
+
+// mulberry32: tiny, fast and good enough for gameplay decisions
+function nextRandom(kaiju: KaijuState): number {
+  let t = (kaiju.seed = (kaiju.seed + 0x6d2b79f5) | 0)
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+const horizontalDistance = (a: Vector3Tuple, b: Vector3Tuple) => Math.hypot(a[0] - b[0], a[2] - b[2])
+
+export function createKaiju(
+  id: string,
+  definition: KaijuDefinition,
+  position: Vector3Tuple,
+  yaw = 0,
+  seed = 1,
+  // Where it roams and leashes around; defaults to where it spawned
+  home: Vector3Tuple = position
+): KaijuState {
+  return {
+    id,
+    kind: definition.kind,
+    position: [...position],
+    yaw,
+    health: definition.maxHealth,
+    maxHealth: definition.maxHealth,
+    behaviour: 'idle',
+    behaviourTime: 0,
+    idleDuration: MIN_IDLE_TIME,
+    targetId: null,
+    home: [...home],
+    roamTarget: null,
+    cooldown: 0,
+    attackLanded: false,
+    verticalVelocity: 0,
+    isGrounded: true,
+    seed,
+    encounter: null
+  }
+}
+
+// Turns a freshly created kaiju into the encounter's boss
+export function startEncounter(kaiju: KaijuState, encounter: EncounterDefinition) {
+  if (encounter.maxHealth !== undefined) {
+    kaiju.maxHealth = encounter.maxHealth
+    kaiju.health = encounter.maxHealth
+  }
+  kaiju.encounter = { id: encounter.id, phase: 0, step: 0, attack: null }
+}
+
+// The last phase whose threshold the health fraction has dropped to
+function phaseForHealth(encounter: EncounterDefinition, fraction: number): number {
+  let phase = 0
+  encounter.phases.forEach((candidate, index) => {
+    if (fraction <= candidate.healthBelow) phase = index
+  })
+  return phase
+}
+
+function enter(kaiju: KaijuState, behaviour: KaijuBehaviour) {
+  kaiju.behaviour = behaviour
+  kaiju.behaviourTime = 0
+  if (behaviour === 'idle') {
+    kaiju.idleDuration = MIN_IDLE_TIME + nextRandom(kaiju) * (MAX_IDLE_TIME - MIN_IDLE_TIME)
+  } else if (behaviour === 'attack') {
+    kaiju.attackLanded = false
+  }
+  // Anything but the attack itself (stagger, death, losing the target) cancels a scripted attack
+  if (behaviour !== 'attack' && kaiju.encounter) kaiju.encounter.attack = null
+}
+
+// Nearest player inside aggro range, sticking with the current target unless someone is much closer
+function selectTarget(kaiju: KaijuState, definition: KaijuDefinition, targets: KaijuTarget[]): KaijuTarget | null {
+  let current: KaijuTarget | null = null
+  let nearest: KaijuTarget | null = null
+  let nearestDistance = Infinity
+
+  for (const target of targets) {
+    // Never chase anyone past the leash
+    if (horizontalDistance(target.position, kaiju.home) > definition.leashRadius) continue
+    const distance = horizontalDistance(target.position, kaiju.position)
+    if (target.id === kaiju.targetId) current = target
+    if (distance <= definition.aggroRadius && distance < nearestDistance) {
+      nearest = target
+      nearestDistance = distance
+    }
+  }
+
+  if (current && (!nearest || nearestDistance > horizontalDistance(current.position, kaiju.position) * RETARGET_RATIO)) {
+    return current
+  }
+  return nearest
+}
+
+function moveTowards(
+  kaiju: KaijuState,
+  definition: KaijuDefinition,
+  destination: Vector3Tuple | null,
+  speed: number,
+  world: CollisionWorld,
+  deltaTime: number
+) {
+  let dx = 0
+  let dz = 0
+  if (destination) {
+    const offsetX = destination[0] - kaiju.position[0]
+    const offsetZ = destination[2] - kaiju.position[2]
+    const distance = Math.hypot(offsetX, offsetZ)
+    if (distance > 1e-3) {
+      const step = Math.min(speed * deltaTime, distance)
+      dx = (offsetX / distance) * step
+      dz = (offsetZ / distance) * step
+      kaiju.yaw = Math.atan2(-offsetX, -offsetZ)
+    }
+  }
+
+  const motion = moveCharacter(
+    world,
+    definition.shape,
+    { position: kaiju.position, verticalVelocity: kaiju.verticalVelocity, isGrounded: kaiju.isGrounded },
+    dx,
+    dz,
+    0,
+    deltaTime
+  )
+  kaiju.position = motion.position
+  kaiju.verticalVelocity = motion.verticalVelocity
+  kaiju.isGrounded = motion.isGrounded
+}
+
+function faceTowards(kaiju: KaijuState, point: Vector3Tuple) {
+  const dx = point[0] - kaiju.position[0]
+  const dz = point[2] - kaiju.position[2]
+  if (Math.hypot(dx, dz) > 1e-3) kaiju.yaw = Math.atan2(-dx, -dz)
+}
+
+function pickRoamTarget(kaiju: KaijuState, definition: KaijuDefinition): Vector3Tuple {
+  const angle = nextRandom(kaiju) * Math.PI * 2
+  const distance = Math.sqrt(nextRandom(kaiju)) * definition.roamRadius
+  return [
+    kaiju.home[0] + Math.cos(angle) * distance,
+    kaiju.home[1],
+    kaiju.home[2] + Math.sin(angle) * distance
+  ]
+}
+
+// Works through the current phase's timeline while engaged. Waits become cooldown; an
+// attack starts once the target is within its reach. Returns whether an attack started.
+function beginScriptedAttack(
+  kaiju: KaijuState,
+  encounter: EncounterDefinition,
+  progress: EncounterProgress,
+  target: KaijuTarget
+): boolean {
+  if (kaiju.cooldown > 0) return false
+  const { timeline } = encounter.phases[progress.phase]
+  const step = timeline[progress.step % timeline.length]
+  if ('wait' in step) {
+    kaiju.cooldown = step.wait
+    progress.step = (progress.step + 1) % timeline.length
+    return false
+  }
+
+  const attack = encounter.attacks[step.attack]
+  if (horizontalDistance(kaiju.position, target.position) > attack.reach) return false
+  faceTowards(kaiju, target.position)
+  progress.step = (progress.step + 1) % timeline.length
+  enter(kaiju, 'attack')
+  // Aim is locked for the whole wind-up - that's the window to get out of the telegraph
+  progress.attack = { id: step.attack, origin: attackOrigin(attack, kaiju.position, kaiju.yaw), yaw: kaiju.yaw }
+  return true
+}
+
+// Lands a scripted attack on everyone still inside its area when the wind-up ends
+function stepScriptedAttack(
+  kaiju: KaijuState,
+  encounter: EncounterDefinition,
+  progress: EncounterProgress,
+  targets: KaijuTarget[]
+): KaijuEvent[] {
+  const events: KaijuEvent[] = []
+  const active = progress.attack
+  if (!active) {
+    enter(kaiju, 'chase')
+    return events
+  }
+  const attack = encounter.attacks[active.id]
+  if (!kaiju.attackLanded && kaiju.behaviourTime >= attack.windUp) {
+    kaiju.attackLanded = true
+    for (const target of targets) {
+      if (attackAreaContains(attack, active.origin, active.yaw, target.position, DEFAULT_CHARACTER_SHAPE.radius)) {
+        events.push({ type: 'attack_hit', kaijuId: kaiju.id, targetId: target.id, damage: attack.damage })
+      }
+    }
+  }
+  if (kaiju.behaviourTime >= attack.windUp + attack.recovery) {
+    enter(kaiju, 'chase')
+  }
+  return events
+}
+
+// Advances one kaiju by deltaTime, mutating it in place. Returns anything other systems
+// need to react to (hits on players, deaths). Bosses pass their encounter.
+export function stepKaiju(
+  kaiju: KaijuState,
+  definition: KaijuDefinition,
+  targets: KaijuTarget[],
+  world: CollisionWorld,
+  deltaTime: number,
+  encounter?: EncounterDefinition
+): KaijuEvent[] {
+  const events: KaijuEvent[] = []
+  kaiju.behaviourTime += deltaTime
+  kaiju.cooldown = Math.max(0, kaiju.cooldown - deltaTime)
+
+  if (kaiju.behaviour === 'die') {
+    moveTowards(kaiju, definition, null, 0, world, deltaTime)
+    return events
+  }
+
+  if (kaiju.behaviour === 'stagger') {
+    moveTowards(kaiju, definition, null, 0, world, deltaTime)
+    if (kaiju.behaviourTime >= definition.staggerDuration) enter(kaiju, 'chase')
+    return events
+  }
+
+  const target = selectTarget(kaiju, definition, targets)
+  kaiju.targetId = target?.id ?? null
+  const scripted = encounter && kaiju.encounter
+  const chaseSpeed = definition.chaseSpeed * (scripted ? encounter.phases[scripted.phase].speedMultiplier ?? 1 : 1)
+
+  switch (kaiju.behaviour) {
+    case 'idle':
+      moveTowards(kaiju, definition, null, 0, world, deltaTime)
+      if (target) {
+        enter(kaiju, 'chase')
+      } else if (kaiju.behaviourTime >= kaiju.idleDuration) {
+        kaiju.roamTarget = pickRoamTarget(kaiju, definition)
+        enter(kaiju, 'roam')
+      }
+      break
+
+    case 'roam':
+      if (target) {
+        enter(kaiju, 'chase')
+        break
+      }
+      moveTowards(kaiju, definition, kaiju.roamTarget, definition.walkSpeed, world, deltaTime)
+      if (!kaiju.roamTarget ||
+        horizontalDistance(kaiju.position, kaiju.roamTarget) < ARRIVE_DISTANCE ||
+        kaiju.behaviourTime >= ROAM_TIMEOUT) {
+        kaiju.roamTarget = null
+        enter(kaiju, 'idle')
+      }
+      break
+
+    case 'chase':
+      if (!target) {
+        // Lost them - wander back home
+        kaiju.roamTarget = [...kaiju.home]
+        enter(kaiju, 'roam')
+        break
+      }
+      if (scripted) {
+        if (beginScriptedAttack(kaiju, encounter, scripted, target)) {
+          moveTowards(kaiju, definition, null, 0, world, deltaTime)
+        } else {
+          moveTowards(kaiju, definition, target.position, chaseSpeed, world, deltaTime)
+        }
+      } else if (horizontalDistance(kaiju.position, target.position) <= definition.attackRange) {
+        faceTowards(kaiju, target.position)
+        moveTowards(kaiju, definition, null, 0, world, deltaTime)
+        if (kaiju.cooldown === 0) enter(kaiju, 'attack')
+      } else {
+        moveTowards(kaiju, definition, target.position, chaseSpeed, world, deltaTime)
+      }
+      break
+
+    case 'attack':
+      moveTowards(kaiju, definition, null, 0, world, deltaTime)
+      if (scripted) {
+        // Scripted attacks hit whoever is in the area, not just the target
+        events.push(...stepScriptedAttack(kaiju, encounter, scripted, targets))
+        break
+      }
+      if (target) faceTowards(kaiju, target.position)
+      if (!kaiju.attackLanded && kaiju.behaviourTime >= definition.attackHitTime) {
+        kaiju.attackLanded = true
+        // Dodged if they got out of reach during the wind-up
+        if (target && horizontalDistance(kaiju.position, target.position) <= definition.attackRange + definition.shape.radius) {
+          events.push({ type: 'attack_hit', kaijuId: kaiju.id, targetId: target.id, damage: definition.attackDamage })
+        }
+      }
+      if (kaiju.behaviourTime >= definition.attackDuration) {
+        kaiju.cooldown = definition.attackCooldown
+        enter(kaiju, target ? 'chase' : 'idle')
+      }
+      break
+  }
+
+  return events
+}
+
+// Applies damage from any source. Big hits stagger; reaching zero health kills. Bosses
+// crossing a phase threshold stagger into the next phase's timeline.
+export function damageKaiju(
+  kaiju: KaijuState,
+  definition: KaijuDefinition,
+  amount: number,
+  encounter?: EncounterDefinition
+): KaijuEvent[] {
+  if (kaiju.behaviour === 'die' || amount <= 0) return []
+  kaiju.health = Math.max(0, kaiju.health - amount)
+  if (kaiju.health === 0) {
+    kaiju.targetId = null
+    enter(kaiju, 'die')
+    return [{ type: 'died', kaijuId: kaiju.id }]
+  }
+  if (encounter && kaiju.encounter) {
+    const phase = phaseForHealth(encounter, kaiju.health / kaiju.maxHealth)
+    if (phase > kaiju.encounter.phase) {
+      kaiju.encounter.phase = phase
+      kaiju.encounter.step = 0
+      kaiju.cooldown = 0
+      enter(kaiju, 'stagger')
+      return [{ type: 'phase_changed', kaijuId: kaiju.id, phase }]
+    }
+  }
+  if (amount >= definition.staggerThreshold) {
+    enter(kaiju, 'stagger')
+  }
+  return []
+}
+
+// Dead and done lying around - safe to remove
+export const isKaijuExpired = (kaiju: KaijuState, definition: KaijuDefinition): boolean =>
+  kaiju.behaviour === 'die' && kaiju.behaviourTime >= definition.deathDuration
@@ -0,0 +1,81 @@
+import type { CharacterShape } from '@/systems/Physics/characterPhysics'
+
+// Tuning for each kind of kaiju. Distances in world units, times in seconds.
+export interface KaijuDefinition {
+  kind: string
+  name: string
+  // Avatar manifest id (public/avatar/manifest.json)
+  model: string
+  // Render scale; models are first sized per their manifest entry
+  scale: number
+  shape: CharacterShape
+  maxHealth: number
+  walkSpeed: number
+  chaseSpeed: number
+  // Notices players this close
+  aggroRadius: number
+  // Gives up a chase this far from its home point
+  leashRadius: number
+  // Wanders within this distance of home
+  roamRadius: number
+  attackRange: number
+  attackDamage: number
+  attackDuration: number
+  // Into the attack when the hit lands
+  attackHitTime: number
+  attackCooldown: number
+  // A single hit at least this large interrupts whatever it's doing
+  staggerThreshold: number
+  staggerDuration: number
+  // Corpse stays this long before the entity is removed
+  deathDuration: number
+}
+
+export const KAIJU_DEFINITIONS: Record<string, KaijuDefinition> = {
+  brute: {
+    kind: 'brute',
+    name: 'Brute',
+    model: 'crash_bandicoot',
+    scale: 3,
+    shape: { radius: 1, height: 5.4, stepHeight: 0.6, maxSlope: Math.PI / 4 },
+    maxHealth: 500,
+    walkSpeed: 2,
+    chaseSpeed: 4.5,
+    aggroRadius: 18,
+    leashRadius: 35,
+    roamRadius: 10,
+    attackRange: 2.5,
+    attackDamage: 25,
+    attackDuration: 1.6,
+    attackHitTime: 0.9,
+    attackCooldown: 1.2,
+    staggerThreshold: 60,
+    staggerDuration: 1.2,
+    deathDuration: 5
+  },
+  stalker: {
+    kind: 'stalker',
+    name: 'Stalker',
+    model: 'dr',
+    scale: 2,
+    shape: { radius: 0.7, height: 3.6, stepHeight: 0.5, maxSlope: Math.PI / 4 },
+    maxHealth: 220,
+    walkSpeed: 3,
+    chaseSpeed: 8,
+    aggroRadius: 24,
+    leashRadius: 40,
+    roamRadius: 14,
+    attackRange: 1.8,
+    attackDamage: 12,
+    attackDuration: 0.8,
+    attackHitTime: 0.4,
+    attackCooldown: 0.6,
+    staggerThreshold: 30,
+    staggerDuration: 0.8,
+    deathDuration: 4
+  }
+}
+
+// Kinds come from level files, so guard against inherited keys like "constructor"
+export const getKaijuDefinition = (kind: string): KaijuDefinition | undefined =>
+  Object.prototype.hasOwnProperty.call(KAIJU_DEFINITIONS, kind) ? KAIJU_DEFINITIONS[kind] : undefined
@@ -0,0 +1,82 @@
+import { memo, useEffect, useState } from 'react'
+import type { Group } from 'three'
+import { levelLoader } from '@/utils/loaders/levelLoader'
+import { WorldGeometry } from '@/systems/Physics/WorldGeometry'
+import type { CollisionWorld } from '@/systems/Physics/collisionWorld'
+import type { LevelDefinition, LevelLighting, LevelProp } from './levelFormat'
+
+// Used while the level file is loading
+const DEFAULT_LIGHTING: LevelLighting = {
+  ambient: { color: '#ffffff', intensity: 0.5 },
+  directional: [{ position: [10, 10, 5], color: '#ffffff', intensity: 1, castShadow: true }]
+}
+
+const LevelPropModel = memo(function LevelPropModel({ prop }: { prop: LevelProp }) {
+  const [model, setModel] = useState<Group | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    levelLoader.loadProp(prop.model)
+      .then(loaded => {
+        if (!cancelled) setModel(loaded)
+      })
+      .catch(error => {
+        console.warn(`⚠️ Could not load level prop ${prop.model}:`, error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [prop.model])
+
+  if (!model) return null
+  return (
+    <primitive
+      object={model}
+      position={prop.position}
+      rotation={prop.rotation ?? [0, 0, 0]}
+      scale={prop.scale ?? 1}
+    />
+  )
+})
+
+// Builds a level's lighting, ground, terrain, collision volumes and props
+export const LevelScene = memo(function LevelScene({ level, world }: {
+  level: LevelDefinition | null
+  world: CollisionWorld
+}) {
+  const lighting = level?.lighting ?? DEFAULT_LIGHTING
+  const [width, depth] = level?.terrain.size ?? [100, 100]
+
+  return (
+    <>
+      {lighting.background && <color attach="background" args={[lighting.background]} />}
+      <ambientLight color={lighting.ambient.color} intensity={lighting.ambient.intensity} />
+      {lighting.directional.map((light, i) => (
+        <directionalLight
+          key={i}
+          position={light.position}
+          color={light.color}
+          intensity={light.intensity}
+          castShadow={light.castShadow}
+          shadow-mapSize-width={1024}
+          shadow-mapSize-height={1024}
+        />
+      ))}
+
+      <mesh
+        position={[0, world.groundHeight, 0]}
+        rotation={[-Math.PI / 2, 0, 0]}
+        receiveShadow
+      >
+        <planeGeometry args={[width, depth]} />
+        <meshStandardMaterial color={level?.terrain.color ?? '#444444'} />
+      </mesh>
+
+      <WorldGeometry world={world} terrainColor={level?.terrain.heightfield?.color} />
+
+      {level?.props.map((prop, i) => (
+        <LevelPropModel key={`${prop.model}_${i}`} prop={prop} />
+      ))}
+    </>
+  )
+})
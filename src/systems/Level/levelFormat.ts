@@ -0,0 +1,195 @@
+import type { Vector3Tuple } from 'three'
+import type { CollisionBox, CollisionWorld, Heightfield } from '@/systems/Physics/collisionWorld'
+import { getKaijuDefinition } from '@/systems/Kaiju/kaijuDefinitions'
+
+// Declarative level files (public/levels/<id>.json). Parsed the same way by the client,
+// which builds the scene, and the server, which simulates movement against the collision.
+
+export const LEVEL_FORMAT_VERSION = 1
+export const DEFAULT_LEVEL_ID = 'sandbox'
+const DEFAULT_GRAVITY = 25
+
+export interface LevelTerrain {
+  // Ground plane centred on the origin; also the walkable bounds
+  size: [number, number]
+  groundHeight: number
+  color: string
+  heightfield?: Heightfield & { color?: string }
+}
+
+export interface LevelLighting {
+  background?: string
+  ambient: { color: string; intensity: number }
+  directional: Array<{
+    position: Vector3Tuple
+    color: string
+    intensity: number
+    castShadow?: boolean
+  }>
+}
+
+// Visual-only glTF model; give it a collision volume to make it solid
+export interface LevelProp {
+  model: string
+  position: Vector3Tuple
+  rotation?: Vector3Tuple
+  scale?: number
+}
+
+export interface LevelSpawnPoint {
+  position: Vector3Tuple
+  // Facing, radians around Y
+  yaw?: number
+}
+
+// Axis-aligned box; drawn with `color` unless visible is false
+export interface LevelCollisionVolume {
+  type: 'box'
+  center: Vector3Tuple
+  size: Vector3Tuple
+  color?: string
+  visible?: boolean
+}
+
+// Kaiju placed when a room on this level opens; `kind` names a KAIJU_DEFINITIONS entry.
+// `encounter` makes it a boss from public/encounters/<id>.json, falling back to the plain
+// kind if the server doesn't have that encounter.
+export interface LevelKaijuSpawn {
+  kind: string
+  position: Vector3Tuple
+  yaw?: number
+  encounter?: string
+}
+
+// A destructible building from public/buildings/<id>.json. Unknown ids are skipped by the
+// server, which is the only side that reads placements; clients get them in updates.
+export interface LevelBuilding {
+  building: string
+  position: Vector3Tuple
+  yaw?: number
+}
+
+// The point co-op modes defend (the "city"); kaiju inside the radius damage it
+export interface LevelObjective {
+  position: Vector3Tuple
+  radius: number
+}
+
+export interface LevelDefinition {
+  version: typeof LEVEL_FORMAT_VERSION
+  id: string
+  name: string
+  gravity?: number
+  terrain: LevelTerrain
+  lighting: LevelLighting
+  props: LevelProp[]
+  spawnPoints: LevelSpawnPoint[]
+  collision: LevelCollisionVolume[]
+  kaiju?: LevelKaijuSpawn[]
+  buildings?: LevelBuilding[]
+  objective?: LevelObjective
+}
+
+export class LevelError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LevelError'
+  }
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+const isVector3 = (value: unknown): value is Vector3Tuple =>
+  Array.isArray(value) && value.length === 3 && value.every(isNumber)
+const isVector2 = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(isNumber)
+
+function expect(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new LevelError(message)
+}
+
+// Validates untrusted JSON; throws LevelError naming the first problem found
+export function parseLevel(data: unknown): LevelDefinition {
+  expect(data && typeof data === 'object', 'Level must be a JSON object')
+  const level = data as LevelDefinition
+
+  expect(level.version === LEVEL_FORMAT_VERSION,
+    `Unsupported level version ${String(level.version)} (expected ${LEVEL_FORMAT_VERSION})`)
+  expect(typeof level.id === 'string' && level.id, 'Level id is required')
+  expect(typeof level.name === 'string', `Level ${level.id}: name is required`)
+  expect(level.gravity === undefined || isNumber(level.gravity), `Level ${level.id}: gravity must be a number`)
+
+  const { terrain, lighting } = level
+  expect(terrain && isVector2(terrain.size) && terrain.size.every(n => n > 0),
+    `Level ${level.id}: terrain.size must be [width, depth]`)
+  expect(isNumber(terrain.groundHeight), `Level ${level.id}: terrain.groundHeight must be a number`)
+  if (terrain.heightfield) {
+    const { origin, cellSize, columns, rows, heights } = terrain.heightfield
+    expect(isVector2(origin) && isNumber(cellSize) && cellSize > 0 &&
+      Number.isInteger(columns) && columns > 0 && Number.isInteger(rows) && rows > 0,
+      `Level ${level.id}: heightfield needs origin, cellSize, columns and rows`)
+    expect(Array.isArray(heights) && heights.length === (columns + 1) * (rows + 1) && heights.every(isNumber),
+      `Level ${level.id}: heightfield needs ${(columns + 1) * (rows + 1)} heights`)
+  }
+
+  expect(lighting && lighting.ambient && isNumber(lighting.ambient.intensity),
+    `Level ${level.id}: lighting.ambient is required`)
+  expect(Array.isArray(lighting.directional) &&
+    lighting.directional.every(light => isVector3(light.position) && isNumber(light.intensity)),
+    `Level ${level.id}: lighting.directional must be a list of lights`)
+
+  expect(Array.isArray(level.props) &&
+    level.props.every(prop => typeof prop.model === 'string' && isVector3(prop.position) &&
+      (prop.rotation === undefined || isVector3(prop.rotation)) &&
+      (prop.scale === undefined || isNumber(prop.scale))),
+    `Level ${level.id}: props must have a model and position`)
+
+  expect(Array.isArray(level.spawnPoints) && level.spawnPoints.length > 0 &&
+    level.spawnPoints.every(spawn => isVector3(spawn.position) && (spawn.yaw === undefined || isNumber(spawn.yaw))),
+    `Level ${level.id}: at least one spawn point is required`)
+
+  expect(Array.isArray(level.collision) &&
+    level.collision.every(volume => volume.type === 'box' && isVector3(volume.center) &&
+      isVector3(volume.size) && volume.size.every(n => n > 0)),
+    `Level ${level.id}: collision volumes must be boxes with a center and size`)
+
+  expect(level.kaiju === undefined || (Array.isArray(level.kaiju) &&
+    level.kaiju.every(spawn => isVector3(spawn.position) && (spawn.yaw === undefined || isNumber(spawn.yaw)) &&
+      (spawn.encounter === undefined || typeof spawn.encounter === 'string'))),
+    `Level ${level.id}: kaiju must have a kind and position`)
+  for (const spawn of level.kaiju ?? []) {
+    expect(getKaijuDefinition(spawn.kind), `Level ${level.id}: unknown kaiju kind ${String(spawn.kind)}`)
+  }
+
+  expect(level.buildings === undefined || (Array.isArray(level.buildings) &&
+    level.buildings.every(placement => placement && typeof placement.building === 'string' &&
+      isVector3(placement.position) && (placement.yaw === undefined || isNumber(placement.yaw)))),
+    `Level ${level.id}: buildings must have a building id and position`)
+
+  expect(level.objective === undefined ||
+    (isVector3(level.objective.position) && isNumber(level.objective.radius) && level.objective.radius > 0),
+    `Level ${level.id}: objective needs a position and radius`)
+
+  return level
+}
+
+export function buildCollisionWorld(level: LevelDefinition): CollisionWorld {
+  const [width, depth] = level.terrain.size
+  const boxes: CollisionBox[] = level.collision.map(({ center, size, color, visible }) => ({
+    min: [center[0] - size[0] / 2, center[1] - size[1] / 2, center[2] - size[2] / 2],
+    max: [center[0] + size[0] / 2, center[1] + size[1] / 2, center[2] + size[2] / 2],
+    color: visible === false ? undefined : color ?? '#888888'
+  }))
+
+  return {
+    groundHeight: level.terrain.groundHeight,
+    bounds: { min: [-width / 2, -depth / 2], max: [width / 2, depth / 2] },
+    gravity: level.gravity ?? DEFAULT_GRAVITY,
+    boxes,
+    heightfield: level.terrain.heightfield
+  }
+}
+
+// Spawn points are handed out round-robin
+export function getSpawnPoint(level: LevelDefinition, index: number): LevelSpawnPoint {
+  return level.spawnPoints[index % level.spawnPoints.length]
+}
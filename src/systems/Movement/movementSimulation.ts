@@ -0,0 +1,197 @@
+import type { Vector3Tuple } from 'three'
+import { DEFAULT_COLLISION_WORLD, type CollisionWorld } from '@/systems/Physics/collisionWorld'
+import {
+  DEFAULT_CHARACTER_SHAPE,
+  moveCharacter,
+  type CharacterShape
+} from '@/systems/Physics/characterPhysics'
+
+// Pure, deterministic player movement. No React, DOM or clock access - the same
+// inputs and deltas always produce the same states, on the client, the server
+// and in replay tools.
+
+// Movement is simulated in fixed 60 Hz steps regardless of render frame rate
+export const FIXED_TIMESTEP = 1 / 60
+// Cap on catch-up steps per frame so a long stall doesn't freeze the tab (spiral of death)
+export const MAX_STEPS_PER_FRAME = 8
+
+export interface MovementConfig {
+  // Units per 60 Hz frame
+  speed: number
+  runMultiplier: number
+  // Initial upward velocity of a jump, units/s
+  jumpSpeed: number
+  shape: CharacterShape
+}
+
+export const DEFAULT_MOVEMENT_CONFIG: MovementConfig = {
+  speed: 0.2,
+  runMultiplier: 1.8,
+  jumpSpeed: 8,
+  shape: DEFAULT_CHARACTER_SHAPE
+}
+
+// What the player wants to do this step, independent of how it was entered
+export interface MovementIntent {
+  forward: boolean
+  backward: boolean
+  left: boolean
+  right: boolean
+  run: boolean
+  jump?: boolean
+  // Analog throttle in [0, 1] (gamepad stick deflection); digital input leaves it unset = full speed
+  magnitude?: number
+  // Yaw the directions are relative to (first-person look); the character faces it and
+  // left/right strafe. Unset = world axes, facing the way it moves.
+  heading?: number
+}
+
+export interface MovementState {
+  position: Vector3Tuple
+  rotation: Vector3Tuple
+  isMoving: boolean
+  isRunning: boolean
+  velocity: { x: number; z: number; speed: number }
+  verticalVelocity: number
+  isGrounded: boolean
+}
+
+export const IDLE_INTENT: MovementIntent = {
+  forward: false,
+  backward: false,
+  left: false,
+  right: false,
+  run: false,
+  jump: false
+}
+
+export function createMovementState(
+  position: Vector3Tuple = [0, 0, 0],
+  rotation: Vector3Tuple = [0, 0, 0]
+): MovementState {
+  return {
+    position: [...position],
+    rotation: [...rotation],
+    isMoving: false,
+    isRunning: false,
+    velocity: { x: 0, z: 0, speed: 0 },
+    verticalVelocity: 0,
+    isGrounded: true
+  }
+}
+
+export const hasMovementIntent = (intent: MovementIntent): boolean =>
+  intent.forward || intent.backward || intent.left || intent.right
+
+const throttle = (magnitude: number | undefined): number =>
+  magnitude === undefined || !Number.isFinite(magnitude) ? 1 : Math.min(Math.max(magnitude, 0), 1)
+
+// Advance one step. deltaTime is in seconds; speed is scaled by deltaTime * 60 so
+// one 60 Hz step moves exactly `speed` units on open ground. Collision, gravity and
+// jumping are resolved against `world`.
+export function stepMovement(
+  state: MovementState,
+  intent: MovementIntent,
+  deltaTime: number,
+  config: MovementConfig = DEFAULT_MOVEMENT_CONFIG,
+  world: CollisionWorld = DEFAULT_COLLISION_WORLD
+): MovementState {
+  const frameSpeed = config.speed * (intent.run ? config.runMultiplier : 1.0) * throttle(intent.magnitude) * (deltaTime * 60)
+  let moveX = 0
+  let moveZ = 0
+  let rotY = state.rotation[1]
+
+  if (intent.forward) { moveZ -= frameSpeed; rotY = 0 }
+  if (intent.backward) { moveZ += frameSpeed; rotY = Math.PI }
+  if (intent.left) { moveX -= frameSpeed; rotY = Math.PI / 2 }
+  if (intent.right) { moveX += frameSpeed; rotY = -Math.PI / 2 }
+
+  const heading = intent.heading !== undefined && Number.isFinite(intent.heading) ? intent.heading : null
+  if (heading !== null) {
+    // Rotate the look-relative vector into the world; forward at yaw h is (-sin h, -cos h)
+    const cos = Math.cos(heading)
+    const sin = Math.sin(heading)
+    const localX = moveX
+    moveX = localX * cos + moveZ * sin
+    moveZ = moveZ * cos - localX * sin
+    rotY = heading
+  } else if (Math.hypot(moveX, moveZ) > 1e-6) {
+    // Face the movement vector (diagonals supported). Three.js yaw: 0 faces -Z.
+    rotY = Math.atan2(-moveX, -moveZ)
+  }
+
+  const motion = moveCharacter(
+    world,
+    config.shape,
+    { position: state.position, verticalVelocity: state.verticalVelocity, isGrounded: state.isGrounded },
+    moveX,
+    moveZ,
+    intent.jump ? config.jumpSpeed : 0,
+    deltaTime
+  )
+  // Report what actually happened, so walking into a wall reads as standing still
+  const velocityX = motion.position[0] - state.position[0]
+  const velocityZ = motion.position[2] - state.position[2]
+
+  return {
+    position: motion.position,
+    rotation: hasMovementIntent(intent) ? [0, rotY, 0] : state.rotation,
+    isMoving: hasMovementIntent(intent),
+    isRunning: intent.run,
+    velocity: { x: velocityX, z: velocityZ, speed: Math.hypot(velocityX, velocityZ) },
+    verticalVelocity: motion.verticalVelocity,
+    isGrounded: motion.isGrounded
+  }
+}
+
+// Whether stepping with this intent can change anything; idle steps on the ground are skipped
+export const needsSimulation = (state: MovementState, intent: MovementIntent): boolean =>
+  hasMovementIntent(intent) || intent.jump === true || !state.isGrounded
+
+// Replays a recorded sequence of fixed steps, e.g. for debugging desyncs from logs
+export function simulateMovement(
+  initial: MovementState,
+  intents: Iterable<MovementIntent>,
+  deltaTime: number = FIXED_TIMESTEP,
+  config: MovementConfig = DEFAULT_MOVEMENT_CONFIG,
+  world: CollisionWorld = DEFAULT_COLLISION_WORLD
+): MovementState {
+  let state = initial
+  for (const intent of intents) {
+    state = stepMovement(state, intent, deltaTime, config, world)
+  }
+  return state
+}
+
+// Converts variable render deltas into a whole number of fixed simulation steps,
+// carrying the remainder to the next frame.
+export class FixedTimestep {
+  private accumulator = 0
+
+  constructor(
+    readonly step: number = FIXED_TIMESTEP,
+    private maxSteps: number = MAX_STEPS_PER_FRAME
+  ) {}
+
+  // Returns how many fixed steps to run for this frame
+  advance(frameDelta: number): number {
+    this.accumulator += Math.max(0, frameDelta)
+    let steps = Math.floor(this.accumulator / this.step)
+    if (steps > this.maxSteps) {
+      steps = this.maxSteps
+      this.accumulator = 0 // drop the backlog rather than fast-forwarding through it
+    } else {
+      this.accumulator -= steps * this.step
+    }
+    return steps
+  }
+
+  // Fraction of a step left over, for render interpolation between fixed states
+  get alpha(): number {
+    return this.accumulator / this.step
+  }
+
+  reset() {
+    this.accumulator = 0
+  }
+}
@@ -1,27 +1,267 @@
-// Stub NetworkManager - networking disabled for avatar debugging
+import { io, Socket } from 'socket.io-client'
+import type { Player } from '@/types'
+import {
+  DEFAULT_TICK_RATE,
+  MESSAGE_EVENT,
+  createMessage,
+  normalizeInviteCode,
+  toWirePlayer,
+  type AttackRequest,
+  type ClientMessage,
+  type ClientMessageMap,
+  type ClientToServerEvents,
+  type ServerMessage,
+  type ServerMessageMap,
+  type ServerToClientEvents
+} from './protocol'
+import type { MovementInput } from './inputPrediction'
+import type { ChatChannel } from '@/systems/Chat/chat'
+import type { PlayerIdentity } from '@/systems/Profile/profile'
+
+// Local lifecycle events are delivered through the same listener registry as server messages
+export interface NetworkEventMap extends ServerMessageMap {
+  connected: boolean
+  reconnecting: number
+}
+
+export type NetworkEvent = keyof NetworkEventMap
+type Listener<K extends NetworkEvent> = (data: NetworkEventMap[K]) => void
+
+export interface NetworkManagerOptions {
+  url?: string
+  // Reconnection backoff: delay doubles per attempt up to reconnectionDelayMax, with jitter
+  reconnectionDelay?: number
+  reconnectionDelayMax?: number
+  randomizationFactor?: number
+  connectTimeout?: number
+}
+
+export const DEFAULT_SERVER_URL = 'http://localhost:3001'
+
+const DEFAULT_OPTIONS: Required<NetworkManagerOptions> = {
+  url: import.meta.env?.VITE_GAME_SERVER_URL ?? DEFAULT_SERVER_URL,
+  reconnectionDelay: 500,
+  reconnectionDelayMax: 10000,
+  randomizationFactor: 0.5,
+  connectTimeout: 5000
+}
+
 export class NetworkManager {
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null
+  private listeners = new Map<NetworkEvent, Set<Listener<any>>>()
+  private options: Required<NetworkManagerOptions>
+  private lobbyPlayer: Player | null = null
+  // Presented on every (re)join so the server gives back the same player id
+  private identityToken: string | undefined
+  private inputQueue: MovementInput[] = []
+  private inputFlushTimer: ReturnType<typeof setTimeout> | null = null
+  private lastInputFlushAt = 0
+
+  constructor(options: NetworkManagerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  // Resolves once the first connection attempt settles. On failure Socket.IO keeps
+  // retrying in the background and 'connected' fires when the server comes up.
   async connect(): Promise<boolean> {
-    console.log('🔍 NetworkManager: Disabled for avatar debugging')
-    return false
+    if (this.socket?.connected) return true
+
+    if (!this.socket) {
+      this.socket = this.createSocket()
+    }
+
+    const socket = this.socket
+    return new Promise((resolve) => {
+      const settle = (connected: boolean) => {
+        socket.off('connect', onConnect)
+        socket.off('connect_error', onError)
+        resolve(connected)
+      }
+      const onConnect = () => settle(true)
+      const onError = (error: Error) => {
+        console.warn('🌐 NetworkManager: Connection failed, retrying in background:', error.message)
+        settle(false)
+      }
+
+      socket.once('connect', onConnect)
+      socket.once('connect_error', onError)
+      if (!socket.active) socket.connect()
+    })
   }
 
   disconnect() {
-    // No-op
+    if (this.inputFlushTimer) {
+      clearTimeout(this.inputFlushTimer)
+      this.inputFlushTimer = null
+    }
+    if (!this.socket) return
+    this.socket.removeAllListeners()
+    this.socket.io.removeAllListeners()
+    this.socket.disconnect()
+    this.socket = null
+    this.emitLocal('connected', false)
+  }
+
+  on<K extends NetworkEvent>(event: K, callback: Listener<K>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set())
+    }
+    this.listeners.get(event)!.add(callback)
+    return () => this.off(event, callback)
+  }
+
+  off<K extends NetworkEvent>(event: K, callback: Listener<K>) {
+    this.listeners.get(event)?.delete(callback)
+  }
+
+  // Dropped while disconnected: Socket.IO would otherwise buffer it and replay it on
+  // reconnect, ahead of the join_lobby that restores the session
+  send<K extends keyof ClientMessageMap>(type: K, data: ClientMessageMap[K]) {
+    if (!this.socket?.connected) {
+      console.warn('🌐 NetworkManager: Not connected, dropping message:', type)
+      return
+    }
+    this.socket.emit(MESSAGE_EVENT, createMessage<ClientMessageMap, K>(type, data) as ClientMessage)
+  }
+
+  joinLobby(player: Player, identityToken?: string) {
+    // Remembered so the lobby is rejoined automatically after a reconnect
+    this.lobbyPlayer = toWirePlayer(player)
+    this.identityToken = identityToken ?? this.identityToken
+    if (this.socket?.connected) {
+      this.send('join_lobby', { player: this.lobbyPlayer, identityToken: this.identityToken })
+    }
+  }
+
+  // The identity the server issued, for the next rejoin
+  setIdentity({ playerId, identityToken }: PlayerIdentity) {
+    this.identityToken = identityToken
+    if (this.lobbyPlayer) this.lobbyPlayer = { ...this.lobbyPlayer, id: playerId }
+  }
+
+  updateProfile(name: string) {
+    if (this.lobbyPlayer) this.lobbyPlayer = { ...this.lobbyPlayer, name }
+    this.send('update_profile', { name })
+  }
+
+  createRoom(roomName: string, isPrivate: boolean = false, maxPlayers?: number, modeId?: string) {
+    this.send('create_room', { name: roomName, isPrivate, maxPlayers, modeId })
+  }
+
+  joinRoom(roomId: string) {
+    this.send('join_room', { roomId })
   }
 
-  on(event: string, callback: Function) {
-    // No-op
+  joinRoomByInvite(inviteCode: string) {
+    this.send('join_room', { inviteCode: normalizeInviteCode(inviteCode) })
   }
 
-  joinLobby(player: any) {
-    // No-op
+  leaveRoom() {
+    this.send('leave_room', {})
   }
 
-  createRoom(roomName: string, isPrivate: boolean = false) {
-    // No-op  
+  spectateRoom(roomId: string) {
+    this.send('spectate_room', { roomId })
+  }
+
+  spectateRoomByInvite(inviteCode: string) {
+    this.send('spectate_room', { inviteCode: normalizeInviteCode(inviteCode) })
+  }
+
+  stopSpectating() {
+    this.send('stop_spectating', {})
+  }
+
+  requestRoomList() {
+    this.send('list_rooms', {})
+  }
+
+  attack(request: AttackRequest) {
+    this.send('attack', request)
+  }
+
+  sendChat(channel: ChatChannel, text: string) {
+    this.send('chat_send', { channel, text })
+  }
+
+  setChatBlocked(playerId: string, blocked: boolean) {
+    this.send('chat_block', { playerId, blocked })
+  }
+
+  // Inputs are batched and flushed at the server tick rate rather than sent per frame
+  queueInput(input: MovementInput) {
+    if (!this.socket?.connected) return
+    this.inputQueue.push(input)
+    if (this.inputFlushTimer) return
+
+    const interval = 1000 / DEFAULT_TICK_RATE
+    const wait = Math.max(0, interval - (Date.now() - this.lastInputFlushAt))
+    this.inputFlushTimer = setTimeout(() => this.flushInputs(), wait)
   }
 
   getConnectionStatus(): boolean {
-    return false
+    return this.socket?.connected ?? false
+  }
+
+  getSocketId(): string | undefined {
+    return this.socket?.id
+  }
+
+  private createSocket(): Socket<ServerToClientEvents, ClientToServerEvents> {
+    const { url, reconnectionDelay, reconnectionDelayMax, randomizationFactor, connectTimeout } = this.options
+    console.log('🌐 NetworkManager: Connecting to', url)
+
+    const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(url, {
+      autoConnect: false,
+      reconnection: true,
+      reconnectionDelay,
+      reconnectionDelayMax,
+      randomizationFactor,
+      timeout: connectTimeout
+    })
+
+    socket.on('connect', () => {
+      console.log('🌐 NetworkManager: Connected as', socket.id)
+      this.inputQueue = []
+      this.emitLocal('connected', true)
+      if (this.lobbyPlayer) {
+        this.send('join_lobby', { player: this.lobbyPlayer, identityToken: this.identityToken })
+      }
+    })
+
+    socket.on('disconnect', (reason) => {
+      console.warn('🌐 NetworkManager: Disconnected:', reason)
+      this.emitLocal('connected', false)
+    })
+
+    socket.io.on('reconnect_attempt', (attempt) => {
+      this.emitLocal('reconnecting', attempt)
+    })
+
+    socket.on(MESSAGE_EVENT, (message: ServerMessage) => {
+      this.dispatch(message)
+    })
+
+    return socket
+  }
+
+  private flushInputs() {
+    this.inputFlushTimer = null
+    this.lastInputFlushAt = Date.now()
+    if (this.inputQueue.length === 0) return
+    this.send('player_input', { inputs: this.inputQueue })
+    this.inputQueue = []
+  }
+
+  private dispatch(message: ServerMessage) {
+    if (!message || typeof message.type !== 'string') {
+      console.warn('🌐 NetworkManager: Ignoring malformed message:', message)
+      return
+    }
+    this.emitLocal(message.type, message.data)
+  }
+
+  private emitLocal<K extends NetworkEvent>(event: K, data: NetworkEventMap[K]) {
+    this.listeners.get(event)?.forEach(listener => listener(data))
   }
 }
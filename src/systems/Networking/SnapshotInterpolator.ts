@@ -0,0 +1,157 @@
+import type { Vector3Tuple } from 'three'
+import type { StateSnapshot } from './protocol'
+
+// Render remote players this far behind the newest server time so there are
+// normally two snapshots to blend between (~2 ticks at 20 Hz)
+export const INTERPOLATION_DELAY_MS = 100
+// When snapshots stop arriving, keep moving along the last velocity for at most this long
+export const MAX_EXTRAPOLATION_MS = 250
+const BUFFER_SIZE = 32
+
+interface TransformSample {
+  time: number
+  position: Vector3Tuple
+  yaw: number
+}
+
+export interface InterpolatedTransform {
+  position: Vector3Tuple
+  yaw: number
+  // Horizontal speed in world units per second, for animation selection
+  speed: number
+  extrapolating: boolean
+}
+
+const TWO_PI = Math.PI * 2
+
+// Lerp along the shortest arc so yaw never spins the long way round past ±π
+function lerpAngle(a: number, b: number, t: number): number {
+  let diff = (b - a) % TWO_PI
+  if (diff > Math.PI) diff -= TWO_PI
+  if (diff < -Math.PI) diff += TWO_PI
+  return a + diff * t
+}
+
+// Buffers server snapshots per remote player and samples them at a delayed render time.
+// Sampling writes into caller-owned objects so the per-frame path allocates nothing.
+export class SnapshotInterpolator {
+  private buffers = new Map<string, TransformSample[]>()
+  // Estimated (local clock - server clock); tracks the lowest observed latency
+  private clockOffset: number | null = null
+
+  push(snapshot: StateSnapshot, localId?: string, receivedAt: number = Date.now()) {
+    this.pushEntities(
+      snapshot.serverTime,
+      snapshot.players
+        .filter(({ id }) => id !== localId)
+        .map(({ id, position, rotation }) => ({ id, position, yaw: rotation[1] })),
+      receivedAt
+    )
+  }
+
+  // Any server-driven entity (players, kaiju) keyed by id
+  pushEntities(
+    serverTime: number,
+    entities: Iterable<{ id: string; position: Vector3Tuple; yaw: number }>,
+    receivedAt: number = Date.now()
+  ) {
+    const offset = receivedAt - serverTime
+    if (this.clockOffset === null || offset < this.clockOffset) {
+      this.clockOffset = offset
+    } else {
+      // Drift slowly towards later offsets so a single lucky packet doesn't pin it forever
+      this.clockOffset += (offset - this.clockOffset) * 0.01
+    }
+
+    for (const { id, position, yaw } of entities) {
+      let buffer = this.buffers.get(id)
+      if (!buffer) {
+        buffer = []
+        this.buffers.set(id, buffer)
+      }
+      const last = buffer[buffer.length - 1]
+      if (last && last.time >= serverTime) continue // out of order
+      buffer.push({ time: serverTime, position: [position[0], position[1], position[2]], yaw })
+      if (buffer.length > BUFFER_SIZE) buffer.shift()
+    }
+  }
+
+  remove(playerId: string) {
+    this.buffers.delete(playerId)
+  }
+
+  // Keep only players still present (e.g. after a lobby update or room change)
+  retain(playerIds: Iterable<string>) {
+    const keep = new Set(playerIds)
+    for (const id of this.buffers.keys()) {
+      if (!keep.has(id)) this.buffers.delete(id)
+    }
+  }
+
+  clear() {
+    this.buffers.clear()
+    this.clockOffset = null
+  }
+
+  has(playerId: string): boolean {
+    return (this.buffers.get(playerId)?.length ?? 0) > 0
+  }
+
+  sample(playerId: string, out: InterpolatedTransform, now: number = Date.now()): boolean {
+    const buffer = this.buffers.get(playerId)
+    if (!buffer || buffer.length === 0 || this.clockOffset === null) return false
+
+    const renderTime = now - this.clockOffset - INTERPOLATION_DELAY_MS
+    out.extrapolating = false
+
+    // Find the pair bracketing renderTime
+    for (let i = buffer.length - 1; i > 0; i--) {
+      const from = buffer[i - 1]
+      const to = buffer[i]
+      if (from.time <= renderTime && renderTime <= to.time) {
+        const span = to.time - from.time
+        const t = span > 0 ? (renderTime - from.time) / span : 1
+        this.blend(from, to, t, out)
+        out.speed = span > 0 ? Math.hypot(to.position[0] - from.position[0], to.position[2] - from.position[2]) / (span / 1000) : 0
+        return true
+      }
+    }
+
+    const newest = buffer[buffer.length - 1]
+    if (renderTime < buffer[0].time || buffer.length === 1) {
+      this.copy(renderTime < buffer[0].time ? buffer[0] : newest, out)
+      out.speed = 0
+      return true
+    }
+
+    // Packet loss: renderTime is past the newest snapshot - extrapolate briefly, then hold
+    const previous = buffer[buffer.length - 2]
+    const span = newest.time - previous.time
+    const ahead = Math.min(renderTime - newest.time, MAX_EXTRAPOLATION_MS)
+    const t = span > 0 ? 1 + ahead / span : 1
+    this.blend(previous, newest, t, out)
+    out.extrapolating = renderTime - newest.time <= MAX_EXTRAPOLATION_MS
+    out.speed = out.extrapolating && span > 0
+      ? Math.hypot(newest.position[0] - previous.position[0], newest.position[2] - previous.position[2]) / (span / 1000)
+      : 0
+    return true
+  }
+
+  private blend(from: TransformSample, to: TransformSample, t: number, out: InterpolatedTransform) {
+    out.position[0] = from.position[0] + (to.position[0] - from.position[0]) * t
+    out.position[1] = from.position[1] + (to.position[1] - from.position[1]) * t
+    out.position[2] = from.position[2] + (to.position[2] - from.position[2]) * t
+    out.yaw = lerpAngle(from.yaw, to.yaw, Math.min(t, 1))
+  }
+
+  private copy(sample: TransformSample, out: InterpolatedTransform) {
+    out.position[0] = sample.position[0]
+    out.position[1] = sample.position[1]
+    out.position[2] = sample.position[2]
+    out.yaw = sample.yaw
+  }
+}
+
+// Shared instances fed by useNetworking and read by the 3D views
+export const remotePlayerInterpolator = new SnapshotInterpolator()
+export const kaijuInterpolator = new SnapshotInterpolator()
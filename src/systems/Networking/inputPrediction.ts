@@ -0,0 +1,80 @@
+import { DEFAULT_COLLISION_WORLD, type CollisionWorld } from '@/systems/Physics/collisionWorld'
+import {
+  DEFAULT_MOVEMENT_CONFIG,
+  createMovementState,
+  stepMovement,
+  type MovementConfig,
+  type MovementIntent,
+  type MovementState
+} from '@/systems/Movement/movementSimulation'
+import type { PlayerMotion, PlayerTransform } from './protocol'
+
+// Longest single step the server will simulate; larger steps are clamped
+export const MAX_INPUT_DT = 0.1
+// Unacknowledged inputs kept for replay (~4s of fixed steps)
+const MAX_PENDING_INPUTS = 256
+
+// One fixed simulation step of player intent, stamped with a sequence id so the server can acknowledge it
+export interface MovementInput extends MovementIntent {
+  seq: number
+  dt: number
+}
+
+// Client-side prediction bookkeeping: remembers inputs the server hasn't acknowledged
+// and, when authoritative state arrives, rewinds to it and replays the rest.
+export class InputPredictor {
+  private pending: MovementInput[] = []
+  private seq = 0
+  private authoritative: (PlayerTransform & PlayerMotion & { ack: number }) | null = null
+
+  nextSeq(): number {
+    return ++this.seq
+  }
+
+  record(input: MovementInput) {
+    this.pending.push(input)
+    if (this.pending.length > MAX_PENDING_INPUTS) this.pending.shift()
+  }
+
+  // Latest wins - older authoritative states are superseded before they are applied
+  receiveAuthoritative(
+    { position, rotation, verticalVelocity, isGrounded }: PlayerTransform & PlayerMotion,
+    ack: number
+  ) {
+    if (this.authoritative && ack < this.authoritative.ack) return
+    this.authoritative = { position: [...position], rotation: [...rotation], verticalVelocity, isGrounded, ack }
+  }
+
+  // Returns the corrected predicted state, or null when nothing new arrived
+  reconcile(
+    config: MovementConfig = DEFAULT_MOVEMENT_CONFIG,
+    world: CollisionWorld = DEFAULT_COLLISION_WORLD
+  ): MovementState | null {
+    const authoritative = this.authoritative
+    if (!authoritative) return null
+    this.authoritative = null
+
+    this.pending = this.pending.filter(input => input.seq > authoritative.ack)
+    let state: MovementState = {
+      ...createMovementState(authoritative.position, authoritative.rotation),
+      verticalVelocity: authoritative.verticalVelocity,
+      isGrounded: authoritative.isGrounded
+    }
+    for (const input of this.pending) {
+      state = stepMovement(state, input, input.dt, config, world)
+    }
+    return state
+  }
+
+  getPendingCount(): number {
+    return this.pending.length
+  }
+
+  reset() {
+    this.pending = []
+    this.authoritative = null
+  }
+}
+
+// The local player's predictor, fed by useNetworking and consumed by useKeyboardMovement
+export const localPlayerPredictor = new InputPredictor()
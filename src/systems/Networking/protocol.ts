@@ -0,0 +1,236 @@
+import type { NetworkMessage, Player, Room } from '@/types'
+import type { MovementInput } from './inputPrediction'
+import type { KaijuBehaviour } from '@/systems/Kaiju/kaijuBrain'
+import type { AttackArea } from '@/systems/Kaiju/encounterFormat'
+import type { HurtboxOwner } from '@/systems/Combat/hitDetection'
+import type { MatchState } from '@/systems/GameMode/gameModes'
+import type { ChatChannel, ChatMessage } from '@/systems/Chat/chat'
+import type { PlayerIdentity } from '@/systems/Profile/profile'
+
+// Shared wire protocol between NetworkManager and the game server.
+// Every payload travels inside a NetworkMessage envelope on a single socket event.
+export const MESSAGE_EVENT = 'message'
+export const PROTOCOL_VERSION = 1
+export const DEFAULT_MAX_PLAYERS = 8
+export const MAX_ROOM_PLAYERS = 32
+export const DEFAULT_TICK_RATE = 20
+export const INVITE_CODE_LENGTH = 6
+
+// Client -> server payloads, keyed by message type
+export interface ClientMessageMap {
+  // The server assigns the player id: the one identityToken was issued for, or a new one
+  join_lobby: { player: Player; identityToken?: string }
+  // Renames the player everywhere they are listed
+  update_profile: { name: string }
+  create_room: { name: string; isPrivate: boolean; maxPlayers?: number; levelId?: string; modeId?: string }
+  join_room: { roomId: string } | { inviteCode: string }
+  leave_room: Record<string, never>
+  // Watch a room (full ones too) without taking a slot: its snapshots, events and chat
+  spectate_room: { roomId: string } | { inviteCode: string }
+  stop_spectating: Record<string, never>
+  list_rooms: Record<string, never>
+  // Batched per network tick; the server simulates them and acknowledges the last seq
+  player_input: { inputs: MovementInput[] }
+  // Resolved against the server's copy of the attacker's position
+  attack: AttackRequest
+  chat_send: { channel: ChatChannel; text: string }
+  // Blocked players' messages are no longer delivered to the blocker
+  chat_block: { playerId: string; blocked: boolean }
+}
+
+// Server -> client payloads, keyed by message type
+export interface ServerMessageMap {
+  // Sent first on joining the lobby; the client keeps the token to be the same player next time
+  session: SessionInfo
+  player_joined: Player
+  player_left: string
+  lobby_update: Player[]
+  room_created: Room
+  room_joined: Room
+  room_left: { roomId: string }
+  room_update: Room
+  room_list: Room[]
+  // The watched room on starting to spectate it; its room_update messages follow
+  spectate_started: Room
+  // Stopped by request, or because the watched room closed
+  spectate_stopped: { roomId: string }
+  state_snapshot: StateSnapshot
+  // Everything that happened in a room during one tick
+  combat_events: CombatEvent[]
+  // On joining a room and whenever the match changes
+  match_update: MatchState
+  // On joining a room and whenever a building's stage changes or it collapses
+  buildings_update: BuildingSnapshot[]
+  chat_message: ChatMessage
+  error: { code: ErrorCode; message: string }
+}
+
+export interface SessionInfo extends PlayerIdentity {
+  // The room a reconnecting player was put back into, else null
+  roomId: string | null
+  // The room a reconnecting spectator is watching again, else null
+  spectatingRoomId: string | null
+}
+
+export interface PlayerTransform {
+  position: [number, number, number]
+  rotation: [number, number, number]
+}
+
+// Vertical physics state, needed to replay predicted inputs mid-jump
+export interface PlayerMotion {
+  verticalVelocity: number
+  isGrounded: boolean
+}
+
+export interface AttackRequest {
+  weaponId: string
+  // Aim, radians; pitch is clamped by the server
+  yaw: number
+  pitch?: number
+}
+
+export type CombatEvent =
+  | {
+    type: 'hit'
+    // A player or kaiju id
+    attackerId: string
+    targetId: string
+    target: HurtboxOwner
+    damage: number
+    // Target health after the hit
+    health: number
+    position: [number, number, number]
+    // Boss weak point that took the hit (damage already multiplied)
+    weakPoint?: string
+  }
+  | { type: 'player_died'; playerId: string; killerId: string | null }
+  | { type: 'player_respawned'; playerId: string; position: [number, number, number] }
+  | { type: 'kaiju_died'; kaijuId: string; killerId: string | null }
+  | { type: 'kaiju_phase'; kaijuId: string; phase: number }
+  | { type: 'building_collapsed'; buildingId: string; attackerId: string | null }
+
+export interface ProjectileSnapshot {
+  id: string
+  weaponId: string
+  ownerId: string
+  position: [number, number, number]
+  velocity: [number, number, number]
+}
+
+// A boss attack winding up: where it will land, for the ground decal
+export interface TelegraphSnapshot {
+  attackId: string
+  area: AttackArea
+  origin: [number, number, number]
+  yaw: number
+  windUp: number
+  // Seconds of the wind-up already gone when this snapshot was taken
+  elapsed: number
+}
+
+// Server-simulated enemy; clients only interpolate and render it
+export interface KaijuSnapshot {
+  id: string
+  kind: string
+  position: [number, number, number]
+  yaw: number
+  health: number
+  maxHealth: number
+  behaviour: KaijuBehaviour
+  targetId: string | null
+  // Bosses only: the encounter file (public/encounters/<id>.json) and its current phase
+  encounterId?: string
+  phase?: number
+  telegraph?: TelegraphSnapshot
+  // Animation cue for the current scripted attack
+  clip?: string
+}
+
+// A placed building. Health only changes on the client when the stage does, so it is a
+// coarse reading between updates.
+export interface BuildingSnapshot {
+  // Placement id, unique in the room
+  id: string
+  // The building file (public/buildings/<id>.json)
+  buildingId: string
+  position: [number, number, number]
+  yaw: number
+  // Footprint at yaw 0, for collision while standing
+  size: [number, number, number]
+  health: number
+  maxHealth: number
+  stage: number
+  collapsed: boolean
+}
+
+// Broadcast every server tick to each room (roomId null = players still in the lobby space)
+export interface StateSnapshot {
+  tick: number
+  // Server wall clock (ms) at broadcast, used as the interpolation timeline
+  serverTime: number
+  roomId: string | null
+  players: Array<PlayerTransform & PlayerMotion & { id: string; ack: number; health: number }>
+  // Empty in the lobby space - kaiju and combat only happen in rooms
+  kaiju: KaijuSnapshot[]
+  projectiles: ProjectileSnapshot[]
+}
+
+export type ErrorCode =
+  | 'invalid_message'
+  | 'not_in_lobby'
+  | 'duplicate_player'
+  | 'room_not_found'
+  | 'invalid_invite'
+  | 'room_full'
+  | 'room_private'
+  | 'already_in_room'
+  | 'level_not_found'
+  | 'invalid_weapon'
+  | 'mode_not_found'
+  | 'invalid_name'
+  | 'session_replaced'
+  | 'chat_rate_limited'
+  | 'chat_rejected'
+
+export type ClientMessageType = keyof ClientMessageMap
+export type ServerMessageType = keyof ServerMessageMap
+
+export type ClientMessage = {
+  [K in ClientMessageType]: NetworkMessage<K, ClientMessageMap[K]>
+}[ClientMessageType]
+
+export type ServerMessage = {
+  [K in ServerMessageType]: NetworkMessage<K, ServerMessageMap[K]>
+}[ServerMessageType]
+
+// Socket.IO event typing for both ends of the connection
+export interface ServerToClientEvents {
+  message: (message: ServerMessage) => void
+}
+
+export interface ClientToServerEvents {
+  message: (message: ClientMessage) => void
+}
+
+export function createMessage<M, K extends keyof M & string>(type: K, data: M[K]): NetworkMessage<K, M[K]> {
+  return { type, data, timestamp: Date.now() }
+}
+
+// Invite codes are case-insensitive and typed by hand, so normalize before comparing
+export function normalizeInviteCode(code: string): string {
+  return code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+// Avatars carry three.js scene graphs locally - only the identity crosses the wire
+export function toWirePlayer(player: Player): Player {
+  return {
+    id: player.id,
+    name: player.name,
+    avatar: { id: player.avatar.id, name: player.avatar.name, model: null },
+    position: [...player.position],
+    rotation: [...player.rotation],
+    ...(player.room ? { room: player.room } : {}),
+    ...(player.health ? { health: { ...player.health } } : {})
+  }
+}
@@ -0,0 +1,71 @@
+import { memo, useEffect, useMemo } from 'react'
+import { BufferGeometry, Float32BufferAttribute } from 'three'
+import type { CollisionWorld, Heightfield } from './collisionWorld'
+
+function buildHeightfieldGeometry(field: Heightfield): BufferGeometry {
+  const stride = field.columns + 1
+  const positions: number[] = []
+  const indices: number[] = []
+  for (let row = 0; row <= field.rows; row++) {
+    for (let column = 0; column <= field.columns; column++) {
+      positions.push(
+        field.origin[0] + column * field.cellSize,
+        field.heights[row * stride + column],
+        field.origin[1] + row * field.cellSize
+      )
+    }
+  }
+  for (let row = 0; row < field.rows; row++) {
+    for (let column = 0; column < field.columns; column++) {
+      const a = row * stride + column
+      const b = a + 1
+      const c = a + stride
+      const d = c + 1
+      indices.push(a, c, b, b, c, d)
+    }
+  }
+  const geometry = new BufferGeometry()
+  geometry.setAttribute('position', new Float32BufferAttribute(positions, 3))
+  geometry.setIndex(indices)
+  geometry.computeVertexNormals()
+  return geometry
+}
+
+// Draws the collision world's boxes and terrain so what blocks the player is visible
+export const WorldGeometry = memo(function WorldGeometry({ world, terrainColor = '#4a5d3a' }: {
+  world: CollisionWorld
+  terrainColor?: string
+}) {
+  const terrain = useMemo(
+    () => (world.heightfield ? buildHeightfieldGeometry(world.heightfield) : null),
+    [world.heightfield]
+  )
+
+  useEffect(() => () => terrain?.dispose(), [terrain])
+
+  return (
+    <group>
+      {world.boxes.map((box, i) => box.color && (
+        <mesh
+          key={i}
+          position={[
+            (box.min[0] + box.max[0]) / 2,
+            (box.min[1] + box.max[1]) / 2,
+            (box.min[2] + box.max[2]) / 2
+          ]}
+          castShadow
+          receiveShadow
+        >
+          <boxGeometry args={[box.max[0] - box.min[0], box.max[1] - box.min[1], box.max[2] - box.min[2]]} />
+          <meshStandardMaterial color={box.color} />
+        </mesh>
+      ))}
+      {/* Lifted a hair so flat terrain doesn't z-fight with the ground plane */}
+      {terrain && (
+        <mesh geometry={terrain} position={[0, 0.01, 0]} receiveShadow>
+          <meshStandardMaterial color={terrainColor} />
+        </mesh>
+      )}
+    </group>
+  )
+})
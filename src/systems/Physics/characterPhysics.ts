@@ -0,0 +1,159 @@
+import type { Vector3Tuple } from 'three'
+import { terrainHeightAt, type CollisionBox, type CollisionWorld } from './collisionWorld'
+
+// Kinematic capsule controller: gravity, jumping, walls, slopes and step-up against a
+// static CollisionWorld. Deterministic - no clock or randomness - so prediction and the
+// server agree step for step.
+
+// Upright capsule with its feet at the character position
+export interface CharacterShape {
+  radius: number
+  height: number
+  // Ledges up to this high are climbed without jumping
+  stepHeight: number
+  // Steepest walkable terrain, in radians
+  maxSlope: number
+}
+
+export interface CharacterMotion {
+  position: Vector3Tuple
+  verticalVelocity: number
+  isGrounded: boolean
+}
+
+// Same footprint as the remote player placeholder capsule
+export const DEFAULT_CHARACTER_SHAPE: CharacterShape = {
+  radius: 0.35,
+  height: 1.8,
+  stepHeight: 0.35,
+  maxSlope: Math.PI / 4
+}
+
+const TERMINAL_VELOCITY = 50
+const EPSILON = 1e-4
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+function overlapsBox(box: CollisionBox, shape: CharacterShape, x: number, y: number, z: number): boolean {
+  if (y >= box.max[1] - EPSILON || y + shape.height <= box.min[1] + EPSILON) return false
+  const dx = x - clamp(x, box.min[0], box.max[0])
+  const dz = z - clamp(z, box.min[2], box.max[2])
+  return dx * dx + dz * dz < shape.radius * shape.radius - EPSILON
+}
+
+function findOverlap(world: CollisionWorld, shape: CharacterShape, x: number, y: number, z: number): CollisionBox | null {
+  for (const box of world.boxes) {
+    if (overlapsBox(box, shape, x, y, z)) return box
+  }
+  return null
+}
+
+// Highest surface under the capsule footprint that is no higher than maxTop
+function supportHeight(world: CollisionWorld, shape: CharacterShape, x: number, z: number, maxTop: number): number {
+  let support = terrainHeightAt(world, x, z)
+  for (const box of world.boxes) {
+    if (box.max[1] > maxTop + EPSILON || box.max[1] <= support) continue
+    const dx = x - clamp(x, box.min[0], box.max[0])
+    const dz = z - clamp(z, box.min[2], box.max[2])
+    if (dx * dx + dz * dz < shape.radius * shape.radius) support = box.max[1]
+  }
+  return support
+}
+
+// One horizontal move; returns the new position, or null when a wall or steep slope blocks it
+function tryMove(
+  world: CollisionWorld,
+  shape: CharacterShape,
+  [x, y, z]: Vector3Tuple,
+  nx: number,
+  nz: number,
+  grounded: boolean
+): Vector3Tuple | null {
+  const { bounds } = world
+  nx = clamp(nx, bounds.min[0] + shape.radius, bounds.max[0] - shape.radius)
+  nz = clamp(nz, bounds.min[1] + shape.radius, bounds.max[1] - shape.radius)
+  const distance = Math.hypot(nx - x, nz - z)
+  if (distance < EPSILON) return null
+
+  const terrainTo = terrainHeightAt(world, nx, nz)
+  if (terrainTo > y + EPSILON) {
+    const grade = (terrainTo - terrainHeightAt(world, x, z)) / distance
+    if (grade > Math.tan(shape.maxSlope)) return null
+  }
+
+  const blocker = findOverlap(world, shape, nx, y, nz)
+  if (!blocker) return [nx, y, nz]
+
+  // Step up onto low ledges, but only from the ground and only if there's room on top
+  const rise = blocker.max[1] - y
+  if (!grounded || rise > shape.stepHeight) return null
+  if (findOverlap(world, shape, nx, blocker.max[1], nz)) return null
+  return [nx, blocker.max[1], nz]
+}
+
+// Takes the largest of the full, half, quarter and eighth move that fits, so the
+// capsule ends up close against a wall instead of stopping a whole step short
+function moveAxis(
+  world: CollisionWorld,
+  shape: CharacterShape,
+  position: Vector3Tuple,
+  dx: number,
+  dz: number,
+  grounded: boolean
+): Vector3Tuple {
+  for (let fraction = 1; fraction >= 0.125; fraction /= 2) {
+    const moved = tryMove(world, shape, position, position[0] + dx * fraction, position[2] + dz * fraction, grounded)
+    if (moved) return moved
+  }
+  return position
+}
+
+// Moves by (dx, dz) then applies gravity. Pass a jumpSpeed above 0 to jump (ignored in the air).
+export function moveCharacter(
+  world: CollisionWorld,
+  shape: CharacterShape,
+  motion: CharacterMotion,
+  dx: number,
+  dz: number,
+  jumpSpeed: number,
+  deltaTime: number
+): CharacterMotion {
+  let position: Vector3Tuple = [...motion.position]
+  let grounded = motion.isGrounded
+  let verticalVelocity = motion.verticalVelocity
+
+  // Resolve X and Z separately so blocked movement slides along walls
+  position = moveAxis(world, shape, position, dx, 0, grounded)
+  position = moveAxis(world, shape, position, 0, dz, grounded)
+
+  if (jumpSpeed > 0 && grounded) {
+    verticalVelocity = jumpSpeed
+    grounded = false
+  }
+  verticalVelocity = Math.max(verticalVelocity - world.gravity * deltaTime, -TERMINAL_VELOCITY)
+
+  const [x, previousY, z] = position
+  let y = previousY + verticalVelocity * deltaTime
+
+  // Head hits the underside of a box
+  if (verticalVelocity > 0) {
+    const ceiling = findOverlap(world, shape, x, y, z)
+    if (ceiling && ceiling.min[1] >= previousY + shape.height - EPSILON) {
+      y = ceiling.min[1] - shape.height
+      verticalVelocity = 0
+    }
+  }
+
+  // Land, or stay glued to the ground when walking down stairs and slopes
+  const support = supportHeight(world, shape, x, z, previousY + (grounded ? shape.stepHeight : 0))
+  const snapDown = grounded && verticalVelocity <= 0 && previousY - support <= shape.stepHeight
+  if (y <= support || snapDown) {
+    y = support
+    verticalVelocity = 0
+    grounded = true
+  } else {
+    grounded = false
+  }
+
+  return { position: [x, y, z], verticalVelocity, isGrounded: grounded }
+}
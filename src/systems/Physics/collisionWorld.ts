@@ -0,0 +1,64 @@
+import type { Vector3Tuple } from 'three'
+
+// Static collision geometry shared by the client simulation and the authoritative server.
+// Plain data only; levelFormat.ts builds one from a level file.
+
+// Axis-aligned box; drawn in `color` when set, invisible otherwise
+export interface CollisionBox {
+  min: Vector3Tuple
+  max: Vector3Tuple
+  color?: string
+}
+
+// Regular grid of ground heights over the XZ plane, (columns + 1) x (rows + 1) samples
+// stored row by row starting at `origin` (the minimum x/z corner)
+export interface Heightfield {
+  origin: [number, number]
+  cellSize: number
+  columns: number
+  rows: number
+  heights: number[]
+}
+
+export interface CollisionWorld {
+  // Flat ground everywhere the heightfield doesn't cover
+  groundHeight: number
+  // Walkable area in XZ; players are kept inside it
+  bounds: { min: [number, number]; max: [number, number] }
+  // Downward acceleration in units/s²
+  gravity: number
+  boxes: CollisionBox[]
+  heightfield?: Heightfield
+}
+
+// Bilinear height at (x, z), or null outside the field
+export function sampleHeightfield(field: Heightfield, x: number, z: number): number | null {
+  const gx = (x - field.origin[0]) / field.cellSize
+  const gz = (z - field.origin[1]) / field.cellSize
+  if (gx < 0 || gz < 0 || gx > field.columns || gz > field.rows) return null
+
+  const column = Math.min(Math.floor(gx), field.columns - 1)
+  const row = Math.min(Math.floor(gz), field.rows - 1)
+  const tx = gx - column
+  const tz = gz - row
+  const stride = field.columns + 1
+  const h00 = field.heights[row * stride + column]
+  const h10 = field.heights[row * stride + column + 1]
+  const h01 = field.heights[(row + 1) * stride + column]
+  const h11 = field.heights[(row + 1) * stride + column + 1]
+  return (h00 * (1 - tx) + h10 * tx) * (1 - tz) + (h01 * (1 - tx) + h11 * tx) * tz
+}
+
+// Terrain height (ground plane or heightfield) ignoring boxes
+export function terrainHeightAt(world: CollisionWorld, x: number, z: number): number {
+  const height = world.heightfield ? sampleHeightfield(world.heightfield, x, z) : null
+  return height === null ? world.groundHeight : Math.max(world.groundHeight, height)
+}
+
+// Open flat ground, used until a level (see levelFormat.ts) provides real geometry
+export const DEFAULT_COLLISION_WORLD: CollisionWorld = {
+  groundHeight: 0,
+  bounds: { min: [-50, -50], max: [50, 50] },
+  gravity: 25,
+  boxes: []
+}
@@ -0,0 +1,81 @@
+// Who the local player is across sessions, and the display-name rules the server
+// enforces too.
+
+// Issued by the game server on joining the lobby. Presenting the token again reclaims
+// the same player id, so the id stays stable across reloads.
+export interface PlayerIdentity {
+  playerId: string
+  identityToken: string
+}
+
+export interface PlayerProfile {
+  displayName: string
+  // Last avatar picked, preselected next time
+  avatarId: string | null
+  // Null until the server has issued one
+  identity: PlayerIdentity | null
+}
+
+export const PROFILE_STORAGE_KEY = 'playerProfile'
+export const MIN_DISPLAY_NAME_LENGTH = 3
+export const MAX_DISPLAY_NAME_LENGTH = 20
+
+// Letters and digits in any script, plus space, underscore, dot and dash
+const DISPLAY_NAME_PATTERN = /^[\p{L}\p{N} _.-]+$/u
+
+export const EMPTY_PROFILE: PlayerProfile = { displayName: '', avatarId: null, identity: null }
+
+export function normalizeDisplayName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim()
+}
+
+// Returns what is wrong with a (normalised) display name, or null if it is acceptable
+export function validateDisplayName(name: string): string | null {
+  if (name.length < MIN_DISPLAY_NAME_LENGTH) {
+    return `Names need at least ${MIN_DISPLAY_NAME_LENGTH} characters`
+  }
+  if (name.length > MAX_DISPLAY_NAME_LENGTH) {
+    return `Names are limited to ${MAX_DISPLAY_NAME_LENGTH} characters`
+  }
+  if (!DISPLAY_NAME_PATTERN.test(name)) {
+    return 'Names may only use letters, numbers, spaces, _ . and -'
+  }
+  return null
+}
+
+const isIdentity = (value: unknown): value is PlayerIdentity =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as PlayerIdentity).playerId === 'string' &&
+  typeof (value as PlayerIdentity).identityToken === 'string'
+
+// Anything unreadable in the saved profile falls back to the empty value for that field
+export function loadProfile(): PlayerProfile {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILE_STORAGE_KEY) ?? 'null')
+    if (saved && typeof saved === 'object') {
+      return {
+        displayName: typeof saved.displayName === 'string' ? saved.displayName : '',
+        avatarId: typeof saved.avatarId === 'string' ? saved.avatarId : null,
+        identity: isIdentity(saved.identity) ? saved.identity : null
+      }
+    }
+  } catch (error) {
+    console.warn('⚠️ Ignoring unreadable profile:', error)
+  }
+  return { ...EMPTY_PROFILE }
+}
+
+export function saveProfile(profile: PlayerProfile) {
+  try {
+    localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile))
+  } catch (error) {
+    console.warn('⚠️ Could not save profile:', error)
+  }
+}
+
+export function resetProfile(): PlayerProfile {
+  try {
+    localStorage.removeItem(PROFILE_STORAGE_KEY)
+  } catch {}
+  return { ...EMPTY_PROFILE }
+}
@@ -0,0 +1,78 @@
+import type { Room } from '@/types'
+
+// Client-side routes. The URL says which screen is showing, so reloads, the back button
+// and shared room links all land in the right place.
+export type AppRoute =
+  | { name: 'home' }
+  // `next` is where to continue once a player exists (set by the player guard)
+  | { name: 'avatar'; next?: string }
+  | { name: 'lobby' }
+  // The 3D world outside any room
+  | { name: 'game' }
+  // The 3D world inside a room; the invite code lets a shared link into a private room
+  | { name: 'room'; roomId: string; inviteCode?: string }
+  | { name: 'settings' }
+
+export const HOME_ROUTE: AppRoute = { name: 'home' }
+
+// Unknown paths, and malformed ones (bad percent-encoding), parse to null
+export function parseRoute(pathname: string, search: string = ''): AppRoute | null {
+  const params = new URLSearchParams(search)
+  let segments: string[]
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  } catch {
+    return null
+  }
+  const [first, second] = segments
+
+  if (segments.length === 0) return HOME_ROUTE
+  if (segments.length === 1) {
+    switch (first) {
+      case 'avatar': {
+        const next = params.get('next')
+        // Only same-app paths, never a redirect off-site
+        return next?.startsWith('/') && !next.startsWith('//') ? { name: 'avatar', next } : { name: 'avatar' }
+      }
+      case 'lobby':
+        return { name: 'lobby' }
+      case 'game':
+        return { name: 'game' }
+      case 'settings':
+        return { name: 'settings' }
+    }
+  }
+  if (segments.length === 2 && first === 'room' && second) {
+    const inviteCode = params.get('invite')
+    return inviteCode ? { name: 'room', roomId: second, inviteCode } : { name: 'room', roomId: second }
+  }
+  return null
+}
+
+export function routeUrl(route: AppRoute): string {
+  switch (route.name) {
+    case 'home':
+      return '/'
+    case 'avatar':
+      return route.next ? `/avatar?${new URLSearchParams({ next: route.next })}` : '/avatar'
+    case 'lobby':
+      return '/lobby'
+    case 'game':
+      return '/game'
+    case 'room': {
+      const path = `/room/${encodeURIComponent(route.roomId)}`
+      return route.inviteCode ? `${path}?${new URLSearchParams({ invite: route.inviteCode })}` : path
+    }
+    case 'settings':
+      return '/settings'
+  }
+}
+
+// Screens that need a player (a name and a loaded avatar) before they can show
+export const requiresPlayer = (route: AppRoute): boolean =>
+  route.name === 'lobby' || route.name === 'game' || route.name === 'room'
+
+// A link that drops whoever opens it into the room (private rooms carry their invite code)
+export function roomLink(room: Room, origin: string = window.location.origin): string {
+  return origin + routeUrl({ name: 'room', roomId: room.id, inviteCode: room.inviteCode })
+}
@@ -1,4 +1,5 @@
 import * as THREE from 'three'
+import type { AnimationGraphOverrides } from '@/systems/Avatar/animationGraph'
 
 export interface Avatar {
   id: string
@@ -6,6 +7,17 @@ export interface Avatar {
   model: any | null
   animations?: THREE.AnimationClip[]
   mixer?: THREE.AnimationMixer
+  // From the avatar manifest: standing height to normalise to, or a fixed scale instead
+  height?: number
+  scale?: number
+  // Clip names, fades and blend tree where the model differs from the default graph
+  animationGraph?: AnimationGraphOverrides
+}
+
+// Set by the server; players without one are treated as unhurt
+export interface Health {
+  current: number
+  max: number
 }
 
 export interface Player {
@@ -15,6 +27,7 @@ export interface Player {
   position: [number, number, number]
   rotation: [number, number, number]
   room?: string
+  health?: Health
 }
 
 export interface Room {
@@ -23,20 +36,30 @@ export interface Room {
   players: Player[]
   maxPlayers: number
   isPrivate: boolean
+  // Level file the room plays in (public/levels/<levelId>.json)
+  levelId: string
+  // Game mode the room plays (see src/systems/GameMode/gameModes.ts)
+  modeId: string
+  // Only sent to members of private rooms
+  inviteCode?: string
 }
 
+// 'spectator' follows other players or flies free, leaving the local avatar where it is
+export type ViewType = 'first' | 'third' | 'non-webgl' | 'spectator'
+
 export interface GameState {
   currentPlayer: Player | null
   currentRoom: Room | null
+  // A room watched without a slot in it; never set together with currentRoom
+  spectatingRoom: Room | null
   lobby: Player[]
-  view: 'first' | 'third' | 'non-webgl'
+  availableRooms: Room[]
+  view: ViewType
   isConnected: boolean
 }
 
-export type ViewType = 'first' | 'third' | 'non-webgl'
-
-export interface NetworkMessage {
-  type: string
-  data: any
+export interface NetworkMessage<T extends string = string, D = any> {
+  type: T
+  data: D
   timestamp: number
 }
@@ -0,0 +1,35 @@
+import { parseAvatarManifest, type AvatarManifest } from '@/systems/Avatar/avatarManifest'
+
+// Fetches the avatar manifest once. The selection screen lists it and the glTF loader
+// resolves files from it; the parsed manifest is also kept for synchronous lookups.
+export class AvatarManifestLoader {
+  private pending: Promise<AvatarManifest> | null = null
+  private loaded: AvatarManifest | null = null
+
+  loadManifest(): Promise<AvatarManifest> {
+    if (!this.pending) {
+      const pending = this.fetchManifest()
+      this.pending = pending
+      pending
+        .then(manifest => { this.loaded = manifest })
+        // Let a failed load be retried later
+        .catch(() => { if (this.pending === pending) this.pending = null })
+    }
+    return this.pending
+  }
+
+  getLoaded(): AvatarManifest | null {
+    return this.loaded
+  }
+
+  private async fetchManifest(): Promise<AvatarManifest> {
+    console.log('🧍 Loading avatar manifest')
+    const response = await fetch('/avatar/manifest.json')
+    if (!response.ok) {
+      throw new Error(`Avatar manifest could not be loaded (HTTP ${response.status})`)
+    }
+    return parseAvatarManifest(await response.json())
+  }
+}
+
+export const avatarManifestLoader = new AvatarManifestLoader()
@@ -0,0 +1,51 @@
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import type { Group } from 'three'
+import { parseBuilding, type BuildingDefinition } from '@/systems/Buildings/buildingFormat'
+
+// Fetches building files from /buildings and the glTF models of their damage stages.
+// Both are cached; models are cloned per use since many placements share a building.
+// Loaded files are also kept for synchronous lookups (e.g. naming one in the kill feed).
+export class BuildingLoader {
+  private gltfLoader = new GLTFLoader()
+  private buildings = new Map<string, Promise<BuildingDefinition>>()
+  private loaded = new Map<string, BuildingDefinition>()
+  private models = new Map<string, Promise<Group>>()
+
+  loadBuilding(id: string): Promise<BuildingDefinition> {
+    let pending = this.buildings.get(id)
+    if (!pending) {
+      pending = this.fetchBuilding(id)
+      this.buildings.set(id, pending)
+      pending
+        .then(building => this.loaded.set(id, building))
+        // Let a failed load be retried later
+        .catch(() => this.buildings.delete(id))
+    }
+    return pending
+  }
+
+  getLoaded(id: string): BuildingDefinition | undefined {
+    return this.loaded.get(id)
+  }
+
+  async loadModel(url: string): Promise<Group> {
+    let pending = this.models.get(url)
+    if (!pending) {
+      pending = this.gltfLoader.loadAsync(url).then(gltf => gltf.scene)
+      this.models.set(url, pending)
+      pending.catch(() => this.models.delete(url))
+    }
+    return (await pending).clone()
+  }
+
+  private async fetchBuilding(id: string): Promise<BuildingDefinition> {
+    console.log(`🏢 Loading building: ${id}`)
+    const response = await fetch(`/buildings/${encodeURIComponent(id)}.json`)
+    if (!response.ok) {
+      throw new Error(`Building ${id} could not be loaded (HTTP ${response.status})`)
+    }
+    return parseBuilding(await response.json())
+  }
+}
+
+export const buildingLoader = new BuildingLoader()
@@ -0,0 +1,37 @@
+import { parseEncounter, type EncounterDefinition } from '@/systems/Kaiju/encounterFormat'
+
+// Fetches boss encounter files from /encounters. Snapshots only carry an encounter id,
+// so names, phases and weak points come from here; loaded files are also kept for
+// synchronous lookups (e.g. naming a boss in the kill feed).
+export class EncounterLoader {
+  private encounters = new Map<string, Promise<EncounterDefinition>>()
+  private loaded = new Map<string, EncounterDefinition>()
+
+  loadEncounter(id: string): Promise<EncounterDefinition> {
+    let pending = this.encounters.get(id)
+    if (!pending) {
+      pending = this.fetchEncounter(id)
+      this.encounters.set(id, pending)
+      pending
+        .then(encounter => this.loaded.set(id, encounter))
+        // Let a failed load be retried later
+        .catch(() => this.encounters.delete(id))
+    }
+    return pending
+  }
+
+  getLoaded(id: string): EncounterDefinition | undefined {
+    return this.loaded.get(id)
+  }
+
+  private async fetchEncounter(id: string): Promise<EncounterDefinition> {
+    console.log(`👹 Loading encounter: ${id}`)
+    const response = await fetch(`/encounters/${encodeURIComponent(id)}.json`)
+    if (!response.ok) {
+      throw new Error(`Encounter ${id} could not be loaded (HTTP ${response.status})`)
+    }
+    return parseEncounter(await response.json())
+  }
+}
+
+export const encounterLoader = new EncounterLoader()
@@ -0,0 +1,43 @@
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import type { Group } from 'three'
+import { parseLevel, type LevelDefinition } from '@/systems/Level/levelFormat'
+
+// Fetches level files from /levels and the glTF props they reference. Both are cached;
+// props are cloned per use so a model can be placed many times.
+export class LevelLoader {
+  private gltfLoader = new GLTFLoader()
+  private levels = new Map<string, Promise<LevelDefinition>>()
+  private props = new Map<string, Promise<Group>>()
+
+  loadLevel(id: string): Promise<LevelDefinition> {
+    let pending = this.levels.get(id)
+    if (!pending) {
+      pending = this.fetchLevel(id)
+      this.levels.set(id, pending)
+      // Let a failed load be retried later
+      pending.catch(() => this.levels.delete(id))
+    }
+    return pending
+  }
+
+  async loadProp(url: string): Promise<Group> {
+    let pending = this.props.get(url)
+    if (!pending) {
+      pending = this.gltfLoader.loadAsync(url).then(gltf => gltf.scene)
+      this.props.set(url, pending)
+      pending.catch(() => this.props.delete(url))
+    }
+    return (await pending).clone()
+  }
+
+  private async fetchLevel(id: string): Promise<LevelDefinition> {
+    console.log(`🗺️ Loading level: ${id}`)
+    const response = await fetch(`/levels/${encodeURIComponent(id)}.json`)
+    if (!response.ok) {
+      throw new Error(`Level ${id} could not be loaded (HTTP ${response.status})`)
+    }
+    return parseLevel(await response.json())
+  }
+}
+
+export const levelLoader = new LevelLoader()
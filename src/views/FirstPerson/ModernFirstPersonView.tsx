@@ -4,7 +4,9 @@ import {
   useMemo, 
   memo, 
   useState,
-  startTransition
+  useEffect,
+  startTransition,
+  type RefObject
 } from 'react'
 import { Canvas, useFrame, type RootState } from '@react-three/fiber'
 import { PerspectiveCamera } from '@react-three/drei'
@@ -12,17 +14,50 @@ import type { PerspectiveCamera as PerspectiveCameraType, Vector3Tuple } from 't
 import { useGameStore } from '@/stores/gameStore'
 import { ModernAvatarSystem } from '@/systems/Avatar/ModernAvatarSystem'
 import { useKeyboardMovement } from '@/hooks/useKeyboardMovement'
+import { useCombatControls } from '@/hooks/useCombatControls'
+import { useMouseLook, type LookAngles } from '@/hooks/useMouseLook'
+import { RemotePlayers } from '@/systems/Avatar/RemotePlayers'
+import { KaijuEntities } from '@/systems/Kaiju/KaijuEntities'
+import { BuildingEntities } from '@/systems/Buildings/BuildingEntities'
+import { Projectiles } from '@/systems/Combat/Projectiles'
+import { EffectsLayer } from '@/systems/Effects/EffectsLayer'
+import { LevelScene } from '@/systems/Level/LevelScene'
+import { DEFAULT_LEVEL_ID } from '@/systems/Level/levelFormat'
+import { useLevel } from '@/hooks/useLevel'
+import { DEFAULT_AVATAR_HEIGHT } from '@/systems/Avatar/avatarManifest'
+
+// Eyes sit a little below the top of the head
+const EYE_HEIGHT_RATIO = 0.93
+
+// Head-bob: steps per second at walking pace, vertical amplitude (units), and how fast
+// it eases in and out; running bobs faster and higher
+const HEAD_BOB_FREQUENCY = 1.8
+const HEAD_BOB_AMPLITUDE = 0.04
+const HEAD_BOB_RUN_MULTIPLIER = 1.4
+const HEAD_BOB_EASE = 8
+
+// What the camera needs from the simulation each frame
+interface BodyState {
+  position: Vector3Tuple
+  isMoving: boolean
+  isRunning: boolean
+  isGrounded: boolean
+}
 
 // Movement controller that runs inside Canvas
 function MovementController({ 
   updateMovement, 
-  onMovementChange 
+  onMovementChange,
+  bodyRef
 }: { 
   updateMovement: (delta: number) => any
   onMovementChange: (state: any) => void 
+  bodyRef: RefObject<BodyState>
 }) {
   useFrame((state, delta) => {
     const result = updateMovement(delta)
+    // Read by the camera this same frame, without waiting for React
+    bodyRef.current = result
     
     // Update parent component with movement state (using React transition)
     startTransition(() => {
@@ -42,34 +77,43 @@ function MovementController({
   return null // This component doesn't render anything
 }
 
-// Modern camera component with proper typing
+// Eyes at the avatar's measured eye height, aimed by mouse look, bobbing while walking.
+// Must mount after MovementController so it reads this frame's position.
 function FirstPersonCamera({ 
-  position, 
-  rotation 
+  bodyRef,
+  look,
+  eyeHeight
 }: { 
-  position: Vector3Tuple
-  rotation: Vector3Tuple 
+  bodyRef: RefObject<BodyState>
+  look: RefObject<LookAngles>
+  eyeHeight: number
 }) {
   const cameraRef = useRef<PerspectiveCameraType>(null)
+  const bob = useRef({ phase: 0, weight: 0 })
   
-  useFrame(() => {
-    if (cameraRef.current) {
-      const [x, y, z] = position
-      const [, rotY] = rotation
-      
-      // Position camera at avatar's eye level (scaled for tiny avatar)
-      const eyeLevel = y + 0.02
-      cameraRef.current.position.set(x, eyeLevel, z)
-      cameraRef.current.rotation.y = rotY
-    }
+  useFrame((_, delta) => {
+    const camera = cameraRef.current
+    if (!camera) return
+    const { position, isMoving, isRunning, isGrounded } = bodyRef.current
+    const walking = isMoving && isGrounded
+    const pace = isRunning ? HEAD_BOB_RUN_MULTIPLIER : 1
+
+    if (walking) bob.current.phase += delta * HEAD_BOB_FREQUENCY * pace * Math.PI
+    bob.current.weight += ((walking ? 1 : 0) - bob.current.weight) * Math.min(1, delta * HEAD_BOB_EASE)
+    const amplitude = HEAD_BOB_AMPLITUDE * pace * bob.current.weight
+    
+    // Yaw then pitch, so looking up and down never rolls the view
+    camera.rotation.set(look.current.pitch, look.current.yaw, 0, 'YXZ')
+    // Up once per step, side to side once per stride
+    camera.position.set(position[0], position[1] + eyeHeight + Math.abs(Math.sin(bob.current.phase)) * amplitude, position[2])
+    camera.translateX(Math.cos(bob.current.phase) * amplitude * 0.5)
   })
 
   return (
     <PerspectiveCamera 
       ref={cameraRef} 
       makeDefault 
-      position={position} 
-      near={0.001} 
+      near={0.05} 
       far={1000}
       fov={75}
     />
@@ -156,17 +200,36 @@ const PositionIndicator = memo(function PositionIndicator({
 
 // Main component
 export const ModernFirstPersonView = memo(function ModernFirstPersonView() {
-  const { currentPlayer, lobby } = useGameStore()
+  const { currentPlayer, currentRoom } = useGameStore()
+  const { level, world, spawn } = useLevel(currentRoom?.levelId ?? DEFAULT_LEVEL_ID)
   const [movementState, setMovementState] = useState({
     position: [0, 0, 0] as Vector3Tuple,
     rotation: [0, 0, 0] as Vector3Tuple,
     isMoving: false,
     activeKeys: [] as string[]
   })
+  const bodyRef = useRef<BodyState>({ position: spawn.position, isMoving: false, isRunning: false, isGrounded: true })
+  const look = useRef<LookAngles>({ yaw: spawn.yaw ?? 0, pitch: 0 })
+  const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null)
+  // Until the model is measured, the height the manifest normalises it to
+  const [eyeHeight, setEyeHeight] = useState(() =>
+    (currentPlayer?.avatar.height ?? DEFAULT_AVATAR_HEIGHT) * EYE_HEIGHT_RATIO)
+  const isLocked = useMouseLook(canvas, look)
+
+  // Face the way the spawn point does once the level has loaded
+  useEffect(() => {
+    look.current = { yaw: spawn.yaw ?? 0, pitch: 0 }
+  }, [spawn])
 
-  // Modern keyboard movement hook
+  // Attacks go where the camera looks
+  useCombatControls(() => ({ yaw: look.current.yaw, pitch: look.current.pitch }))
+
+  // Modern keyboard movement hook: W walks where the camera looks, A/D strafe
   const { currentState, updateMovement } = useKeyboardMovement({
     speed: 0.2,
+    initialPosition: spawn.position,
+    world,
+    getHeading: () => look.current.yaw,
     onStateChange: (state) => {
       // Use startTransition to prevent blocking
       startTransition(() => {
@@ -197,6 +260,7 @@ export const ModernFirstPersonView = memo(function ModernFirstPersonView() {
     canvas.style.outline = 'none' // Remove focus outline
     canvas.tabIndex = 0 // Make focusable
     canvas.focus() // Auto-focus for immediate input
+    setCanvas(canvas)
     
     console.log('✅ Modern canvas setup complete')
     
@@ -219,12 +283,6 @@ export const ModernFirstPersonView = memo(function ModernFirstPersonView() {
     }
   }, [])
 
-  // Memoized other players list
-  const otherPlayers = useMemo(() => 
-    lobby.filter(p => p.id !== currentPlayer?.id), 
-    [lobby, currentPlayer?.id]
-  )
-
   return (
     <>
       <DebugPanel 
@@ -234,6 +292,14 @@ export const ModernFirstPersonView = memo(function ModernFirstPersonView() {
         hookState={currentState}
       />
       
+      {isLocked ? (
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-10 w-1.5 h-1.5 rounded-full bg-white bg-opacity-80 pointer-events-none" />
+      ) : (
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-10 bg-black bg-opacity-50 text-white px-4 py-2 rounded-lg pointer-events-none">
+          Click to look around
+        </div>
+      )}
+      
       <Canvas 
         className="w-full h-full cursor-none"
         gl={glSettings}
@@ -241,37 +307,29 @@ export const ModernFirstPersonView = memo(function ModernFirstPersonView() {
         frameloop="always"
         dpr={dpr}
       >
-        {/* Modern camera system */}
-        <FirstPersonCamera 
-          position={movementState.position} 
-          rotation={movementState.rotation} 
-        />
-        
         {/* Movement controller with useFrame inside Canvas */}
         <MovementController 
           updateMovement={updateMovement}
           onMovementChange={setMovementState}
+          bodyRef={bodyRef}
         />
         
-        {/* Simple lighting setup */}
-        <ambientLight intensity={0.5} />
-        <directionalLight 
-          position={[10, 10, 5]} 
-          intensity={1} 
-          castShadow 
-          shadow-mapSize-width={1024}
-          shadow-mapSize-height={1024}
+        {/* Mouse-look camera at eye height */}
+        <FirstPersonCamera 
+          bodyRef={bodyRef}
+          look={look}
+          eyeHeight={eyeHeight}
         />
         
-        {/* Other players */}
-        {otherPlayers.map(player => (
-          <ModernAvatarSystem 
-            key={player.id}
-            avatar={player.avatar}
-            position={player.position}
-            rotation={player.rotation}
-          />
-        ))}
+        {/* Level: lighting, ground, terrain, collision volumes and props */}
+        <LevelScene level={level} world={world} />
+        
+        {/* Other players - interpolated from server snapshots */}
+        <RemotePlayers />
+        <KaijuEntities />
+        <BuildingEntities />
+        <Projectiles />
+        <EffectsLayer getLocalPosition={() => movementState.position} />
         
         {/* Player's own avatar (invisible in first person) */}
         {currentPlayer && (
@@ -281,6 +339,7 @@ export const ModernFirstPersonView = memo(function ModernFirstPersonView() {
             position={movementState.position}
             rotation={movementState.rotation}
             visible={false}
+            onMetrics={(metrics) => setEyeHeight(metrics.worldHeight * EYE_HEIGHT_RATIO)}
           />
         )}
         
@@ -290,20 +349,6 @@ export const ModernFirstPersonView = memo(function ModernFirstPersonView() {
           isMoving={movementState.isMoving}
         />
         
-        {/* World elements */}
-        <mesh position={[0, 0.5, -5]}>
-          <boxGeometry args={[2, 2, 2]} />
-          <meshStandardMaterial color="#00ffff" />
-        </mesh>
-        
-        <mesh 
-          position={[0, -1, 0]} 
-          rotation={[-Math.PI / 2, 0, 0]}
-          receiveShadow
-        >
-          <planeGeometry args={[100, 100]} />
-          <meshStandardMaterial color="#444444" />
-        </mesh>
       </Canvas>
     </>
   )
@@ -0,0 +1,201 @@
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Canvas, useFrame, useThree, type RootState } from '@react-three/fiber'
+import { PerspectiveCamera } from '@react-three/drei'
+import { Euler, Vector3, type PerspectiveCamera as PerspectiveCameraType } from 'three'
+import { useGameStore } from '@/stores/gameStore'
+import { useInputStore } from '@/stores/inputStore'
+import { RemotePlayers } from '@/systems/Avatar/RemotePlayers'
+import { KaijuEntities } from '@/systems/Kaiju/KaijuEntities'
+import { BuildingEntities } from '@/systems/Buildings/BuildingEntities'
+import { Projectiles } from '@/systems/Combat/Projectiles'
+import { EffectsLayer } from '@/systems/Effects/EffectsLayer'
+import { LevelScene } from '@/systems/Level/LevelScene'
+import { DEFAULT_LEVEL_ID } from '@/systems/Level/levelFormat'
+import { inputController } from '@/systems/Input/InputController'
+import { formatKeyCode } from '@/systems/Input/inputMap'
+import {
+  remotePlayerInterpolator,
+  type InterpolatedTransform
+} from '@/systems/Networking/SnapshotInterpolator'
+import { useLevel } from '@/hooks/useLevel'
+import { useMouseLook, type LookAngles } from '@/hooks/useMouseLook'
+
+type CameraMode = 'follow' | 'free'
+
+// Follow camera: behind and above the target, looking at its chest
+const FOLLOW_DISTANCE = 6
+const FOLLOW_HEIGHT = 3
+const FOLLOW_LOOK_HEIGHT = 1.5
+// Higher is snappier; exponential so it is frame-rate independent
+const FOLLOW_DAMPING = 6
+
+// Free camera, units/s; run multiplies
+const FREE_SPEED = 12
+const FREE_RUN_MULTIPLIER = 3
+
+interface SpectatorCameraProps {
+  mode: CameraMode
+  targetId: string | null
+}
+
+function SpectatorCamera({ mode, targetId }: SpectatorCameraProps) {
+  const cameraRef = useRef<PerspectiveCameraType>(null)
+  const gl = useThree(state => state.gl)
+  const look = useRef<LookAngles>({ yaw: 0, pitch: 0 })
+  // Yaw then pitch, so looking around never rolls the camera
+  const euler = useMemo(() => new Euler(0, 0, 0, 'YXZ'), [])
+  const transform = useMemo<InterpolatedTransform>(() => ({
+    position: [0, 0, 0],
+    yaw: 0,
+    speed: 0,
+    extrapolating: false
+  }), [])
+  const scratch = useMemo(() => ({ desired: new Vector3(), forward: new Vector3(), right: new Vector3() }), [])
+
+  useMouseLook(gl.domElement, look, mode === 'free')
+
+  // Free flight picks up from wherever the follow camera was looking
+  useEffect(() => {
+    const camera = cameraRef.current
+    if (mode !== 'free' || !camera) return
+    euler.setFromQuaternion(camera.quaternion, 'YXZ')
+    look.current = { yaw: euler.y, pitch: euler.x }
+  }, [mode, euler])
+
+  useFrame((_, delta) => {
+    const camera = cameraRef.current
+    if (!camera) return
+    inputController.poll()
+
+    if (mode === 'follow') {
+      if (targetId && remotePlayerInterpolator.sample(targetId, transform)) {
+        const [x, y, z] = transform.position
+        // Forward is (-sin yaw, -cos yaw), so behind is the opposite
+        scratch.desired.set(
+          x + Math.sin(transform.yaw) * FOLLOW_DISTANCE,
+          y + FOLLOW_HEIGHT,
+          z + Math.cos(transform.yaw) * FOLLOW_DISTANCE
+        )
+        camera.position.lerp(scratch.desired, 1 - Math.exp(-FOLLOW_DAMPING * delta))
+        camera.lookAt(x, y + FOLLOW_LOOK_HEIGHT, z)
+      }
+    } else {
+      camera.rotation.set(look.current.pitch, look.current.yaw, 0, 'YXZ')
+      const intent = inputController.getMovementIntent()
+      camera.getWorldDirection(scratch.forward)
+      scratch.right.crossVectors(scratch.forward, camera.up).normalize()
+      const speed = FREE_SPEED * (intent.run ? FREE_RUN_MULTIPLIER : 1) * (intent.magnitude ?? 1) * delta
+      // Flies where it looks; jump rises straight up
+      if (intent.forward) camera.position.addScaledVector(scratch.forward, speed)
+      if (intent.backward) camera.position.addScaledVector(scratch.forward, -speed)
+      if (intent.right) camera.position.addScaledVector(scratch.right, speed)
+      if (intent.left) camera.position.addScaledVector(scratch.right, -speed)
+      if (intent.jump) camera.position.y += speed
+    }
+  })
+
+  return (
+    <PerspectiveCamera
+      ref={cameraRef}
+      makeDefault
+      position={[0, 10, 15]}
+      near={0.1}
+      far={1000}
+      fov={70}
+    />
+  )
+}
+
+// Watches the space without moving the local avatar: follows any other player in it
+// (cycled with the spectate keys) or detaches into a free-fly camera. Used when watching
+// a room without a slot, and for checking what everyone else sees when debugging desyncs.
+export const SpectatorView = memo(function SpectatorView() {
+  const { lobby, currentPlayer, currentRoom, spectatingRoom } = useGameStore()
+  const bindings = useInputStore(state => state.bindings)
+  const room = currentRoom ?? spectatingRoom
+  const { level, world } = useLevel(room?.levelId ?? DEFAULT_LEVEL_ID)
+  const [mode, setMode] = useState<CameraMode>('follow')
+  const [targetId, setTargetId] = useState<string | null>(null)
+
+  const spaceId = room?.id ?? null
+  const targets = useMemo(() =>
+    lobby.filter(p => p.id !== currentPlayer?.id && (p.room ?? null) === spaceId),
+    [lobby, currentPlayer?.id, spaceId]
+  )
+  const targetIndex = targets.findIndex(p => p.id === targetId)
+  const target = targetIndex >= 0 ? targets[targetIndex] : null
+
+  // Someone to watch as soon as there is anyone, and after the watched player leaves
+  useEffect(() => {
+    if (!target) setTargetId(targets[0]?.id ?? null)
+  }, [target, targets])
+
+  // Listeners outlive renders, so they read the latest targets through a ref
+  const cycleRef = useRef((_step: number) => {})
+  cycleRef.current = (step: number) => {
+    if (targets.length === 0) return
+    const next = (Math.max(targetIndex, 0) + step + targets.length) % targets.length
+    setTargetId(targets[next].id)
+    setMode('follow')
+  }
+
+  useEffect(() => inputController.attach(), [])
+  useEffect(() => inputController.onAction('spectateNext', () => cycleRef.current(1)), [])
+  useEffect(() => inputController.onAction('spectatePrevious', () => cycleRef.current(-1)), [])
+  useEffect(() => inputController.onAction('freeCamera', () => {
+    setMode(current => current === 'free' ? 'follow' : 'free')
+  }), [])
+
+  const glSettings = useMemo(() => ({
+    powerPreference: 'default' as const,
+    antialias: false,
+    alpha: false,
+    stencil: false,
+    depth: true,
+    failIfMajorPerformanceCaveat: false
+  }), [])
+
+  const handleCanvasCreated = useCallback((state: RootState) => {
+    const canvas = state.gl.domElement
+    canvas.style.outline = 'none'
+    canvas.tabIndex = 0
+    canvas.focus()
+  }, [])
+
+  const keyHint = (action: 'spectateNext' | 'spectatePrevious' | 'freeCamera') =>
+    bindings[action][0] ? formatKeyCode(bindings[action][0]) : '-'
+
+  return (
+    <>
+      <div className="absolute top-20 left-1/2 -translate-x-1/2 z-10 bg-black bg-opacity-50 text-white px-4 py-2 rounded-lg text-center pointer-events-none">
+        <div className="font-semibold">
+          {mode === 'free'
+            ? 'Free camera'
+            : target
+              ? `Following ${target.name} (${targetIndex + 1}/${targets.length})`
+              : 'No players to follow'}
+        </div>
+        <div className="text-xs text-slate-300">
+          {keyHint('spectatePrevious')}/{keyHint('spectateNext')}: Switch player • {keyHint('freeCamera')}: {mode === 'free' ? 'Follow' : 'Free camera'}
+        </div>
+      </div>
+
+      <Canvas
+        className="w-full h-full"
+        gl={glSettings}
+        onCreated={handleCanvasCreated}
+        dpr={[1, 1.5]}
+      >
+        <SpectatorCamera mode={mode} targetId={target?.id ?? null} />
+
+        <LevelScene level={level} world={world} />
+        <RemotePlayers />
+        <KaijuEntities />
+        <BuildingEntities />
+        <Projectiles />
+        {/* No local player position: the camera isn't a player and can't be hit */}
+        <EffectsLayer />
+      </Canvas>
+    </>
+  )
+})
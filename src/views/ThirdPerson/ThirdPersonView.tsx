@@ -1,21 +1,56 @@
-import { useRef, useCallback, useMemo, memo, useEffect, useState, startTransition } from 'react'
+import { useRef, useCallback, useMemo, memo, useEffect, useState, startTransition, type RefObject } from 'react'
 import { Canvas, useFrame, type RootState } from '@react-three/fiber'
-import { PerspectiveCamera, OrbitControls } from '@react-three/drei'
-import type { Vector3Tuple } from 'three'
+import { PerspectiveCamera } from '@react-three/drei'
+import type { PerspectiveCamera as PerspectiveCameraType, Vector3Tuple } from 'three'
 import { useGameStore } from '@/stores/gameStore'
 import { ModernAvatarSystem } from '@/systems/Avatar/ModernAvatarSystem'
 import { useKeyboardMovement } from '@/hooks/useKeyboardMovement'
+import { useCombatControls } from '@/hooks/useCombatControls'
+import { useCombatStore } from '@/stores/combatStore'
 import { WebGLStatus } from '@/components/WebGLStatus/WebGLStatus'
 import { PerformanceHUD } from '@/components/PerformanceHUD/PerformanceHUD'
 import { AnimationControls } from '@/components/AnimationControls/AnimationControls'
+import { RemotePlayers } from '@/systems/Avatar/RemotePlayers'
+import { KaijuEntities } from '@/systems/Kaiju/KaijuEntities'
+import { BuildingEntities } from '@/systems/Buildings/BuildingEntities'
+import { Projectiles } from '@/systems/Combat/Projectiles'
+import { EffectsLayer } from '@/systems/Effects/EffectsLayer'
+import { LevelScene } from '@/systems/Level/LevelScene'
+import { DEFAULT_LEVEL_ID } from '@/systems/Level/levelFormat'
+import { useLevel } from '@/hooks/useLevel'
+import { useMouseLook, type LookAngles } from '@/hooks/useMouseLook'
+import { TouchControls, type TouchCameraOrbit } from '@/components/TouchControls/TouchControls'
+import { getOptimalSettings, isMobile } from '@/utils/mobile/deviceDetection'
+import type { CollisionWorld } from '@/systems/Physics/collisionWorld'
+import {
+  DEFAULT_FOLLOW_CAMERA_SETTINGS,
+  clampFollowDistance,
+  clampFollowPitch,
+  createFollowCameraState,
+  stepFollowCamera,
+  type FollowCameraSettings
+} from '@/systems/Camera/followCamera'
+
+// Wheel zoom: fraction of the current distance per wheel pixel
+const ZOOM_PER_WHEEL_PIXEL = 0.001
+
+// What the camera needs from the simulation each frame
+interface BodyState {
+  position: Vector3Tuple
+  yaw: number
+  // Horizontal units/s, for the avatar's locomotion blend
+  speed: number
+}
 
 // Movement controller for third person view
 function ThirdPersonMovementController({ 
   updateMovement, 
-  onMovementChange 
+  onMovementChange,
+  bodyRef
 }: { 
   updateMovement: (delta: number) => any
   onMovementChange: (state: any) => void 
+  bodyRef: RefObject<BodyState>
 }) {
   useFrame((state, delta) => {
     // Reduced frame logging - only occasionally
@@ -89,55 +124,13 @@ function ThirdPersonMovementController({
     
     console.log('🔄 AFTER_TPJ_FRAME_RESULT')
 
-    // Log all the state we need
-    const camPos = state.camera.position.toArray().map((v) => Number(v.toFixed(3)))
-    const camTarget = (state as any).controls?.target?.toArray?.() || null
-    const clock = state.clock.elapsedTime.toFixed(2)
-
-    const posStr = `(${result.position[0].toFixed(3)}, ${result.position[1].toFixed(3)}, ${result.position[2].toFixed(3)})`
-    const camPosStr = camPos ? `(${camPos[0].toFixed(3)}, ${camPos[1].toFixed(3)}, ${camPos[2].toFixed(3)})` : 'n/a'
-    const camTargetStr = camTarget ? `(${camTarget[0].toFixed(3)}, ${camTarget[1].toFixed(3)}, ${camTarget[2].toFixed(3)})` : 'n/a'
-    console.log('TP FRAME', {
-      clock,
-      delta: Number(delta.toFixed(4)),
-      keys: result.activeKeys.join(', '),
-      isMoving: result.isMoving,
-      posStr,
-      rotY: Number(result.rotation[1].toFixed(3)),
-      camPosStr,
-      camTargetStr
-    })
-
-    // JSON-friendly duplicate for logfile parsing
-    console.log('🔄 BEFORE_TPJ_FRAME_JSON')
-    try {
-      console.log('TPJ FRAME', JSON.stringify({
-        clock,
-        delta: Number(delta.toFixed(4)),
-        keys: result.activeKeys,
-        isMoving: result.isMoving,
-        isRunning: result.isRunning,
-        velocity: result.velocity,
-        pos: result.position.map((v: number) => Number(v.toFixed(3))),
-        rotY: Number(result.rotation[1].toFixed(3)),
-        camPos,
-        camTarget,
-        hasFocus: typeof document !== 'undefined' && document.activeElement === (state.gl?.domElement as any)
-      }))
-      // If moving but canvas isn't focused, auto-refocus and log it
-      const canvasEl = state.gl?.domElement as HTMLCanvasElement | undefined
-      const focused = typeof document !== 'undefined' && document.activeElement === canvasEl
-      if (result.isMoving && canvasEl && !focused) {
-        try {
-          canvasEl.focus()
-          console.log('TPJ FOCUS', JSON.stringify({ action: 'refocus', prevActiveTag: (document.activeElement as any)?.tagName || null }))
-        } catch {}
-      }
-    } catch (tpjError) {
-      console.log('❌ TPJ_FRAME_ERROR', tpjError)
+    // Read by the camera this same frame, without waiting for React. Speed is over the
+    // fixed steps that ran, not the render frame, and holds on frames that ran none.
+    bodyRef.current = {
+      position: result.position,
+      yaw: result.rotation[1],
+      speed: result.simulatedTime > 0 ? result.velocity.speed / result.simulatedTime : bodyRef.current.speed
     }
-    
-    console.log('🔄 AFTER_TPJ_FRAME_JSON')
 
     // DEBUG: Log before calling onMovementChange (OUTSIDE try-catch)
     console.log('🔄 ABOUT_TO_CALL_ON_MOVEMENT_CHANGE')
@@ -151,7 +144,59 @@ function ThirdPersonMovementController({
   return null // This component doesn't render anything
 }
 
+// Follow camera over the avatar's shoulder. Orbits with mouse look and touch drag (which
+// is also the heading movement is relative to), zooms within `settings`, and pulls in
+// when level geometry blocks the view. Must mount after ThirdPersonMovementController so it reads this
+// frame's position.
+function ThirdPersonCamera({
+  bodyRef,
+  world,
+  look,
+  touchOrbit,
+  zoom,
+  settings,
+  fov
+}: {
+  bodyRef: RefObject<BodyState>
+  world: CollisionWorld
+  look: RefObject<LookAngles>
+  touchOrbit: TouchCameraOrbit
+  zoom: RefObject<number>
+  settings: FollowCameraSettings
+  fov: number
+}) {
+  const cameraRef = useRef<PerspectiveCameraType>(null)
+  const follow = useRef(createFollowCameraState(bodyRef.current.position, bodyRef.current.yaw, settings))
+
+  useFrame((_, delta) => {
+    const camera = cameraRef.current
+    if (!camera) return
+    const { position } = bodyRef.current
+    const orbit = {
+      yaw: look.current.yaw + touchOrbit.yaw,
+      pitch: clampFollowPitch(look.current.pitch, settings),
+      // Pinching scales the wheel distance; both stay inside the zoom limits
+      distance: clampFollowDistance(zoom.current * touchOrbit.zoom, settings)
+    }
+    // Mouse look is unclamped for the first-person range, so keep it where the camera can go
+    look.current.pitch = orbit.pitch
+
+    const [x, y, z] = stepFollowCamera(follow.current, world, position, orbit, settings, delta)
+    camera.position.set(x, y, z)
+    // Yaw then pitch, so orbiting never rolls the view
+    camera.rotation.set(orbit.pitch, follow.current.yaw, 0, 'YXZ')
+  })
 
+  return (
+    <PerspectiveCamera
+      ref={cameraRef}
+      makeDefault
+      near={0.1}
+      far={1000}
+      fov={fov}
+    />
+  )
+}
 
 export const ThirdPersonView = memo(function ThirdPersonView() {
   // MASSIVE LOGGING - TRACK EVERY RENDER
@@ -168,7 +213,8 @@ export const ThirdPersonView = memo(function ThirdPersonView() {
     })
   }
   
-  const { currentPlayer, lobby } = useGameStore()
+  const { currentPlayer, currentRoom, lobby } = useGameStore()
+  const { level, world, spawn } = useLevel(currentRoom?.levelId ?? DEFAULT_LEVEL_ID)
   
   // LOG GAMESTORE STATE - ONLY EVERY 10TH RENDER
   if (viewRenderCount.current % 10 === 1) {
@@ -184,10 +230,30 @@ export const ThirdPersonView = memo(function ThirdPersonView() {
   }
   console.log('GAMESTORE_CHECK', currentPlayer?.avatar?.name || 'NO_AVATAR') // Simple log
   
-  // Canvas reference removed - not needed in current implementation
-  const cameraRef = useRef<any>(null)
-  const canvasElRef = useRef<HTMLCanvasElement | null>(null)
-  const controlsRef = useRef<any>(null) // kept for potential future use
+  const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null)
+  const cameraOrbit = useRef<TouchCameraOrbit>({ yaw: 0, zoom: 1 })
+  const touchControlsEnabled = useMemo(() => isMobile(), [])
+  const optimal = useMemo(() => getOptimalSettings(), [])
+  const cameraSettings = useMemo<FollowCameraSettings>(() => ({
+    ...DEFAULT_FOLLOW_CAMERA_SETTINGS,
+    minDistance: optimal.minDistance,
+    maxDistance: optimal.maxDistance
+  }), [optimal])
+  const bodyRef = useRef<BodyState>({ position: spawn.position, yaw: spawn.yaw ?? 0, speed: 0 })
+  // Camera orbit, which movement follows: W walks the way the camera faces, A/D strafe
+  const look = useRef<LookAngles>({ yaw: spawn.yaw ?? 0, pitch: cameraSettings.pitch })
+  const zoom = useRef(clampFollowDistance(cameraSettings.distance, cameraSettings))
+  const isLocked = useMouseLook(canvas, look, !touchControlsEnabled)
+
+  // Scrolling zooms within the device's limits
+  useEffect(() => {
+    if (!canvas) return
+    const handleWheel = (event: WheelEvent) => {
+      zoom.current = clampFollowDistance(zoom.current * (1 + event.deltaY * ZOOM_PER_WHEEL_PIXEL), cameraSettings)
+    }
+    canvas.addEventListener('wheel', handleWheel, { passive: true })
+    return () => canvas.removeEventListener('wheel', handleWheel)
+  }, [canvas, cameraSettings])
   
   // Movement state for player avatar
   const [movementState, setMovementState] = useState({
@@ -195,6 +261,7 @@ export const ThirdPersonView = memo(function ThirdPersonView() {
     rotation: [0, 0, 0] as Vector3Tuple,
     isMoving: false,
     isRunning: false,
+    isGrounded: true,
     activeKeys: [] as string[]
   })
   
@@ -226,14 +293,26 @@ export const ThirdPersonView = memo(function ThirdPersonView() {
     keyboardHookCreated.current = true
   }
   
+  // Attacks go where the character faces
+  useCombatControls(() => ({ yaw: movementState.rotation[1] }))
+  const { lastAttackAt, lastHurtAt, respawnAt } = useCombatStore()
+  // Whichever happened last plays over the avatar's movement
+  const combatOneShot = useMemo(() => lastHurtAt > lastAttackAt
+    ? { state: 'hit' as const, at: lastHurtAt }
+    : { state: 'attack' as const, at: lastAttackAt },
+    [lastAttackAt, lastHurtAt])
+
   const { updateMovement } = useKeyboardMovement({
     speed: 0.2,
-    initialPosition: [0, 0, 0], // Start from origin
+    initialPosition: spawn.position, // Level spawn point
+    world,
+    getHeading: () => look.current.yaw + cameraOrbit.current.yaw,
     onStateChange: useCallback((state: {
       position: [number, number, number]
       rotation: [number, number, number]
       isMoving: boolean
       isRunning: boolean
+      isGrounded: boolean
       activeKeys: string[]
       velocity: { x: number; z: number; speed: number }
     }) => {
@@ -291,6 +370,7 @@ export const ThirdPersonView = memo(function ThirdPersonView() {
           rotation: state.rotation as Vector3Tuple,
           isMoving: state.isMoving,
           isRunning: state.isRunning,
+          isGrounded: state.isGrounded,
           activeKeys: state.activeKeys,
           velocity: state.velocity
         }
@@ -436,102 +516,16 @@ export const ThirdPersonView = memo(function ThirdPersonView() {
 
   const handleCanvasCreated = useCallback((state: RootState) => {
     const canvas = state.gl.domElement as HTMLCanvasElement
-    canvasElRef.current = canvas
     canvas.style.outline = 'none'
     canvas.tabIndex = 0
     canvas.focus()
+    setCanvas(canvas)
     console.log('✅ Canvas created successfully - WebGL context stable (focused for keyboard)')
   }, [])
 
-  // Camera and player position calculations (now using movement state)
-  const playerPosition = useMemo(() => movementState.position, [movementState.position])
-  const cameraPosition: [number, number, number] = useMemo(() => [
-    playerPosition[0] + 10,
-    playerPosition[1] + 8,
-    playerPosition[2] + 10
-  ], [playerPosition])
-
-  const otherPlayers = useMemo(() => 
-    lobby.filter(p => p.id !== currentPlayer?.id), 
-    [lobby, currentPlayer?.id]
-  )
-
-  function ThirdPersonCameraFollower({ target }: { target: [number, number, number] }) {
-    useFrame(() => {
-      console.log('🎥 CAMERA_FOLLOWER_USEFRAME')
-      if (controlsRef.current) {
-        controlsRef.current.target.set(target[0], target[1], target[2])
-        controlsRef.current.update()
-      }
-    })
-    return null
-  }
-
-  // Follow camera locked near the avatar's head and looking forward in avatar's heading
-  function FollowCamera({ target, yaw }: { target: [number, number, number]; yaw: number }) {
-    useFrame((state) => {
-      // Avatar forward unit vector derived from yaw (rotation around Y)
-      // Forward should match movement heading: yaw=0 => (0,0,-1)
-      const fwdX = -Math.sin(yaw)
-      const fwdZ = -Math.cos(yaw)
-      // Camera desired position: slightly above head and a bit behind the avatar
-      const headHeight = 1.6
-      const behind = 3.5
-      let desiredX = target[0] - fwdX * behind
-      let desiredY = target[1] + headHeight
-      let desiredZ = target[2] - fwdZ * behind
-
-      // Maintain a minimum distance to prevent clipping
-      const minDistance = 2.6
-      const dx = desiredX - target[0]
-      const dy = desiredY - target[1]
-      const dz = desiredZ - target[2]
-      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz)
-      if (dist < minDistance && dist > 0.0001) {
-        const s = minDistance / dist
-        desiredX = target[0] + dx * s
-        desiredY = target[1] + dy * s
-        desiredZ = target[2] + dz * s
-      }
-
-      // Smooth camera movement
-      const cam = state.camera
-      const lerp = 0.2
-      cam.position.x += (desiredX - cam.position.x) * lerp
-      cam.position.y += (desiredY - cam.position.y) * lerp
-      cam.position.z += (desiredZ - cam.position.z) * lerp
-
-      // Look where the avatar is looking: a point ahead in forward direction
-      const lookAhead = 10
-      const lookX = target[0] + fwdX * lookAhead
-      const lookY = target[1] + headHeight * 0.9
-      const lookZ = target[2] + fwdZ * lookAhead
-      cam.lookAt(lookX, lookY, lookZ)
-
-      // Camera diagnostics for parser
-      try {
-        console.log('TPJ CAM', JSON.stringify({
-          target,
-          yaw: Number(yaw.toFixed(3)),
-          desired: [Number(desiredX.toFixed(3)), Number(desiredY.toFixed(3)), Number(desiredZ.toFixed(3))],
-          actual: cam.position.toArray().map((n: number) => Number(n.toFixed(3))),
-          forward: [Number(fwdX.toFixed(3)), 0, Number(fwdZ.toFixed(3))],
-          lookAt: [Number(lookX.toFixed(3)), Number(lookY.toFixed(3)), Number(lookZ.toFixed(3))]
-        }))
-      } catch {}
-    })
-    return null
-  }
-
   return (
     <>
-      <div 
-        className="w-full h-full relative"
-        onPointerDown={() => {
-          // Ensure keyboard focus returns to canvas when user clicks anywhere in the view
-          try { canvasElRef.current?.focus() } catch {}
-        }}
-      >
+      <div className="w-full h-full relative">
         <Canvas 
           className="w-full h-full"
           gl={gl}
@@ -544,46 +538,26 @@ export const ThirdPersonView = memo(function ThirdPersonView() {
             // Don't re-throw - let scene load with fallback
           }}
         >
-        <PerspectiveCamera 
-          ref={cameraRef} 
-          makeDefault 
-          position={[cameraPosition[0], cameraPosition[1], cameraPosition[2]]}
-        />
-        {/* Follow camera for strict 3rd-person */}
-        <FollowCamera 
-          target={[movementState.position[0], movementState.position[1], movementState.position[2]]}
-          yaw={movementState.rotation[1]}
-        />
-        
-        {/* TEMPORARY: Free camera so you can look around */}
-        <OrbitControls 
-          target={[0, 0, 0]}
-          enablePan={true}
-          enableZoom={true}
-          enableRotate={true}
-          minDistance={1}
-          maxDistance={50}
-          ref={controlsRef}
-        />
-        
-        {/* Simple lighting setup - same as First Person */}
-        <ambientLight intensity={0.5} />
-        <directionalLight 
-          position={[10, 10, 5]} 
-          intensity={1} 
-          castShadow 
-          shadow-mapSize-width={1024}
-          shadow-mapSize-height={1024}
-        />
+        {/* Level: lighting, ground, terrain, collision volumes and props */}
+        <LevelScene level={level} world={world} />
         
         {/* Movement controller for third person view */}
         <ThirdPersonMovementController 
           updateMovement={updateMovement}
           onMovementChange={setMovementState}
+          bodyRef={bodyRef}
         />
 
-        {/* Keep OrbitControls target locked to avatar position */}
-        <ThirdPersonCameraFollower target={[movementState.position[0], movementState.position[1], movementState.position[2]]} />
+        {/* Collision-aware follow camera */}
+        <ThirdPersonCamera
+          bodyRef={bodyRef}
+          world={world}
+          look={look}
+          touchOrbit={cameraOrbit.current}
+          zoom={zoom}
+          settings={cameraSettings}
+          fov={optimal.fov}
+        />
         
         {/* Current Player Avatar (controllable) */}
         {(() => {
@@ -657,6 +631,10 @@ export const ThirdPersonView = memo(function ThirdPersonView() {
               rotation={movementState.rotation}
               isMoving={movementState.isMoving}
               isRunning={movementState.isRunning}
+              getSpeed={() => bodyRef.current.speed}
+              isGrounded={movementState.isGrounded}
+              isDead={respawnAt !== null}
+              oneShot={combatOneShot}
               label="current"
               scale={1.0}
             />
@@ -694,31 +672,23 @@ export const ThirdPersonView = memo(function ThirdPersonView() {
           </>
         )}
         
-        {/* Other Players - REMOVED for debugging */}
-        {(() => {
-          console.log('🔍 OTHER PLAYERS DISABLED:', {
-            otherPlayersCount: otherPlayers.length,
-            note: 'Other players disabled for debugging'
-          })
-          return null
-        })()}
-        
-        {/* Simple world elements - same as First Person */}
-        <mesh position={[0, 0.5, -5]}>
-          <boxGeometry args={[2, 2, 2]} />
-          <meshStandardMaterial color="#00ffff" />
-        </mesh>
+        {/* Other Players - interpolated from server snapshots */}
+        <RemotePlayers />
+        <KaijuEntities />
+        <BuildingEntities />
+        <Projectiles />
+        <EffectsLayer getLocalPosition={() => movementState.position} />
         
-        <mesh 
-          position={[0, -1, 0]} 
-          rotation={[-Math.PI / 2, 0, 0]}
-          receiveShadow
-        >
-          <planeGeometry args={[100, 100]} />
-          <meshStandardMaterial color="#444444" />
-        </mesh>
         </Canvas>
 
+        {touchControlsEnabled && <TouchControls cameraOrbit={cameraOrbit.current} />}
+
+        {!touchControlsEnabled && !isLocked && (
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-10 bg-black bg-opacity-50 text-white px-4 py-2 rounded-lg pointer-events-none">
+            Click to orbit the camera
+          </div>
+        )}
+
         {/* Third Person Debug Panel */}
         <div className="absolute top-4 right-4 bg-black/95 text-white p-4 rounded-lg border-2 border-blue-400 z-50">
           <h3 className="text-xl font-bold mb-2">🎮 THIRD PERSON</h3>
@@ -734,8 +704,9 @@ export const ThirdPersonView = memo(function ThirdPersonView() {
             </div>
             <div className="text-yellow-300 mt-2">
               <strong>WASD = Move Avatar</strong><br/>
-              <strong>Mouse = Orbit Camera</strong><br/>
-              <strong>Scroll = Zoom</strong>
+              <strong>Click + Mouse = Orbit Camera</strong><br/>
+              <strong>Scroll = Zoom</strong><br/>
+              <strong>Esc = Release Mouse</strong>
             </div>
             <div className="mt-2 text-xs text-gray-400">
               ✅ Same simple room<br/>